@@ -0,0 +1,24 @@
+-- Migration number: 0001 	 Initial users/emails schema
+
+CREATE TABLE IF NOT EXISTS users (
+	username TEXT PRIMARY KEY,
+	-- PBKDF2 hash ("pbkdf2$<iterations>$<salt>$<hash>"); legacy rows may still hold plaintext until next login
+	password TEXT NOT NULL,
+	created_at INTEGER NOT NULL DEFAULT (unixepoch())
+);
+
+CREATE TABLE IF NOT EXISTS emails (
+	id TEXT PRIMARY KEY,
+	username TEXT NOT NULL REFERENCES users (username) ON DELETE CASCADE,
+	sender TEXT NOT NULL,
+	subject TEXT NOT NULL,
+	snippet TEXT NOT NULL DEFAULT '',
+	-- Key of the parsed PostalMime JSON in MAIL_STORAGE
+	raw_r2_key TEXT,
+	has_attachments INTEGER NOT NULL DEFAULT 0,
+	is_read INTEGER NOT NULL DEFAULT 0,
+	ai_summary TEXT,
+	created_at INTEGER NOT NULL DEFAULT (unixepoch())
+);
+
+CREATE INDEX IF NOT EXISTS idx_emails_username_created_at ON emails (username, created_at DESC);
@@ -0,0 +1,11 @@
+-- Migration number: 0002 	 Identity and message expiry
+
+-- NULL expires_at means "never expires" so rows created before this migration keep working
+ALTER TABLE users ADD COLUMN expires_at INTEGER;
+-- Lifetime in seconds applied to each message delivered to this identity
+ALTER TABLE users ADD COLUMN message_ttl INTEGER;
+
+ALTER TABLE emails ADD COLUMN expires_at INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_users_expires_at ON users (expires_at) WHERE expires_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_emails_expires_at ON emails (expires_at) WHERE expires_at IS NOT NULL;
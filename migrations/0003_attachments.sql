@@ -0,0 +1,14 @@
+-- Migration number: 0003 	 Attachments stored as individual R2 objects
+
+CREATE TABLE IF NOT EXISTS attachments (
+	email_id TEXT NOT NULL REFERENCES emails (id) ON DELETE CASCADE,
+	-- Position in the parsed message's attachment list; exposed as :n in the download route
+	idx INTEGER NOT NULL,
+	filename TEXT,
+	content_type TEXT NOT NULL,
+	size INTEGER NOT NULL,
+	content_id TEXT,
+	disposition TEXT,
+	r2_key TEXT NOT NULL,
+	PRIMARY KEY (email_id, idx)
+);
@@ -0,0 +1,15 @@
+-- Migration number: 0004 	 Conversation threading and the Sent folder
+
+ALTER TABLE emails ADD COLUMN folder TEXT NOT NULL DEFAULT 'inbox';
+-- RFC 5322 Message-ID including angle brackets, used to match In-Reply-To/References
+ALTER TABLE emails ADD COLUMN message_id TEXT;
+ALTER TABLE emails ADD COLUMN thread_id TEXT;
+-- Primary recipient; only set for outgoing (sent) messages
+ALTER TABLE emails ADD COLUMN recipient TEXT;
+
+-- Existing messages each start their own thread
+UPDATE emails SET thread_id = id WHERE thread_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_emails_username_folder_created_at ON emails (username, folder, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_emails_username_message_id ON emails (username, message_id);
+CREATE INDEX IF NOT EXISTS idx_emails_username_thread_id ON emails (username, thread_id);
@@ -0,0 +1,5 @@
+-- Migration number: 0005 	 Cursor pagination for the inbox listing
+
+-- Keyset pagination orders by (created_at, id), so the id has to be part of the index
+DROP INDEX IF EXISTS idx_emails_username_folder_created_at;
+CREATE INDEX IF NOT EXISTS idx_emails_username_folder_created_at_id ON emails (username, folder, created_at DESC, id DESC);
@@ -0,0 +1,16 @@
+-- Migration number: 0006 	 Full-text search index
+
+-- One row per email, keyed by the email's rowid. The body text only lives in R2, so this is a
+-- regular (not external-content) FTS5 table filled at ingest and by the backfill in scheduled().
+CREATE VIRTUAL TABLE IF NOT EXISTS emails_fts USING fts5 (
+	subject,
+	sender,
+	body,
+	ai_summary,
+	tokenize = 'unicode61 remove_diacritics 2'
+);
+
+-- Keeps the index in step with every delete path (expiry purge, account deletion, user deletes)
+CREATE TRIGGER IF NOT EXISTS emails_fts_delete AFTER DELETE ON emails BEGIN
+	DELETE FROM emails_fts WHERE rowid = old.rowid;
+END;
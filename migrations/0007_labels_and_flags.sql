@@ -0,0 +1,23 @@
+-- Migration number: 0007 	 Starring, archiving and user-defined labels
+
+ALTER TABLE emails ADD COLUMN is_starred INTEGER NOT NULL DEFAULT 0;
+-- Archiving only changes emails.folder ('inbox' -> 'archive'), so it needs no schema change
+
+CREATE TABLE IF NOT EXISTS labels (
+	id TEXT PRIMARY KEY,
+	username TEXT NOT NULL REFERENCES users (username) ON DELETE CASCADE,
+	name TEXT NOT NULL,
+	-- One of the palette names the client knows how to render
+	color TEXT NOT NULL DEFAULT 'slate',
+	created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+	UNIQUE (username, name)
+);
+
+CREATE TABLE IF NOT EXISTS email_labels (
+	email_id TEXT NOT NULL REFERENCES emails (id) ON DELETE CASCADE,
+	label_id TEXT NOT NULL REFERENCES labels (id) ON DELETE CASCADE,
+	PRIMARY KEY (email_id, label_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_labels_label_id ON email_labels (label_id);
+CREATE INDEX IF NOT EXISTS idx_emails_username_starred ON emails (username, created_at DESC) WHERE is_starred = 1;
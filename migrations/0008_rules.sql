@@ -0,0 +1,17 @@
+-- Migration number: 0008 	 Per-user mail rules and the AI category they can match on
+
+-- One of CATEGORIES in src/worker/classify.ts; NULL when the model gave no usable answer
+ALTER TABLE emails ADD COLUMN ai_category TEXT;
+
+CREATE TABLE IF NOT EXISTS rules (
+	id TEXT PRIMARY KEY,
+	username TEXT NOT NULL REFERENCES users (username) ON DELETE CASCADE,
+	name TEXT NOT NULL,
+	enabled INTEGER NOT NULL DEFAULT 1,
+	-- JSON objects, validated by parseRuleInput in src/worker/rules.ts
+	conditions TEXT NOT NULL,
+	actions TEXT NOT NULL,
+	created_at INTEGER NOT NULL DEFAULT (unixepoch())
+);
+
+CREATE INDEX IF NOT EXISTS idx_rules_username ON rules (username, created_at);
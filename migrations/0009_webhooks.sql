@@ -0,0 +1,33 @@
+-- Migration number: 0009 	 Per-mailbox webhooks and their delivery log
+
+CREATE TABLE IF NOT EXISTS webhooks (
+	id TEXT PRIMARY KEY,
+	username TEXT NOT NULL REFERENCES users (username) ON DELETE CASCADE,
+	url TEXT NOT NULL,
+	-- HMAC-SHA256 key for the X-Webhook-Signature header; shown to the owner once, at creation
+	secret TEXT NOT NULL,
+	enabled INTEGER NOT NULL DEFAULT 1,
+	created_at INTEGER NOT NULL DEFAULT (unixepoch())
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhooks_username ON webhooks (username);
+
+-- One row per event and webhook, updated after every attempt. The payload is frozen at enqueue
+-- time so retries send the exact bytes that were signed the first time.
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+	id TEXT PRIMARY KEY,
+	webhook_id TEXT NOT NULL REFERENCES webhooks (id) ON DELETE CASCADE,
+	event TEXT NOT NULL,
+	payload TEXT NOT NULL,
+	-- 'pending' | 'retrying' | 'delivered' | 'failed'
+	status TEXT NOT NULL DEFAULT 'pending',
+	attempts INTEGER NOT NULL DEFAULT 0,
+	response_status INTEGER,
+	error TEXT,
+	created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+	last_attempt_at INTEGER,
+	next_attempt_at INTEGER
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook_created ON webhook_deliveries (webhook_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_created ON webhook_deliveries (created_at);
@@ -0,0 +1,14 @@
+-- Migration number: 0010 	 API keys for programmatic access
+
+CREATE TABLE IF NOT EXISTS api_keys (
+	id TEXT PRIMARY KEY,
+	username TEXT NOT NULL REFERENCES users (username) ON DELETE CASCADE,
+	name TEXT NOT NULL,
+	-- First characters of the key, so the owner can tell keys apart; the key itself is only stored hashed
+	prefix TEXT NOT NULL,
+	key_hash TEXT NOT NULL UNIQUE,
+	created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+	last_used_at INTEGER
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_username ON api_keys (username);
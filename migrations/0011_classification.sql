@@ -0,0 +1,8 @@
+-- Migration number: 0011 	 AI spam and phishing scores, and the quarantine folder
+
+-- 0-100 from classify() in src/worker/classify.ts; NULL when the model gave no usable answer.
+-- High-risk mail is stored with folder = 'quarantine' instead of 'inbox'.
+ALTER TABLE emails ADD COLUMN spam_score INTEGER;
+ALTER TABLE emails ADD COLUMN phishing_score INTEGER;
+-- JSON array of short reasons behind the scores
+ALTER TABLE emails ADD COLUMN ai_reasons TEXT;
@@ -0,0 +1,5 @@
+-- Migration number: 0012 	 Structured entities extracted from incoming mail
+
+-- JSON object from extractEntities() in src/worker/extract.ts: codes, links, tracking numbers,
+-- dates and action items. NULL for sent mail and messages stored before this migration.
+ALTER TABLE emails ADD COLUMN ai_entities TEXT;
@@ -0,0 +1,11 @@
+-- Migration number: 0013 	 Fixed-window rate limit counters
+
+-- One row per limited key (e.g. "ai:<username>") and window; old windows are pruned by the cron
+CREATE TABLE IF NOT EXISTS rate_limits (
+	key TEXT NOT NULL,
+	window_start INTEGER NOT NULL,
+	count INTEGER NOT NULL DEFAULT 0,
+	PRIMARY KEY (key, window_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limits_window ON rate_limits (window_start);
@@ -0,0 +1,13 @@
+-- Migration number: 0014 	 Claimed addresses and aliases
+
+-- Every local part that delivers to a mailbox: the account's own username plus its aliases.
+-- The primary key keeps usernames and aliases in one namespace.
+CREATE TABLE IF NOT EXISTS addresses (
+	local_part TEXT PRIMARY KEY,
+	username TEXT NOT NULL REFERENCES users (username) ON DELETE CASCADE,
+	created_at INTEGER NOT NULL DEFAULT (unixepoch())
+);
+
+CREATE INDEX IF NOT EXISTS idx_addresses_username ON addresses (username);
+
+INSERT OR IGNORE INTO addresses (local_part, username, created_at) SELECT username, username, created_at FROM users;
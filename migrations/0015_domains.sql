@@ -0,0 +1,16 @@
+-- Migration number: 0015 	 Receiving domains
+
+-- Domains served besides the deployment's DOMAIN var, which is always served and isn't listed here
+CREATE TABLE IF NOT EXISTS domains (
+	name TEXT PRIMARY KEY,
+	enabled INTEGER NOT NULL DEFAULT 1,
+	created_at INTEGER NOT NULL DEFAULT (unixepoch())
+);
+
+-- NULL is the DOMAIN var, which is what every address used before this migration. Local parts
+-- stay unique across domains, so a username still names exactly one mailbox.
+ALTER TABLE addresses ADD COLUMN domain TEXT;
+
+-- The address a message came in on (alias and domain, without any +tag), or the sender of sent
+-- mail; replies go out from it
+ALTER TABLE emails ADD COLUMN delivered_to TEXT;
@@ -0,0 +1,15 @@
+-- Migration number: 0016 	 Sender blocklists
+
+-- Patterns are a full address ("spam@example.com") or a whole domain ("@example.com")
+CREATE TABLE IF NOT EXISTS blocked_senders (
+	username TEXT NOT NULL REFERENCES users (username) ON DELETE CASCADE,
+	pattern TEXT NOT NULL,
+	created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+	PRIMARY KEY (username, pattern)
+);
+
+-- Blocked for every mailbox; managed through the admin endpoints
+CREATE TABLE IF NOT EXISTS global_blocked_senders (
+	pattern TEXT PRIMARY KEY,
+	created_at INTEGER NOT NULL DEFAULT (unixepoch())
+);
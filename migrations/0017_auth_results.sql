@@ -0,0 +1,8 @@
+-- Migration number: 0017 	 Sender authentication results
+
+-- Verdict from authenticate() in src/worker/senderauth.ts: 'verified', 'unverified' or 'failed'.
+-- NULL for sent mail and messages stored before this migration.
+ALTER TABLE emails ADD COLUMN auth_status TEXT;
+
+-- JSON object with the SPF, DKIM and DMARC results and the From/envelope domain check
+ALTER TABLE emails ADD COLUMN auth_results TEXT;
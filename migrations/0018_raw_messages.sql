@@ -0,0 +1,5 @@
+-- Migration number: 0018 	 Raw message archival
+
+-- R2 key of the original RFC 822 message, stored next to the parsed JSON at raw_r2_key.
+-- NULL for messages stored before this migration.
+ALTER TABLE emails ADD COLUMN eml_r2_key TEXT;
@@ -0,0 +1,7 @@
+-- Migration number: 0019 	 Per-user session keys
+
+-- Session tokens carry the key they were issued under and stop working once it changes: a name
+-- claimed again after its identity expired gets a fresh row with its own. Existing rows get a key
+-- here, which signs out sessions issued before this migration.
+ALTER TABLE users ADD COLUMN session_key TEXT;
+UPDATE users SET session_key = lower(hex(randomblob(16)));
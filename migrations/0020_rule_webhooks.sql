@@ -0,0 +1,7 @@
+-- Migration number: 0020 	 Rule webhooks go through the signed delivery queue
+
+-- The rule `webhook` action names one of the mailbox's webhooks by id, so rule notifications are
+-- signed, retried and logged like every other delivery. A webhook with rules_only set only gets
+-- those, not an email.received event for every message. Rules saved with a bare URL before this
+-- migration no longer call it until they are pointed at a webhook.
+ALTER TABLE webhooks ADD COLUMN rules_only INTEGER NOT NULL DEFAULT 0;
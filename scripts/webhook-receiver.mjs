@@ -0,0 +1,33 @@
+// Local stand-in for a webhook consumer. Prints every delivery and whether its signature checks out.
+//
+//   WEBHOOK_SECRET=whsec_... node scripts/webhook-receiver.mjs [port]
+//
+// Register http://localhost:<port>/ as a webhook while running `npm run dev`, then send mail or
+// POST /api/webhooks/:id/test. Set FAIL=1 to answer 503 and watch the retries in the delivery log.
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import { createServer } from 'node:http';
+
+const port = Number(process.argv[2] ?? 8788);
+const secret = process.env.WEBHOOK_SECRET;
+// Deliveries older than this are treated as replays
+const TOLERANCE_SECONDS = 5 * 60;
+
+function verify(header, body) {
+	const match = /^t=(\d+),v1=([0-9a-f]{64})$/.exec(header ?? '');
+	if (!match || !secret) return false;
+	const [, timestamp, signature] = match;
+	if (Math.abs(Date.now() / 1000 - Number(timestamp)) > TOLERANCE_SECONDS) return false;
+	const expected = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest();
+	return timingSafeEqual(expected, Buffer.from(signature, 'hex'));
+}
+
+createServer((req, res) => {
+	let body = '';
+	req.on('data', (chunk) => (body += chunk));
+	req.on('end', () => {
+		const ok = verify(req.headers['x-webhook-signature'], body);
+		console.log(`${new Date().toISOString()} ${req.headers['x-webhook-event']} ${req.headers['x-webhook-id']} signature ${ok ? 'valid' : 'INVALID'}`);
+		console.log(body);
+		res.writeHead(process.env.FAIL ? 503 : ok ? 200 : 401).end();
+	});
+}).listen(port, () => console.log(`Webhook receiver listening on http://localhost:${port}/`));
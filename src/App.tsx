@@ -1,19 +1,66 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { 
   Mail, RefreshCw, Copy, Send, Zap, Shield, Inbox, 
-  FileText, ChevronRight, LogOut, Paperclip, User, Lock, Menu, X
+  ChevronRight, LogOut, User, Lock, Menu, X, PenSquare, Search, Star, Workflow, Ban
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { TelegramBanner } from './components/TelegramBanner';
-
-const API_BASE = '/api';
+import { PasswordControls } from './components/PasswordControls';
+import { ApiKeysPanel } from './components/ApiKeysPanel';
+import { AddressesPanel } from './components/AddressesPanel';
+import { BlockedSendersPanel } from './components/BlockedSendersPanel';
+import { AddressPicker } from './components/AddressPicker';
+import { fetchDomains } from './lib/addresses';
+import { ExpiryCountdown } from './components/ExpiryCountdown';
+import { AttachmentList } from './components/AttachmentList';
+import { MessageBody } from './components/MessageBody';
+import { ConversationList } from './components/ConversationList';
+import { ComposeView } from './components/ComposeView';
+import { InboxFilters } from './components/InboxFilters';
+import { SearchResults } from './components/SearchResults';
+import { MailboxNav } from './components/MailboxNav';
+import { MessageActions } from './components/MessageActions';
+import { RulesView } from './components/RulesView';
+import { RiskBadge, RiskDetails } from './components/RiskBadge';
+import { AuthBadge } from './components/AuthBadge';
+import { MessageSource } from './components/MessageSource';
+import { EntityChips } from './components/EntityChips';
+import { DraftTools } from './components/DraftTools';
+import { API_BASE, type Session, apiFetch, loadSession, saveSession } from './lib/api';
+import { type SocketStatus, connectMailbox, eventChanges } from './lib/socket';
+import { groupThreads } from './lib/threads';
+import { type EmailFilters, type MailView, NO_FILTERS, hasFilters, inView, listQuery, matchesFilters, prependEmail } from './lib/listing';
+import { type Counts, type MessageChanges, LABEL_COLORS, applyChanges, fetchCounts, updateMessages } from './lib/messages';
+
+const VIEW_TITLES: Record<string, string> = {
+  inbox: 'Incoming Messages',
+  sent: 'Sent Messages',
+  archive: 'Archive',
+  quarantine: 'Quarantine',
+  starred: 'Starred'
+};
 
 export default function App() {
-  const [session, setSession] = useState<{username: string, address: string, password?: string} | null>(null);
+  const [session, setSession] = useState<Session | null>(loadSession);
   const [emails, setEmails] = useState<any[]>([]);
   const [selectedEmail, setSelectedEmail] = useState<any | null>(null);
+  const [folder, setFolder] = useState<MailView>('inbox');
+  const folderRef = useRef<MailView>('inbox');
+  const [counts, setCounts] = useState<Counts | null>(null);
+  // Ids of every message in the checked conversations
+  const [checked, setChecked] = useState<Set<string>>(new Set());
+  const [searchQuery, setSearchQuery] = useState('');
+  const [filters, setFilters] = useState<EmailFilters>(NO_FILTERS);
+  const filtersRef = useRef<EmailFilters>(NO_FILTERS);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  // Incremented per list reload so responses for superseded filters are dropped
+  const listRequest = useRef(0);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const [composing, setComposing] = useState(false);
+  const [editingRules, setEditingRules] = useState(false);
   const [loading, setLoading] = useState(false);
-  const [view, setView] = useState<'login' | 'inbox'>('login');
+  const [view, setView] = useState<'login' | 'inbox'>(() => (session ? 'inbox' : 'login'));
   
   // Mobile Sidebar State
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
@@ -21,20 +68,34 @@ export default function App() {
   // Login State
   const [loginUser, setLoginUser] = useState('');
   const [loginPass, setLoginPass] = useState('');
+  const [lifetimeHours, setLifetimeHours] = useState(24);
+  const [chosenName, setChosenName] = useState('');
+  const [domains, setDomains] = useState<string[]>([]);
+  const [chosenDomain, setChosenDomain] = useState('');
 
   // WebSocket
-  const wsRef = useRef<WebSocket | null>(null);
+  const wsRef = useRef<{ close: () => void } | null>(null);
+  const [socketStatus, setSocketStatus] = useState<SocketStatus>('connecting');
 
   const generateIdentity = async () => {
     setLoading(true);
     try {
-      const res = await fetch(`${API_BASE}/generate`, { method: 'POST' });
-      const data = await res.json();
-      setSession(data);
-      setView('inbox');
-      connectWs(data.username);
+      const res = await fetch(`${API_BASE}/generate`, {
+        method: 'POST',
+        body: JSON.stringify({
+          ttlHours: lifetimeHours,
+          messageTtlHours: lifetimeHours,
+          username: chosenName.trim() || undefined,
+          domain: chosenDomain || undefined
+        })
+      });
+      if (!res.ok) {
+        const data = (await res.json().catch(() => ({}))) as { error?: string };
+        throw new Error(data.error);
+      }
+      startSession(await res.json());
     } catch (e) {
-      alert('Error generating identity');
+      alert((e instanceof Error && e.message) || 'Error generating identity');
     }
     setLoading(false);
   };
@@ -46,40 +107,179 @@ export default function App() {
         method: 'POST',
         body: JSON.stringify({ username: loginUser, password: loginPass })
       });
-      if (!res.ok) throw new Error();
-      const data = await res.json();
-      setSession(data);
-      setView('inbox');
-      connectWs(data.username);
+      if (!res.ok) {
+        const data = (await res.json().catch(() => ({}))) as { error?: string };
+        throw new Error(data.error);
+      }
+      startSession(await res.json());
     } catch (e) {
-      alert('Invalid credentials');
+      alert((e instanceof Error && e.message) || 'Invalid credentials');
     }
     setLoading(false);
   };
 
-  const connectWs = (username: string) => {
-    if (wsRef.current) wsRef.current.close();
-    const protocol = window.location.protocol === 'https:' ? 'wss' : 'ws';
-    const ws = new WebSocket(`${protocol}://${window.location.host}${API_BASE}/ws?username=${username}`);
-    
-    ws.onmessage = (event) => {
-      const msg = JSON.parse(event.data);
-      if (msg.type === 'NEW_EMAIL') {
-        fetchEmails(username);
-      }
-    };
-    wsRef.current = ws;
+  const startSession = (data: Session) => {
+    saveSession(data);
+    setSession(data);
+    setView('inbox');
+  };
+
+  const updateSession = (patch: Partial<Session>) => {
+    if (!session) return;
+    const next = { ...session, ...patch };
+    saveSession(next);
+    setSession(next);
+  };
+
+  const signOut = () => {
+    wsRef.current?.close();
+    wsRef.current = null;
+    saveSession(null);
+    setSession(null);
+    setEmails([]);
+    setCounts(null);
+    setSelectedEmail(null);
+    setComposing(false);
+    setEditingRules(false);
+    setView('login');
+  };
+
+  const connectWs = (active: Session) => {
+    wsRef.current?.close();
+    wsRef.current = connectMailbox(active.token, {
+      // Changes made here come back as events too; applying them twice is harmless
+      onEvent: (event) => {
+        if (event.type === 'email.created') {
+          // Pushed rows carry the listing columns, so they go straight into the list
+          if (inView(event.email, folderRef.current) && matchesFilters(event.email, filtersRef.current)) {
+            setEmails(prev => prependEmail(prev, event.email));
+          }
+        } else if (event.type === 'email.updated') {
+          patchMessages(event.ids, eventChanges(event));
+        } else {
+          dropMessages(event.ids);
+        }
+        refreshCounts(active);
+      },
+      onResync: () => {
+        fetchEmails(active);
+        refreshCounts(active);
+      },
+      onStatus: setSocketStatus
+    });
+  };
+
+  const refreshCounts = async (active: Session) => {
+    const next = await fetchCounts(active.token);
+    if (next) setCounts(next);
+  };
+
+  const fetchEmails = async (active: Session, target: MailView = folderRef.current, activeFilters = filtersRef.current) => {
+    const request = ++listRequest.current;
+    const res = await apiFetch(`/emails/${active.username}?${listQuery(target, activeFilters)}`, active.token);
+    // An expired or revoked token drops the user back to the login screen
+    if (res.status === 401) return signOut();
+    if (!res.ok || request !== listRequest.current) return;
+    const page = (await res.json()) as { emails: any[]; next_cursor: string | null };
+    setEmails(page.emails);
+    setNextCursor(page.next_cursor);
+    setChecked(new Set());
+  };
+
+  const loadMore = async () => {
+    if (!session || !nextCursor || loadingMore) return;
+    const request = listRequest.current;
+    setLoadingMore(true);
+    const res = await apiFetch(`/emails/${session.username}?${listQuery(folderRef.current, filtersRef.current, nextCursor)}`, session.token);
+    setLoadingMore(false);
+    if (!res.ok || request !== listRequest.current) return;
+    const page = (await res.json()) as { emails: any[]; next_cursor: string | null };
+    setEmails(prev => [...prev, ...page.emails.filter(e => !prev.some(p => p.id === e.id))]);
+    setNextCursor(page.next_cursor);
+  };
+
+  const applyFilters = (next: EmailFilters) => {
+    filtersRef.current = next;
+    setFilters(next);
+  };
+
+  // Applies a change to the list and open message: rows that no longer belong in the view drop out
+  const patchMessages = (ids: string[], changes: MessageChanges) => {
+    const view = folderRef.current;
+    setEmails(prev => prev.map(e => (ids.includes(e.id) ? applyChanges(e, changes) : e)).filter(e => inView(e, view)));
+    setSelectedEmail((prev: any) => (prev && ids.includes(prev.id) ? applyChanges(prev, changes) : prev));
+  };
+
+  const dropMessages = (ids: string[]) => {
+    setEmails(prev => prev.filter(e => !ids.includes(e.id)));
+    setSelectedEmail((prev: any) => (prev && ids.includes(prev.id) ? null : prev));
+    setChecked(prev => new Set([...prev].filter(id => !ids.includes(id))));
   };
 
-  const fetchEmails = async (username: string) => {
-    const res = await fetch(`${API_BASE}/emails/${username}`);
-    const data = await res.json();
-    setEmails(data);
+  // Mirrors a successful update locally, before the socket echoes it back
+  const messagesChanged = (ids: string[], changes: MessageChanges) => {
+    patchMessages(ids, changes);
+    setChecked(new Set());
+    if (session) refreshCounts(session);
   };
 
+  const messagesDeleted = (ids: string[]) => {
+    dropMessages(ids);
+    setChecked(new Set());
+    if (session) refreshCounts(session);
+  };
+
+  const toggleChecked = (ids: string[]) => {
+    setChecked(prev => {
+      const next = new Set(prev);
+      const on = ids.every(id => next.has(id));
+      ids.forEach(id => (on ? next.delete(id) : next.add(id)));
+      return next;
+    });
+  };
+
+  const openFolder = (target: MailView) => {
+    folderRef.current = target;
+    setFolder(target);
+    setSelectedEmail(null);
+    setComposing(false);
+    setEditingRules(false);
+    setMobileMenuOpen(false);
+    if (session) fetchEmails(session, target);
+  };
+
+  const threads = useMemo(() => groupThreads(emails), [emails]);
+  const checkedEmails = useMemo(() => emails.filter(e => checked.has(e.id)), [emails, checked]);
+
+  useEffect(() => {
+    if (!session) return;
+    connectWs(session);
+    refreshCounts(session);
+    return () => wsRef.current?.close();
+  }, [session?.token]);
+
+  // The domain picker on the landing view only shows when there's more than one to pick from
   useEffect(() => {
-    if (session) fetchEmails(session.username);
-  }, [session]);
+    if (view === 'login') fetchDomains().then(setDomains).catch(() => {});
+  }, [view]);
+
+  // Debounced so typing in the sender filter doesn't fire a request per keystroke
+  useEffect(() => {
+    if (!session) return;
+    const timer = setTimeout(() => fetchEmails(session), 300);
+    return () => clearTimeout(timer);
+  }, [session?.token, filters]);
+
+  // Infinite scroll: load the next page once the sentinel below the list comes into view
+  useEffect(() => {
+    const node = sentinelRef.current;
+    if (!node || !nextCursor) return;
+    const observer = new IntersectionObserver(entries => {
+      if (entries[0].isIntersecting) loadMore();
+    }, { rootMargin: '200px' });
+    observer.observe(node);
+    return () => observer.disconnect();
+  }, [nextCursor, loadingMore, selectedEmail, composing]);
 
   // --- Login / Landing View ---
   if (view === 'login') {
@@ -111,6 +311,42 @@ export default function App() {
                 </p>
               </div>
               
+              <div className="flex items-center justify-between mb-3 text-sm text-slate-400">
+                <span>Inbox lifetime</span>
+                <select
+                  value={lifetimeHours}
+                  onChange={e => setLifetimeHours(Number(e.target.value))}
+                  className="bg-slate-950 border border-slate-800 rounded-lg px-3 py-1.5 text-slate-200 outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value={1}>1 hour</option>
+                  <option value={24}>24 hours</option>
+                  <option value={72}>3 days</option>
+                  <option value={168}>7 days</option>
+                </select>
+              </div>
+
+              <div className="mb-3 space-y-2">
+                <AddressPicker
+                  value={chosenName}
+                  onChange={setChosenName}
+                  domain={chosenDomain || null}
+                  className="w-full bg-slate-950 border border-slate-800 rounded-lg px-4 py-3 focus:ring-2 focus:ring-blue-500 outline-none transition-all"
+                />
+                {domains.length > 1 && (
+                  <select
+                    value={chosenDomain || domains[0]}
+                    onChange={e => setChosenDomain(e.target.value)}
+                    className="w-full bg-slate-950 border border-slate-800 rounded-lg px-4 py-2.5 text-slate-200 outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {domains.map(d => (
+                      <option key={d} value={d}>
+                        @{d}
+                      </option>
+                    ))}
+                  </select>
+                )}
+              </div>
+
               <button
                 onClick={generateIdentity}
                 disabled={loading}
@@ -266,23 +502,53 @@ export default function App() {
                    </button>
                  </div>
               )}
+              {session && (
+                <PasswordControls
+                  token={session.token}
+                  onChanged={updateSession}
+                />
+              )}
+              {session && <AddressesPanel token={session.token} />}
+              {session && <BlockedSendersPanel token={session.token} />}
+              {session && <ApiKeysPanel token={session.token} />}
            </div>
 
-           <nav className="space-y-1">
-             <button 
-               onClick={() => { setSelectedEmail(null); setMobileMenuOpen(false); }}
-               className={`w-full flex items-center gap-3 px-4 py-3 rounded-xl font-medium transition-all ${
-                 !selectedEmail 
-                 ? 'bg-blue-50 text-blue-700 shadow-sm ring-1 ring-blue-100' 
-                 : 'text-slate-600 hover:bg-slate-50'
-               }`}
-             >
-               <Inbox size={18} /> Inbox 
-               <span className="ml-auto bg-blue-100 text-blue-700 px-2 py-0.5 rounded-md text-xs font-bold">
-                 {emails.length}
-               </span>
-             </button>
-           </nav>
+           <button
+             onClick={() => {
+               setComposing(true);
+               setEditingRules(false);
+               setSelectedEmail(null);
+               setMobileMenuOpen(false);
+             }}
+             className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-blue-600 hover:bg-blue-500 text-white rounded-xl font-bold shadow-lg shadow-blue-500/20 transition-all"
+           >
+             <PenSquare size={18} /> Compose
+           </button>
+
+           {session && (
+             <MailboxNav
+               token={session.token}
+               view={folder}
+               counts={counts}
+               active={!selectedEmail && !composing && !editingRules}
+               onOpen={openFolder}
+               onLabelsChanged={() => refreshCounts(session)}
+             />
+           )}
+
+           <button
+             onClick={() => {
+               setEditingRules(true);
+               setComposing(false);
+               setSelectedEmail(null);
+               setMobileMenuOpen(false);
+             }}
+             className={`w-full flex items-center gap-3 px-4 py-2.5 rounded-xl font-medium transition-all ${
+               editingRules ? 'bg-blue-50 text-blue-700 shadow-sm ring-1 ring-blue-100' : 'text-slate-600 hover:bg-slate-50'
+             }`}
+           >
+             <Workflow size={18} /> Rules
+           </button>
 
            <div className="pt-4 border-t border-slate-100">
              <TelegramBanner compact />
@@ -290,7 +556,7 @@ export default function App() {
         </div>
 
         <div className="p-4 border-t border-slate-100">
-          <button onClick={() => setView('login')} className="flex items-center gap-2 text-sm text-slate-500 hover:text-red-500 transition-colors w-full px-2 py-2">
+          <button onClick={signOut} className="flex items-center gap-2 text-sm text-slate-500 hover:text-red-500 transition-colors w-full px-2 py-2">
             <LogOut size={16} /> Sign Out
           </button>
         </div>
@@ -298,83 +564,210 @@ export default function App() {
 
       {/* Main Content Area */}
       <main className="flex-1 flex flex-col h-screen overflow-hidden bg-slate-50/50 pt-16 md:pt-0">
-        {!selectedEmail ? (
+        {composing && session ? (
+          <ComposeView
+            token={session.token}
+            from={session.address}
+            onClose={() => setComposing(false)}
+            onSent={() => {
+              openFolder('sent');
+              refreshCounts(session);
+            }}
+          />
+        ) : editingRules && session ? (
+          <RulesView token={session.token} labels={counts?.labels ?? []} onClose={() => setEditingRules(false)} />
+        ) : !selectedEmail ? (
           <div className="flex-1 overflow-y-auto">
              <header className="sticky top-0 bg-white/80 backdrop-blur-md border-b border-slate-200 px-4 md:px-8 py-4 flex justify-between items-center z-10">
-                <h2 className="text-lg md:text-2xl font-bold text-slate-800">Incoming Messages</h2>
-                <button 
-                  onClick={() => session && fetchEmails(session.username)}
-                  className="p-2 bg-white border border-slate-200 shadow-sm rounded-full text-slate-600 hover:text-blue-600 hover:border-blue-200 transition-all active:scale-95"
-                >
-                  <RefreshCw size={18} />
-                </button>
+                <h2 className="text-lg md:text-2xl font-bold text-slate-800 shrink-0 flex items-center gap-2">
+                  {VIEW_TITLES[folder] ?? counts?.labels.find(l => `label:${l.id}` === folder)?.name ?? 'Label'}
+                  <span
+                    title={socketStatus === 'live' ? 'Live updates on' : socketStatus === 'connecting' ? 'Connecting…' : 'Offline, reconnecting'}
+                    className={`w-2 h-2 rounded-full ${socketStatus === 'live' ? 'bg-emerald-500' : socketStatus === 'connecting' ? 'bg-amber-400 animate-pulse' : 'bg-slate-300'}`}
+                  />
+                </h2>
+                <div className="flex-1 max-w-md mx-4 flex items-center gap-2 bg-slate-100 focus-within:bg-white focus-within:ring-2 ring-blue-500/20 rounded-xl px-3 transition-all">
+                  <Search size={16} className="text-slate-400" />
+                  <input
+                    value={searchQuery}
+                    onChange={e => setSearchQuery(e.target.value)}
+                    placeholder="Search mail"
+                    className="flex-1 bg-transparent py-2 text-sm outline-none"
+                  />
+                  {searchQuery && (
+                    <button onClick={() => setSearchQuery('')} className="text-slate-400 hover:text-slate-700">
+                      <X size={14} />
+                    </button>
+                  )}
+                </div>
+                <div className="flex items-center gap-3">
+                  {session?.expires_at && (
+                    <ExpiryCountdown
+                      token={session.token}
+                      expiresAt={session.expires_at}
+                      onExtended={(expires_at) => updateSession({ expires_at })}
+                    />
+                  )}
+                  <button 
+                    onClick={() => session && fetchEmails(session)}
+                    className="p-2 bg-white border border-slate-200 shadow-sm rounded-full text-slate-600 hover:text-blue-600 hover:border-blue-200 transition-all active:scale-95"
+                  >
+                    <RefreshCw size={18} />
+                  </button>
+                </div>
              </header>
 
-             <div className="p-4 md:p-8 space-y-3 max-w-5xl mx-auto">
-               <AnimatePresence>
-                 {emails.map((email) => (
-                   <motion.div
-                     key={email.id}
-                     initial={{ opacity: 0, y: 10 }}
-                     animate={{ opacity: 1, y: 0 }}
-                     onClick={() => setSelectedEmail(email)}
-                     className={`group bg-white p-4 md:p-5 rounded-2xl border transition-all cursor-pointer flex gap-4 md:gap-5 items-start
-                       ${!email.is_read 
-                         ? 'border-blue-200 shadow-lg shadow-blue-900/5 ring-1 ring-blue-50' 
-                         : 'border-slate-200 shadow-sm hover:border-blue-300 hover:shadow-md'
-                       }`}
-                   >
-                     <div className={`w-10 h-10 md:w-12 md:h-12 rounded-2xl flex items-center justify-center text-lg font-bold shrink-0 shadow-inner
-                       ${!email.is_read ? 'bg-gradient-to-br from-blue-500 to-blue-600 text-white' : 'bg-slate-100 text-slate-500'}`}>
-                       {email.sender[0].toUpperCase()}
-                     </div>
-                     
-                     <div className="flex-1 min-w-0">
-                       <div className="flex flex-col md:flex-row md:justify-between md:items-start mb-1">
-                         <h3 className={`font-semibold truncate pr-2 text-base md:text-lg ${!email.is_read ? 'text-slate-900' : 'text-slate-700'}`}>
-                           {email.sender}
-                         </h3>
-                         <span className="text-xs font-medium text-slate-400 bg-slate-50 px-2 py-1 rounded-md border border-slate-100 w-fit mt-1 md:mt-0">
-                           {new Date(email.created_at * 1000).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}
-                         </span>
+             {searchQuery.trim() && session ? (
+               <div className="p-4 md:p-8 max-w-5xl mx-auto">
+                 <SearchResults token={session.token} query={searchQuery.trim()} onSelect={setSelectedEmail} />
+               </div>
+             ) : (
+               <>
+               <InboxFilters filters={filters} onChange={applyFilters} />
+
+               {checkedEmails.length > 0 && session && (
+                 <div className="sticky top-[73px] z-10 bg-white border-b border-slate-200 px-4 md:px-8 py-2 flex items-center gap-3">
+                   <button onClick={() => setChecked(new Set())} className="p-1 text-slate-400 hover:text-slate-700" title="Clear selection">
+                     <X size={16} />
+                   </button>
+                   <span className="text-sm font-semibold text-slate-700">{checkedEmails.length} selected</span>
+                   <div className="ml-auto">
+                     <MessageActions
+                       token={session.token}
+                       targets={checkedEmails}
+                       labels={counts?.labels ?? []}
+                       onChanged={messagesChanged}
+                       onDeleted={messagesDeleted}
+                     />
+                   </div>
+                 </div>
+               )}
+
+               <div className="p-4 md:p-8 space-y-3 max-w-5xl mx-auto">
+                 <AnimatePresence>
+                   {threads.map((email) => (
+                     <motion.div
+                       key={email.id}
+                       initial={{ opacity: 0, y: 10 }}
+                       animate={{ opacity: 1, y: 0 }}
+                       onClick={() => setSelectedEmail(email)}
+                       className={`group bg-white p-4 md:p-5 rounded-2xl border transition-all cursor-pointer flex gap-4 md:gap-5 items-start
+                         ${email.thread_unread 
+                           ? 'border-blue-200 shadow-lg shadow-blue-900/5 ring-1 ring-blue-50' 
+                           : 'border-slate-200 shadow-sm hover:border-blue-300 hover:shadow-md'
+                         }`}
+                     >
+                       <input
+                         type="checkbox"
+                         checked={email.thread_ids.every((id: string) => checked.has(id))}
+                         onClick={e => e.stopPropagation()}
+                         onChange={() => toggleChecked(email.thread_ids)}
+                         className="mt-1 md:mt-3.5 w-4 h-4 accent-blue-600 shrink-0 cursor-pointer"
+                       />
+                       <div className={`w-10 h-10 md:w-12 md:h-12 rounded-2xl flex items-center justify-center text-lg font-bold shrink-0 shadow-inner
+                         ${email.thread_unread ? 'bg-gradient-to-br from-blue-500 to-blue-600 text-white' : 'bg-slate-100 text-slate-500'}`}>
+                         {(email.folder === 'sent' ? email.recipient : email.sender)?.[0]?.toUpperCase()}
                        </div>
+                     
+                       <div className="flex-1 min-w-0">
+                         <div className="flex flex-col md:flex-row md:justify-between md:items-start mb-1">
+                           <h3 className={`font-semibold truncate pr-2 text-base md:text-lg ${email.thread_unread ? 'text-slate-900' : 'text-slate-700'}`}>
+                             {email.folder === 'sent' ? `To: ${email.recipient}` : email.sender}
+                             {email.thread_count > 1 && (
+                               <span className="ml-2 align-middle text-xs font-bold text-slate-500 bg-slate-100 px-1.5 py-0.5 rounded">
+                                 {email.thread_count}
+                               </span>
+                             )}
+                           </h3>
+                           <span className="text-xs font-medium text-slate-400 bg-slate-50 px-2 py-1 rounded-md border border-slate-100 w-fit mt-1 md:mt-0">
+                             {new Date(email.created_at * 1000).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}
+                           </span>
+                         </div>
                        
-                       <p className="text-slate-800 font-medium truncate mb-2 text-sm md:text-base">{email.subject}</p>
-                       
-                       {/* AI Summary Badge */}
-                       {email.ai_summary && (
-                         <div className="flex items-start gap-2 text-xs text-slate-500 bg-slate-50 p-2 rounded-lg border border-slate-100">
-                           <Zap size={12} className="text-amber-500 mt-0.5 shrink-0" />
-                           <span className="line-clamp-2">{email.ai_summary}</span>
+                         <div className="flex items-center gap-2 mb-2">
+                           <p className="text-slate-800 font-medium truncate text-sm md:text-base">{email.subject}</p>
+                           <RiskBadge email={email} />
                          </div>
-                       )}
-                     </div>
 
-                     <ChevronRight className="self-center text-slate-300 group-hover:text-blue-400 transition-colors hidden md:block" />
-                   </motion.div>
-                 ))}
-               </AnimatePresence>
+                         {email.labels?.length > 0 && (
+                           <div className="flex flex-wrap gap-1.5 mb-2">
+                             {email.labels.map((id: string) => {
+                               const label = counts?.labels.find(l => l.id === id);
+                               return label && (
+                                 <span key={id} className="flex items-center gap-1 text-[11px] font-semibold text-slate-600 bg-slate-100 px-2 py-0.5 rounded-md">
+                                   <span className={`w-1.5 h-1.5 rounded-full ${LABEL_COLORS[label.color] ?? LABEL_COLORS.slate}`} />
+                                   {label.name}
+                                 </span>
+                               );
+                             })}
+                           </div>
+                         )}
+                       
+                         {/* AI Summary Badge */}
+                         {email.ai_summary && (
+                           <div className="flex items-start gap-2 text-xs text-slate-500 bg-slate-50 p-2 rounded-lg border border-slate-100">
+                             <Zap size={12} className="text-amber-500 mt-0.5 shrink-0" />
+                             <span className="line-clamp-2">{email.ai_summary}</span>
+                           </div>
+                         )}
+                       </div>
+
+                       <button
+                         onClick={async e => {
+                           e.stopPropagation();
+                           const changes = { is_starred: !email.is_starred };
+                           if (session && await updateMessages(session.token, [email.id], changes)) messagesChanged([email.id], changes);
+                         }}
+                         className="self-center p-1 text-slate-300 hover:text-amber-400 transition-colors"
+                         title={email.is_starred ? 'Unstar' : 'Star'}
+                       >
+                         <Star size={18} className={email.is_starred ? 'fill-amber-400 text-amber-400' : ''} />
+                       </button>
+                       <ChevronRight className="self-center text-slate-300 group-hover:text-blue-400 transition-colors hidden md:block" />
+                     </motion.div>
+                   ))}
+                 </AnimatePresence>
+
+                 <div ref={sentinelRef} className="flex justify-center py-2">
+                   {loadingMore && <RefreshCw size={18} className="animate-spin text-slate-300" />}
+                 </div>
 
-               {emails.length === 0 && (
-                 <div className="flex flex-col items-center justify-center py-20 md:py-32 text-slate-400 text-center">
-                   <div className="w-20 h-20 md:w-24 md:h-24 bg-slate-100 rounded-full flex items-center justify-center mb-6">
-                     <Inbox size={40} className="opacity-20" />
+                 {emails.length === 0 && hasFilters(filters) && (
+                   <div className="py-20 text-center text-slate-400">
+                     <h3 className="text-lg font-semibold text-slate-600">No matching messages</h3>
+                     <p className="mt-2 text-sm">Try loosening or clearing the filters.</p>
                    </div>
-                   <h3 className="text-lg font-semibold text-slate-600">Inbox Empty</h3>
-                   <p className="max-w-xs mt-2 text-sm md:text-base">Waiting for incoming messages via secure WebSocket connection.</p>
+                 )}
+
+                 {emails.length === 0 && !hasFilters(filters) && (
+                   <div className="flex flex-col items-center justify-center py-20 md:py-32 text-slate-400 text-center">
+                     <div className="w-20 h-20 md:w-24 md:h-24 bg-slate-100 rounded-full flex items-center justify-center mb-6">
+                       <Inbox size={40} className="opacity-20" />
+                     </div>
+                     <h3 className="text-lg font-semibold text-slate-600">{folder === 'sent' ? 'Nothing Sent Yet' : folder === 'inbox' ? 'Inbox Empty' : 'Nothing Here'}</h3>
+                     <p className="max-w-xs mt-2 text-sm md:text-base">Waiting for incoming messages via secure WebSocket connection.</p>
                    
-                   <div className="mt-8 w-full max-w-sm">
-                      <TelegramBanner />
+                     <div className="mt-8 w-full max-w-sm">
+                        <TelegramBanner />
+                     </div>
                    </div>
-                 </div>
-               )}
-             </div>
+                 )}
+               </div>
+               </>
+             )}
           </div>
         ) : (
           <EmailDetail 
             email={selectedEmail} 
             onBack={() => setSelectedEmail(null)} 
-            username={session?.username}
+            onSelect={setSelectedEmail}
+            token={session?.token}
+            labels={counts?.labels ?? []}
+            onChanged={messagesChanged}
+            onDeleted={(ids: string[]) => {
+              messagesDeleted(ids);
+              setSelectedEmail(null);
+            }}
           />
         )}
       </main>
@@ -383,27 +776,53 @@ export default function App() {
 }
 
 // --- Detail Component ---
-function EmailDetail({ email, onBack, username }: any) {
+function EmailDetail({ email, onBack, onSelect, token, labels, onChanged, onDeleted }: any) {
   const [fullEmail, setFullEmail] = useState<any>(null);
+  const [thread, setThread] = useState<any[]>([]);
   const [replying, setReplying] = useState(false);
   const [replyBody, setReplyBody] = useState("");
+  const [drafting, setDrafting] = useState(false);
+  const parsed = useMemo(() => (fullEmail?.raw_content ? JSON.parse(fullEmail.raw_content) : null), [fullEmail]);
+
+  const fetchThread = () => {
+    if (!email.thread_id) return;
+    apiFetch(`/threads/${email.thread_id}`, token).then(r => (r.ok ? r.json() as Promise<any[]> : [])).then(setThread);
+  };
 
   useEffect(() => {
-    fetch(`${API_BASE}/email/${email.id}`).then(r => r.json()).then(setFullEmail);
+    setFullEmail(null);
+    apiFetch(`/email/${email.id}`, token).then(r => r.json()).then(setFullEmail);
+    // Opening a message marks it read on the server; mirror that in the list and counts
+    if (!email.is_read) onChanged([email.id], { is_read: true });
+    fetchThread();
   }, [email.id]);
 
+  // Refuses the sender's future mail; this message stays where it is
+  const blockSender = async () => {
+    if (!confirm(`Block ${email.sender}? Their future mail will be refused.`)) return;
+    const res = await apiFetch('/blocked-senders', token, { method: 'POST', body: JSON.stringify({ sender: email.sender }) });
+    if (!res.ok && res.status !== 409) {
+      const data = (await res.json().catch(() => ({}))) as { error?: string };
+      return alert(data.error || 'Could not block the sender');
+    }
+    alert(`${email.sender} is blocked`);
+  };
+
   const handleReply = async () => {
-    await fetch(`${API_BASE}/reply`, {
+    const res = await apiFetch('/reply', token, {
       method: 'POST',
       body: JSON.stringify({
-        username,
-        replyTo: email.sender,
-        subject: email.subject,
+        emailId: email.id,
         body: replyBody
       })
     });
+    if (!res.ok) {
+      const data = (await res.json().catch(() => ({}))) as { error?: string };
+      return alert(data.error || 'Reply failed');
+    }
     setReplying(false);
     setReplyBody("");
+    fetchThread();
     alert('Reply Sent Successfully');
   };
 
@@ -418,14 +837,14 @@ function EmailDetail({ email, onBack, username }: any) {
           <div className="h-6 w-px bg-slate-200" />
           <h2 className="font-semibold text-slate-800 truncate">{email.subject}</h2>
         </div>
-        <div className="text-xs md:text-sm text-slate-400 font-mono hidden md:block">
-          ID: {email.id.substring(0,8)}
-        </div>
+        <MessageActions token={token} targets={[email]} labels={labels} onChanged={onChanged} onDeleted={onDeleted} />
       </div>
 
       <div className="flex-1 overflow-y-auto">
         <div className="max-w-4xl mx-auto p-4 md:p-8">
            
+           <ConversationList messages={thread} currentId={email.id} onSelect={onSelect} />
+
            {/* AI Insight Card */}
            <motion.div 
              initial={{ opacity: 0, y: 10 }}
@@ -441,6 +860,8 @@ function EmailDetail({ email, onBack, username }: any) {
              <p className="text-slate-700 leading-relaxed font-medium relative z-10 text-sm md:text-base">
                {email.ai_summary || "Analyzing content..."}
              </p>
+             <RiskDetails email={email} reasons={fullEmail?.ai_reasons ?? []} />
+             <EntityChips entities={fullEmail?.ai_entities ?? null} />
            </motion.div>
 
            {/* Sender Info */}
@@ -450,9 +871,21 @@ function EmailDetail({ email, onBack, username }: any) {
                   {email.sender[0].toUpperCase()}
                 </div>
                 <div className="min-w-0">
-                  <div className="font-bold text-slate-900 text-base md:text-lg truncate">{email.sender}</div>
+                  <div className="flex items-center gap-2 min-w-0">
+                    <div className="font-bold text-slate-900 text-base md:text-lg truncate">{email.sender}</div>
+                    <AuthBadge status={fullEmail?.auth_status ?? email.auth_status} results={fullEmail?.auth_results ?? null} />
+                  </div>
                   <div className="text-sm text-slate-500 flex items-center gap-2">
                     To: <span className="bg-slate-100 px-2 py-0.5 rounded text-slate-700">Me</span>
+                    {email.folder !== 'sent' && (
+                      <button
+                        onClick={blockSender}
+                        className="flex items-center gap-1 text-xs font-medium text-slate-400 hover:text-red-600 transition-colors"
+                        title="Refuse future mail from this sender"
+                      >
+                        <Ban size={12} /> Block sender
+                      </button>
+                    )}
                   </div>
                 </div>
               </div>
@@ -470,25 +903,17 @@ function EmailDetail({ email, onBack, username }: any) {
            <div className="prose prose-slate max-w-none prose-sm md:prose-base">
              {fullEmail ? (
                fullEmail.raw_content ? (
-                 <div className="bg-white rounded-xl text-slate-800 leading-relaxed whitespace-pre-wrap break-words">
-                   {JSON.parse(fullEmail.raw_content).text || JSON.parse(fullEmail.raw_content).html}
+                 <div>
+                   <MessageBody
+                     token={token}
+                     emailId={email.id}
+                     html={parsed?.html}
+                     text={parsed?.text}
+                     attachments={fullEmail.attachments || []}
+                   />
                    
                    {/* Attachments Section */}
-                   {JSON.parse(fullEmail.raw_content).attachments?.length > 0 && (
-                     <div className="mt-8 pt-8 border-t border-slate-100">
-                       <h4 className="flex items-center gap-2 font-bold text-slate-800 mb-4">
-                         <Paperclip size={18} /> Attachments
-                       </h4>
-                       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                         {JSON.parse(fullEmail.raw_content).attachments.map((att: any, i: number) => (
-                           <div key={i} className="p-4 bg-slate-50 border border-slate-200 rounded-lg flex items-center gap-3">
-                             <FileText className="text-slate-400" />
-                             <div className="truncate text-sm font-medium">{att.filename}</div>
-                           </div>
-                         ))}
-                       </div>
-                     </div>
-                   )}
+                   <AttachmentList token={token} emailId={email.id} attachments={fullEmail.attachments || []} />
                  </div>
                ) : <div className="text-slate-400 italic">Content unavailable</div>
              ) : (
@@ -499,6 +924,8 @@ function EmailDetail({ email, onBack, username }: any) {
                </div>
              )}
            </div>
+
+           <MessageSource key={email.id} token={token} emailId={email.id} />
         </div>
       </div>
 
@@ -521,9 +948,11 @@ function EmailDetail({ email, onBack, username }: any) {
               className="space-y-4 max-w-4xl mx-auto"
             >
               <div className="bg-white rounded-xl border border-blue-200 shadow-sm overflow-hidden focus-within:ring-2 ring-blue-500/20 transition-all">
+                <DraftTools token={token} emailId={email.id} draft={replyBody} onDraft={setReplyBody} onStreaming={setDrafting} />
                 <textarea
                   value={replyBody}
                   onChange={e => setReplyBody(e.target.value)}
+                  readOnly={drafting}
                   className="w-full h-32 md:h-40 p-4 resize-none outline-none text-slate-800 placeholder:text-slate-300 text-sm md:text-base"
                   placeholder="Type your secure reply here..."
                   autoFocus
@@ -541,6 +970,7 @@ function EmailDetail({ email, onBack, username }: any) {
                     </button>
                     <button 
                       onClick={handleReply}
+                      disabled={drafting}
                       className="flex-1 md:flex-none px-6 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded-lg font-bold text-sm shadow-lg shadow-blue-500/20 transition-all flex items-center justify-center gap-2"
                     >
                       <Send size={14} /> Send
@@ -0,0 +1,49 @@
+import { useEffect, useState } from 'react';
+import { Check, X } from 'lucide-react';
+import { type Availability, checkAddress } from '../lib/addresses';
+
+type Props = {
+  value: string;
+  onChange: (value: string) => void;
+  // Only changes the address shown; local parts are unique across domains
+  domain?: string | null;
+  placeholder?: string;
+  className?: string;
+};
+
+// Local part input with a live availability check; empty means "pick one for me"
+export const AddressPicker = ({ value, onChange, domain = null, placeholder = 'Choose an address (optional)', className = '' }: Props) => {
+  const [status, setStatus] = useState<Availability | null>(null);
+
+  useEffect(() => {
+    setStatus(null);
+    if (!value.trim()) return;
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      checkAddress(value.trim(), domain, controller.signal).then(setStatus).catch(() => {});
+    }, 300);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [value, domain]);
+
+  return (
+    <div className="space-y-1">
+      <input
+        type="text"
+        placeholder={placeholder}
+        value={value}
+        onChange={e => onChange(e.target.value)}
+        maxLength={32}
+        className={className}
+      />
+      {status && (
+        <p className={`flex items-center gap-1 text-xs ${status.available ? 'text-emerald-400' : 'text-red-400'}`}>
+          {status.available ? <Check size={12} /> : <X size={12} />}
+          {status.available ? `${status.address} is available` : status.reason}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,111 @@
+import { useState } from 'react';
+import { AtSign, Copy, Plus, Trash2 } from 'lucide-react';
+import { type ApiErrorBody, apiFetch } from '../lib/api';
+import { fetchDomains } from '../lib/addresses';
+import { AddressPicker } from './AddressPicker';
+
+type Address = { local_part: string; domain: string; address: string; primary: boolean; created_at: number };
+
+// The account's addresses: its primary one plus aliases that deliver to the same mailbox
+export const AddressesPanel = ({ token }: { token: string }) => {
+  const [addresses, setAddresses] = useState<Address[] | null>(null);
+  const [open, setOpen] = useState(false);
+  const [localPart, setLocalPart] = useState('');
+  const [domains, setDomains] = useState<string[]>([]);
+  // Empty until picked, which means the primary address's domain
+  const [domain, setDomain] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const toggle = async () => {
+    setOpen(!open);
+    if (open || addresses) return;
+    const [res, served] = await Promise.all([apiFetch('/addresses', token), fetchDomains()]);
+    setAddresses(res.ok ? ((await res.json()) as { addresses: Address[] }).addresses : []);
+    setDomains(served);
+  };
+
+  const primaryDomain = addresses?.find(a => a.primary)?.domain ?? null;
+
+  const add = async () => {
+    setBusy(true);
+    const res = await apiFetch('/addresses', token, { method: 'POST', body: JSON.stringify({ local_part: localPart, domain: domain || undefined }) });
+    const data: { address: Address } & ApiErrorBody = await res.json();
+    setBusy(false);
+    if (!res.ok) return alert(data.error || 'Could not add the address');
+    setAddresses(prev => [...(prev ?? []), data.address]);
+    setLocalPart('');
+  };
+
+  const remove = async (address: Address) => {
+    if (!confirm(`Remove ${address.address}? Mail sent to it will bounce, and anyone can claim it.`)) return;
+    const res = await apiFetch(`/addresses/${encodeURIComponent(address.local_part)}`, token, { method: 'DELETE' });
+    if (!res.ok) return alert('Could not remove the address');
+    setAddresses(prev => (prev ?? []).filter(a => a.local_part !== address.local_part));
+  };
+
+  return (
+    <div className="mt-2 space-y-2">
+      <button
+        onClick={toggle}
+        className="w-full flex items-center justify-center gap-1.5 text-xs font-medium py-1.5 rounded-lg bg-white/5 border border-white/10 hover:bg-white/10 hover:text-white transition-colors"
+      >
+        <AtSign size={12} /> Addresses
+      </button>
+
+      {open && (
+        <div className="space-y-2">
+          {addresses?.map(address => (
+            <div key={address.local_part} className="flex items-center gap-2 text-xs">
+              <div className="flex-1 min-w-0">
+                <div className="truncate font-mono text-white">{address.address}</div>
+                {address.primary && <div className="text-[10px] text-slate-500">primary</div>}
+              </div>
+              <button onClick={() => navigator.clipboard.writeText(address.address)} className="text-slate-500 hover:text-white transition-colors" title="Copy">
+                <Copy size={12} />
+              </button>
+              {!address.primary && (
+                <button onClick={() => remove(address)} className="text-slate-500 hover:text-red-400 transition-colors" title="Remove">
+                  <Trash2 size={12} />
+                </button>
+              )}
+            </div>
+          ))}
+          <p className="text-[10px] text-slate-500">Mail to name+anything@ arrives too, labelled with the part after the +.</p>
+
+          <div className="flex gap-2 items-start">
+            <div className="flex-1 min-w-0">
+              <AddressPicker
+                value={localPart}
+                onChange={setLocalPart}
+                domain={domain || primaryDomain}
+                placeholder="New alias"
+                className="w-full bg-black/30 border border-white/10 rounded-lg px-2 py-1.5 text-xs text-white outline-none focus:ring-1 focus:ring-blue-500"
+              />
+              {domains.length > 1 && (
+                <select
+                  value={domain || primaryDomain || ''}
+                  onChange={e => setDomain(e.target.value)}
+                  className="mt-1 w-full bg-black/30 border border-white/10 rounded-lg px-2 py-1 text-xs text-slate-300 outline-none"
+                >
+                  {domains.map(d => (
+                    <option key={d} value={d}>
+                      @{d}
+                    </option>
+                  ))}
+                </select>
+              )}
+            </div>
+            <button
+              onClick={add}
+              disabled={busy || !localPart.trim()}
+              className="px-2 py-1.5 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white rounded-lg transition-colors"
+              title="Add alias"
+            >
+              <Plus size={14} />
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,101 @@
+import { useState } from 'react';
+import { Copy, KeySquare, Plus, Trash2 } from 'lucide-react';
+import { type ApiErrorBody, apiFetch } from '../lib/api';
+
+type ApiKey = { id: string; name: string; prefix: string; created_at: number; last_used_at: number | null };
+
+const formatDate = (seconds: number | null) => (seconds ? new Date(seconds * 1000).toLocaleDateString() : 'never');
+
+// API keys for scripts and CI (e.g. GET /api/wait); a new key is shown once, right after creation
+export const ApiKeysPanel = ({ token }: { token: string }) => {
+  const [keys, setKeys] = useState<ApiKey[] | null>(null);
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [created, setCreated] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const toggle = async () => {
+    setOpen(!open);
+    if (open || keys) return;
+    const res = await apiFetch('/keys', token);
+    setKeys(res.ok ? ((await res.json()) as { keys: ApiKey[] }).keys : []);
+  };
+
+  const create = async () => {
+    setBusy(true);
+    const res = await apiFetch('/keys', token, { method: 'POST', body: JSON.stringify({ name }) });
+    const data: { key: ApiKey & { key: string } } & ApiErrorBody = await res.json();
+    setBusy(false);
+    if (!res.ok) return alert(data.error || 'Could not create the key');
+
+    const { key, ...summary } = data.key;
+    setKeys(prev => [...(prev ?? []), summary]);
+    setCreated(key);
+    setName('');
+  };
+
+  const revoke = async (key: ApiKey) => {
+    if (!confirm(`Revoke "${key.name}"? Scripts using it stop working immediately.`)) return;
+    const res = await apiFetch(`/keys/${key.id}`, token, { method: 'DELETE' });
+    if (!res.ok) return alert('Could not revoke the key');
+    setKeys(prev => (prev ?? []).filter(k => k.id !== key.id));
+  };
+
+  return (
+    <div className="mt-2 space-y-2">
+      <button
+        onClick={toggle}
+        className="w-full flex items-center justify-center gap-1.5 text-xs font-medium py-1.5 rounded-lg bg-white/5 border border-white/10 hover:bg-white/10 hover:text-white transition-colors"
+      >
+        <KeySquare size={12} /> API keys
+      </button>
+
+      {open && (
+        <div className="space-y-2">
+          {created && (
+            <div className="bg-emerald-500/10 border border-emerald-500/30 rounded-lg p-2 space-y-1">
+              <p className="text-[10px] text-emerald-300">Copy this key now, it won't be shown again.</p>
+              <div className="flex items-center justify-between">
+                <span className="text-xs truncate font-mono text-white w-full">{created}</span>
+                <button onClick={() => navigator.clipboard.writeText(created)} className="hover:text-white transition-colors pl-2">
+                  <Copy size={14} />
+                </button>
+              </div>
+            </div>
+          )}
+
+          {keys?.map(key => (
+            <div key={key.id} className="flex items-center gap-2 text-xs">
+              <div className="flex-1 min-w-0">
+                <div className="truncate text-white">{key.name}</div>
+                <div className="truncate font-mono text-[10px] text-slate-500">
+                  {key.prefix}… · used {formatDate(key.last_used_at)}
+                </div>
+              </div>
+              <button onClick={() => revoke(key)} className="text-slate-500 hover:text-red-400 transition-colors" title="Revoke">
+                <Trash2 size={12} />
+              </button>
+            </div>
+          ))}
+
+          <div className="flex gap-2">
+            <input
+              placeholder="Key name, e.g. CI"
+              className="flex-1 min-w-0 bg-black/30 border border-white/10 rounded-lg px-2 py-1.5 text-xs text-white outline-none focus:ring-1 focus:ring-blue-500"
+              value={name}
+              onChange={e => setName(e.target.value)}
+            />
+            <button
+              onClick={create}
+              disabled={busy || !name.trim()}
+              className="px-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white rounded-lg transition-colors"
+              title="Create key"
+            >
+              <Plus size={14} />
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,65 @@
+import { useState } from 'react';
+import { Download, FileText, Paperclip, RefreshCw } from 'lucide-react';
+import { downloadAttachment } from '../lib/api';
+
+export type AttachmentMeta = {
+  idx: number;
+  filename: string | null;
+  content_type: string;
+  size: number;
+  content_id: string | null;
+  disposition: string | null;
+};
+
+const formatSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export const AttachmentList = ({ token, emailId, attachments }: {
+  token: string;
+  emailId: string;
+  attachments: AttachmentMeta[];
+}) => {
+  const [downloading, setDownloading] = useState<number | null>(null);
+
+  const download = async (att: AttachmentMeta) => {
+    setDownloading(att.idx);
+    try {
+      await downloadAttachment(token, emailId, att.idx, att.filename);
+    } catch (e) {
+      alert('Could not download attachment');
+    }
+    setDownloading(null);
+  };
+
+  if (attachments.length === 0) return null;
+
+  return (
+    <div className="mt-8 pt-8 border-t border-slate-100 whitespace-normal">
+      <h4 className="flex items-center gap-2 font-bold text-slate-800 mb-4">
+        <Paperclip size={18} /> Attachments
+      </h4>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {attachments.map((att) => (
+          <div key={att.idx} className="p-4 bg-slate-50 border border-slate-200 rounded-lg flex items-center gap-3">
+            <FileText className="text-slate-400 shrink-0" />
+            <div className="min-w-0 flex-1">
+              <div className="truncate text-sm font-medium">{att.filename || `attachment-${att.idx}`}</div>
+              <div className="text-xs text-slate-400">{att.content_type} · {formatSize(att.size)}</div>
+            </div>
+            <button
+              onClick={() => download(att)}
+              disabled={downloading === att.idx}
+              title="Download"
+              className="p-2 rounded-lg text-slate-500 hover:text-blue-600 hover:bg-white border border-transparent hover:border-slate-200 transition-all"
+            >
+              {downloading === att.idx ? <RefreshCw size={16} className="animate-spin" /> : <Download size={16} />}
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,36 @@
+import { ShieldAlert, ShieldCheck, ShieldQuestion } from 'lucide-react';
+
+// Mirrors AuthResults in src/worker/senderauth.ts
+export type AuthResults = {
+  spf: string | null;
+  dkim: string | null;
+  dmarc: string | null;
+  envelope_domain: string | null;
+  from_domain: string | null;
+  from_mismatch: boolean;
+};
+
+const BADGES = {
+  verified: { icon: ShieldCheck, text: 'Verified sender', tone: 'bg-emerald-50 text-emerald-700 border-emerald-200' },
+  unverified: { icon: ShieldQuestion, text: 'Unverified sender', tone: 'bg-amber-50 text-amber-700 border-amber-200' },
+  failed: { icon: ShieldAlert, text: 'Failed authentication', tone: 'bg-red-50 text-red-700 border-red-200' }
+};
+
+function describe(results: AuthResults | null) {
+  if (!results) return undefined;
+  const lines = [`SPF: ${results.spf ?? 'none'}`, `DKIM: ${results.dkim ?? 'none'}`, `DMARC: ${results.dmarc ?? 'none'}`];
+  if (results.from_mismatch) lines.push(`From domain ${results.from_domain} differs from the envelope sender's ${results.envelope_domain}`);
+  return lines.join('\n');
+}
+
+// SPF/DKIM/DMARC verdict next to the sender; hidden for sent mail and messages stored before it was recorded
+export const AuthBadge = ({ status, results }: { status: string | null | undefined; results: AuthResults | null }) => {
+  const badge = status ? BADGES[status as keyof typeof BADGES] : undefined;
+  if (!badge) return null;
+  const Icon = badge.icon;
+  return (
+    <span className={`flex items-center gap-1 text-[11px] font-bold px-1.5 py-0.5 rounded-md border shrink-0 ${badge.tone}`} title={describe(results)}>
+      <Icon size={11} /> {badge.text}
+    </span>
+  );
+};
@@ -0,0 +1,79 @@
+import { useState } from 'react';
+import { Ban, Plus, Trash2 } from 'lucide-react';
+import { type ApiErrorBody, apiFetch } from '../lib/api';
+
+type Blocked = { pattern: string; created_at: number };
+
+// Addresses and domains whose mail is refused; "Block sender" in the message view adds to this
+export const BlockedSendersPanel = ({ token }: { token: string }) => {
+  const [blocked, setBlocked] = useState<Blocked[] | null>(null);
+  const [open, setOpen] = useState(false);
+  const [sender, setSender] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const toggle = async () => {
+    setOpen(!open);
+    if (open) return;
+    // Refetched on every open, since the message view can block senders in the meantime
+    const res = await apiFetch('/blocked-senders', token);
+    setBlocked(res.ok ? ((await res.json()) as { blocked: Blocked[] }).blocked : []);
+  };
+
+  const add = async () => {
+    setBusy(true);
+    const res = await apiFetch('/blocked-senders', token, { method: 'POST', body: JSON.stringify({ sender }) });
+    const data: { blocked: Blocked } & ApiErrorBody = await res.json();
+    setBusy(false);
+    if (!res.ok) return alert(data.error || 'Could not block the sender');
+    setBlocked(prev => [data.blocked, ...(prev ?? [])]);
+    setSender('');
+  };
+
+  const unblock = async (entry: Blocked) => {
+    const res = await apiFetch(`/blocked-senders/${encodeURIComponent(entry.pattern)}`, token, { method: 'DELETE' });
+    if (!res.ok) return alert('Could not unblock the sender');
+    setBlocked(prev => (prev ?? []).filter(b => b.pattern !== entry.pattern));
+  };
+
+  return (
+    <div className="mt-2 space-y-2">
+      <button
+        onClick={toggle}
+        className="w-full flex items-center justify-center gap-1.5 text-xs font-medium py-1.5 rounded-lg bg-white/5 border border-white/10 hover:bg-white/10 hover:text-white transition-colors"
+      >
+        <Ban size={12} /> Blocked senders
+      </button>
+
+      {open && (
+        <div className="space-y-2">
+          {blocked?.length === 0 && <p className="text-[10px] text-slate-500">Nobody is blocked.</p>}
+          {blocked?.map(entry => (
+            <div key={entry.pattern} className="flex items-center gap-2 text-xs">
+              <span className="flex-1 min-w-0 truncate font-mono text-white">{entry.pattern}</span>
+              <button onClick={() => unblock(entry)} className="text-slate-500 hover:text-red-400 transition-colors" title="Unblock">
+                <Trash2 size={12} />
+              </button>
+            </div>
+          ))}
+
+          <div className="flex gap-2">
+            <input
+              placeholder="Address or @domain"
+              className="flex-1 min-w-0 bg-black/30 border border-white/10 rounded-lg px-2 py-1.5 text-xs text-white outline-none focus:ring-1 focus:ring-blue-500"
+              value={sender}
+              onChange={e => setSender(e.target.value)}
+            />
+            <button
+              onClick={add}
+              disabled={busy || !sender.trim()}
+              className="px-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white rounded-lg transition-colors"
+              title="Block"
+            >
+              <Plus size={14} />
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,185 @@
+import { useState } from 'react';
+import { ArrowLeft, Code, Paperclip, RefreshCw, Send, X } from 'lucide-react';
+import { type ApiErrorBody, apiFetch } from '../lib/api';
+
+// Mirrors MAX_ATTACHMENT_BYTES in src/worker/outbound.ts so oversized uploads fail before sending
+const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+const ERROR_MESSAGES: Record<string, string> = {
+  NO_RECIPIENTS: 'Add at least one recipient.',
+  INVALID_RECIPIENT: 'Some addresses are not valid',
+  TOO_MANY_RECIPIENTS: 'Too many recipients for one message.',
+  EMPTY_BODY: 'Write a message before sending.',
+  ATTACHMENTS_TOO_LARGE: 'Attachments are too large (10 MB total).',
+  INVALID_ATTACHMENT: 'One of the attachments could not be encoded.',
+  SEND_FAILED: 'The message could not be delivered'
+};
+
+function describeError(body: ApiErrorBody) {
+  const base = (body.code && ERROR_MESSAGES[body.code]) || body.error || 'Could not send the message';
+  const addresses = body.details?.addresses ?? body.details?.failed;
+  return addresses?.length ? `${base}: ${addresses.join(', ')}` : base;
+}
+
+export const ComposeView = ({ token, from, onClose, onSent }: {
+  token: string;
+  from: string;
+  onClose: () => void;
+  onSent: () => void;
+}) => {
+  const [to, setTo] = useState('');
+  const [cc, setCc] = useState('');
+  const [bcc, setBcc] = useState('');
+  const [showCopies, setShowCopies] = useState(false);
+  const [subject, setSubject] = useState('');
+  const [text, setText] = useState('');
+  const [html, setHtml] = useState('');
+  const [showHtml, setShowHtml] = useState(false);
+  const [files, setFiles] = useState<File[]>([]);
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const totalSize = files.reduce((total, f) => total + f.size, 0);
+
+  const send = async () => {
+    if (totalSize > MAX_ATTACHMENT_BYTES) return setError(ERROR_MESSAGES.ATTACHMENTS_TOO_LARGE);
+
+    const form = new FormData();
+    form.append('to', to);
+    form.append('cc', cc);
+    form.append('bcc', bcc);
+    form.append('subject', subject);
+    form.append('text', text);
+    if (showHtml && html.trim()) form.append('html', html);
+    files.forEach(file => form.append('attachments', file));
+
+    setSending(true);
+    setError(null);
+    try {
+      const res = await apiFetch('/send', token, { method: 'POST', body: form });
+      const data = (await res.json()) as ApiErrorBody & { failed?: string[] };
+      if (!res.ok) return setError(describeError(data));
+      if (data.failed?.length) alert(`Sent, but these addresses were refused: ${data.failed.join(', ')}`);
+      onSent();
+    } catch {
+      setError('Network error, please try again.');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const field = 'w-full bg-transparent outline-none text-sm text-slate-800 placeholder:text-slate-300';
+
+  return (
+    <div className="flex-1 flex flex-col h-full bg-white">
+      <div className="border-b border-slate-200 px-4 py-3 flex items-center gap-3">
+        <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full text-slate-500 transition-colors">
+          <ArrowLeft size={20} />
+        </button>
+        <h2 className="text-lg font-bold text-slate-800">New Message</h2>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 md:p-8">
+        <div className="max-w-4xl mx-auto bg-white rounded-xl border border-slate-200 shadow-sm divide-y divide-slate-100">
+          <div className="px-4 py-3 flex items-center gap-3 text-sm">
+            <span className="w-12 text-slate-400 font-medium">From</span>
+            <span className="font-mono text-slate-600 truncate">{from}</span>
+          </div>
+          <div className="px-4 py-3 flex items-center gap-3">
+            <span className="w-12 text-sm text-slate-400 font-medium">To</span>
+            <input className={field} value={to} onChange={e => setTo(e.target.value)} placeholder="name@example.com, ..." autoFocus />
+            {!showCopies && (
+              <button onClick={() => setShowCopies(true)} className="text-xs font-bold text-slate-400 hover:text-blue-600">
+                Cc/Bcc
+              </button>
+            )}
+          </div>
+          {showCopies && (
+            <>
+              <div className="px-4 py-3 flex items-center gap-3">
+                <span className="w-12 text-sm text-slate-400 font-medium">Cc</span>
+                <input className={field} value={cc} onChange={e => setCc(e.target.value)} />
+              </div>
+              <div className="px-4 py-3 flex items-center gap-3">
+                <span className="w-12 text-sm text-slate-400 font-medium">Bcc</span>
+                <input className={field} value={bcc} onChange={e => setBcc(e.target.value)} />
+              </div>
+            </>
+          )}
+          <div className="px-4 py-3">
+            <input className={`${field} font-semibold`} value={subject} onChange={e => setSubject(e.target.value)} placeholder="Subject" />
+          </div>
+          <textarea
+            value={text}
+            onChange={e => setText(e.target.value)}
+            className="w-full h-64 p-4 resize-y outline-none text-slate-800 placeholder:text-slate-300 text-sm md:text-base"
+            placeholder="Write your message..."
+          />
+          {showHtml && (
+            <textarea
+              value={html}
+              onChange={e => setHtml(e.target.value)}
+              className="w-full h-40 p-4 resize-y outline-none font-mono text-xs text-slate-700 placeholder:text-slate-300 bg-slate-50"
+              placeholder="<p>Optional HTML version of the message</p>"
+            />
+          )}
+
+          {files.length > 0 && (
+            <div className="px-4 py-3 flex flex-wrap gap-2">
+              {files.map((file, i) => (
+                <span key={i} className="flex items-center gap-2 bg-slate-100 rounded-lg px-3 py-1.5 text-xs text-slate-700">
+                  <Paperclip size={12} /> {file.name}
+                  <span className="text-slate-400">{Math.ceil(file.size / 1024)} KB</span>
+                  <button onClick={() => setFiles(files.filter((_, j) => j !== i))} className="text-slate-400 hover:text-red-500">
+                    <X size={12} />
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+
+          <div className="bg-slate-50 px-4 py-3 flex flex-col md:flex-row justify-between items-center gap-3">
+            <div className="flex gap-2 w-full md:w-auto">
+              <label className="flex items-center gap-1.5 px-3 py-2 text-xs font-semibold text-slate-600 bg-white border border-slate-200 rounded-lg hover:border-blue-300 cursor-pointer">
+                <Paperclip size={14} /> Attach
+                <input
+                  type="file"
+                  multiple
+                  className="hidden"
+                  onChange={e => {
+                    setFiles([...files, ...Array.from(e.target.files || [])]);
+                    e.target.value = '';
+                  }}
+                />
+              </label>
+              <button
+                onClick={() => setShowHtml(!showHtml)}
+                className={`flex items-center gap-1.5 px-3 py-2 text-xs font-semibold border rounded-lg transition-colors ${showHtml ? 'bg-blue-50 border-blue-200 text-blue-700' : 'bg-white border-slate-200 text-slate-600 hover:border-blue-300'}`}
+              >
+                <Code size={14} /> HTML version
+              </button>
+            </div>
+            <div className="flex gap-3 w-full md:w-auto">
+              <button onClick={onClose} className="flex-1 md:flex-none px-4 py-2 text-slate-500 hover:text-slate-700 font-medium text-sm transition-colors">
+                Discard
+              </button>
+              <button
+                onClick={send}
+                disabled={sending}
+                className="flex-1 md:flex-none px-6 py-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white rounded-lg font-bold text-sm shadow-lg shadow-blue-500/20 transition-all flex items-center justify-center gap-2"
+              >
+                {sending ? <RefreshCw size={14} className="animate-spin" /> : <Send size={14} />} Send
+              </button>
+            </div>
+          </div>
+        </div>
+
+        {error && (
+          <div className="max-w-4xl mx-auto mt-4 text-sm bg-red-50 border border-red-200 text-red-700 rounded-lg px-4 py-3">
+            {error}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
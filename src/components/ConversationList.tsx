@@ -0,0 +1,38 @@
+import { MessagesSquare } from 'lucide-react';
+
+export const ConversationList = ({ messages, currentId, onSelect }: {
+  messages: any[];
+  currentId: string;
+  onSelect: (message: any) => void;
+}) => {
+  if (messages.length < 2) return null;
+
+  return (
+    <div className="mb-6 md:mb-8 rounded-2xl border border-slate-200 overflow-hidden">
+      <div className="flex items-center gap-2 px-4 py-2 bg-slate-50 border-b border-slate-200 text-xs font-bold uppercase tracking-wider text-slate-500">
+        <MessagesSquare size={14} /> Conversation · {messages.length} messages
+      </div>
+      <ul className="divide-y divide-slate-100">
+        {messages.map((message) => (
+          <li key={message.id}>
+            <button
+              onClick={() => onSelect(message)}
+              className={`w-full flex items-center gap-3 px-4 py-2.5 text-left text-sm transition-colors
+                ${message.id === currentId ? 'bg-blue-50/60' : 'hover:bg-slate-50'}`}
+            >
+              <span className={`text-[10px] font-bold uppercase px-1.5 py-0.5 rounded ${message.folder === 'sent' ? 'bg-emerald-50 text-emerald-700' : 'bg-slate-100 text-slate-500'}`}>
+                {message.folder === 'sent' ? 'You' : 'In'}
+              </span>
+              <span className={`truncate flex-1 ${message.is_read ? 'text-slate-600' : 'font-semibold text-slate-900'}`}>
+                {message.folder === 'sent' ? `To: ${message.recipient}` : message.sender} — {message.snippet || message.subject}
+              </span>
+              <span className="text-xs text-slate-400 shrink-0">
+                {new Date(message.created_at * 1000).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}
+              </span>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
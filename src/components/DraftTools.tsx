@@ -0,0 +1,118 @@
+import { useRef, useState } from 'react';
+import { Languages, Loader2, Minimize2, Palette, Sparkles, Square } from 'lucide-react';
+import { type DraftRequest, TONES, streamDraft } from '../lib/drafts';
+
+type Props = {
+  token: string;
+  emailId: string;
+  draft: string;
+  onDraft: (text: string) => void;
+  // True while text is streaming into the composer, so it can be made read-only
+  onStreaming: (streaming: boolean) => void;
+};
+
+const toolButton =
+  'flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg text-xs font-semibold text-slate-600 hover:bg-blue-50 hover:text-blue-700 disabled:opacity-40 disabled:hover:bg-transparent disabled:hover:text-slate-600 transition-colors';
+
+// AI toolbar for the reply composer: drafts a reply from the open message (optionally steered by an
+// instruction) and rewrites, shortens or translates the current draft, streaming into the textarea
+export const DraftTools = ({ token, emailId, draft, onDraft, onStreaming }: Props) => {
+  const [instruction, setInstruction] = useState('');
+  const [language, setLanguage] = useState('');
+  const [busy, setBusy] = useState<DraftRequest['action'] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abort = useRef<AbortController | null>(null);
+
+  const run = async (request: DraftRequest) => {
+    const previous = draft;
+    const controller = new AbortController();
+    abort.current = controller;
+    setBusy(request.action);
+    setError(null);
+    onStreaming(true);
+    try {
+      await streamDraft(token, request, onDraft, controller.signal);
+    } catch (e) {
+      // Stopping keeps whatever had streamed in; a failure puts the old draft back
+      if (!controller.signal.aborted) {
+        setError(e instanceof Error ? e.message : 'AI request failed');
+        onDraft(previous);
+      }
+    } finally {
+      abort.current = null;
+      setBusy(null);
+      onStreaming(false);
+    }
+  };
+
+  const hasDraft = draft.trim().length > 0;
+  const idle = busy === null;
+
+  return (
+    <div className="border-b border-slate-100 bg-slate-50/60 px-3 py-2 space-y-2">
+      <div className="flex flex-wrap items-center gap-1.5">
+        <input
+          value={instruction}
+          onChange={e => setInstruction(e.target.value)}
+          onKeyDown={e => e.key === 'Enter' && idle && run({ action: 'draft', emailId, instruction: instruction.trim() || undefined })}
+          placeholder="Optional instruction, e.g. politely decline"
+          maxLength={500}
+          className="flex-1 min-w-[12rem] bg-white border border-slate-200 rounded-lg px-2.5 py-1.5 text-xs outline-none focus:border-blue-400"
+        />
+        <button
+          onClick={() => run({ action: 'draft', emailId, instruction: instruction.trim() || undefined })}
+          disabled={!idle}
+          className={toolButton}
+        >
+          {busy === 'draft' ? <Loader2 size={13} className="animate-spin" /> : <Sparkles size={13} />} Draft with AI
+        </button>
+        {!idle && (
+          <button onClick={() => abort.current?.abort()} className={`${toolButton} text-red-600`} title="Stop generating">
+            <Square size={12} /> Stop
+          </button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-1.5">
+        <div className="flex items-center gap-1 text-xs text-slate-500">
+          <Palette size={13} />
+          <select
+            value=""
+            onChange={e => run({ action: 'tone', draft, tone: e.target.value as (typeof TONES)[number] })}
+            disabled={!idle || !hasDraft}
+            className="bg-transparent font-semibold text-slate-600 outline-none disabled:opacity-40"
+          >
+            <option value="" disabled>
+              Rewrite tone…
+            </option>
+            {TONES.map(tone => (
+              <option key={tone} value={tone} className="capitalize">
+                {tone}
+              </option>
+            ))}
+          </select>
+        </div>
+        <button onClick={() => run({ action: 'shorten', draft })} disabled={!idle || !hasDraft} className={toolButton}>
+          <Minimize2 size={13} /> Shorten
+        </button>
+        <div className="flex items-center gap-1">
+          <input
+            value={language}
+            onChange={e => setLanguage(e.target.value)}
+            placeholder="Language"
+            maxLength={40}
+            className="w-24 bg-white border border-slate-200 rounded-lg px-2 py-1 text-xs outline-none focus:border-blue-400"
+          />
+          <button
+            onClick={() => run({ action: 'translate', draft, language: language.trim() })}
+            disabled={!idle || !hasDraft || !language.trim()}
+            className={toolButton}
+          >
+            <Languages size={13} /> Translate
+          </button>
+        </div>
+        {error && <span className="text-xs text-red-600 font-medium">{error}</span>}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,58 @@
+import { useState } from 'react';
+import { CalendarClock, Check, Copy, KeyRound, Link2, ListTodo, Package } from 'lucide-react';
+
+// Mirrors Entities in src/worker/extract.ts
+export type Entities = {
+  codes: string[];
+  links: string[];
+  tracking_numbers: string[];
+  dates: { text: string; date: string | null }[];
+  action_items: string[];
+};
+
+const Chip = ({ icon: Icon, value, label }: { icon: typeof Copy; value: string; label?: string }) => {
+  const [copied, setCopied] = useState(false);
+  const copy = async () => {
+    await navigator.clipboard.writeText(value);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+  return (
+    <button
+      onClick={copy}
+      title={`Copy ${value}`}
+      className="flex items-center gap-1.5 max-w-full bg-white/80 hover:bg-white border border-blue-100 hover:border-blue-300 rounded-lg px-2.5 py-1 text-xs font-medium text-slate-700 transition-colors"
+    >
+      <Icon size={12} className="text-blue-500 shrink-0" />
+      <span className="truncate font-mono">{label ?? value}</span>
+      {copied ? <Check size={12} className="text-emerald-600 shrink-0" /> : <Copy size={12} className="text-slate-300 shrink-0" />}
+    </button>
+  );
+};
+
+// One-click copy chips for what ingest extracted; nothing renders when there's nothing to show
+export const EntityChips = ({ entities }: { entities: Entities | null }) => {
+  if (!entities) return null;
+  const { codes, links, tracking_numbers, dates, action_items } = entities;
+  if (![codes, links, tracking_numbers, dates, action_items].some(list => list.length > 0)) return null;
+
+  return (
+    <div className="relative z-10 mt-4 pt-4 border-t border-blue-100 space-y-3">
+      <div className="flex flex-wrap gap-2">
+        {codes.map(code => <Chip key={code} icon={KeyRound} value={code} />)}
+        {links.map(link => <Chip key={link} icon={Link2} value={link} label={link.replace(/^https?:\/\//, '').replace(/\?.*$/, '')} />)}
+        {tracking_numbers.map(number => <Chip key={number} icon={Package} value={number} />)}
+        {dates.map(d => <Chip key={d.text} icon={CalendarClock} value={d.date ?? d.text} label={d.text} />)}
+      </div>
+      {action_items.length > 0 && (
+        <ul className="space-y-1 text-xs md:text-sm text-slate-600">
+          {action_items.map(item => (
+            <li key={item} className="flex items-start gap-2">
+              <ListTodo size={14} className="text-blue-500 mt-0.5 shrink-0" /> {item}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,55 @@
+import { useEffect, useState } from 'react';
+import { Timer, TimerReset } from 'lucide-react';
+import { apiFetch } from '../lib/api';
+
+const formatRemaining = (seconds: number) => {
+  if (seconds <= 0) return 'Expired';
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}m ${seconds % 60}s`;
+};
+
+export const ExpiryCountdown = ({ token, expiresAt, onExtended }: {
+  token: string;
+  expiresAt: number;
+  onExtended: (expiresAt: number) => void;
+}) => {
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+  const [extending, setExtending] = useState(false);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const remaining = expiresAt - now;
+
+  const extend = async () => {
+    setExtending(true);
+    const res = await apiFetch('/expiry', token, { method: 'POST', body: JSON.stringify({ hours: 24 }) });
+    setExtending(false);
+    if (!res.ok) return alert('Could not extend this identity');
+
+    const data: { expires_at: number } = await res.json();
+    onExtended(data.expires_at);
+  };
+
+  return (
+    <div className={`flex items-center gap-2 pl-3 pr-1 py-1 rounded-full border text-xs font-semibold
+      ${remaining < 3600 ? 'bg-red-50 border-red-200 text-red-600' : 'bg-white border-slate-200 text-slate-600'}`}>
+      <Timer size={14} />
+      <span className="font-mono">{formatRemaining(remaining)}</span>
+      <button
+        onClick={extend}
+        disabled={extending}
+        title="Extend by 24 hours"
+        className="flex items-center gap-1 px-2 py-1 rounded-full bg-slate-100 hover:bg-blue-50 hover:text-blue-600 transition-colors"
+      >
+        <TimerReset size={12} className={extending ? 'animate-spin' : ''} /> +24h
+      </button>
+    </div>
+  );
+};
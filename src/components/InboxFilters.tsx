@@ -0,0 +1,47 @@
+import { Paperclip, Search, X } from 'lucide-react';
+import { AUTH_STATUSES, type AuthStatus, type EmailFilters, NO_FILTERS, hasFilters } from '../lib/listing';
+
+export const InboxFilters = ({ filters, onChange }: { filters: EmailFilters; onChange: (filters: EmailFilters) => void }) => {
+  const set = (patch: Partial<EmailFilters>) => onChange({ ...filters, ...patch });
+  const chip = (active: boolean) =>
+    `flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-semibold border transition-colors ${
+      active ? 'bg-blue-50 border-blue-200 text-blue-700' : 'bg-white border-slate-200 text-slate-600 hover:border-blue-300'
+    }`;
+  const input = 'bg-white border border-slate-200 rounded-lg px-2 py-1.5 text-xs text-slate-700 outline-none focus:ring-2 focus:ring-blue-500/20';
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 px-4 md:px-8 py-3 border-b border-slate-100 bg-white/60">
+      <button onClick={() => set({ unread: !filters.unread })} className={chip(filters.unread)}>
+        Unread
+      </button>
+      <button onClick={() => set({ hasAttachments: !filters.hasAttachments })} className={chip(filters.hasAttachments)}>
+        <Paperclip size={12} /> Attachments
+      </button>
+      <div className="flex items-center gap-1.5 bg-white border border-slate-200 rounded-lg px-2">
+        <Search size={12} className="text-slate-400" />
+        <input
+          value={filters.sender}
+          onChange={e => set({ sender: e.target.value })}
+          placeholder="Sender"
+          className="py-1.5 text-xs text-slate-700 outline-none w-32 bg-transparent"
+        />
+      </div>
+      <select value={filters.auth} onChange={e => set({ auth: e.target.value as AuthStatus | '' })} className={`${input} capitalize`}>
+        <option value="">Any authentication</option>
+        {AUTH_STATUSES.map(status => (
+          <option key={status} value={status}>
+            {status}
+          </option>
+        ))}
+      </select>
+      <input type="date" value={filters.from} max={filters.to || undefined} onChange={e => set({ from: e.target.value })} className={input} />
+      <span className="text-xs text-slate-400">to</span>
+      <input type="date" value={filters.to} min={filters.from || undefined} onChange={e => set({ to: e.target.value })} className={input} />
+      {hasFilters(filters) && (
+        <button onClick={() => onChange(NO_FILTERS)} className="flex items-center gap-1 text-xs font-semibold text-slate-400 hover:text-slate-700">
+          <X size={12} /> Clear
+        </button>
+      )}
+    </div>
+  );
+};
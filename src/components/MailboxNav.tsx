@@ -0,0 +1,128 @@
+import { useState } from 'react';
+import { Archive, Inbox, Plus, Send, ShieldAlert, Star, Tag, X } from 'lucide-react';
+import type { MailView } from '../lib/listing';
+import { type Counts, LABEL_COLORS, createLabel, deleteLabel } from '../lib/messages';
+
+const FOLDERS = [
+  ['inbox', Inbox, 'Inbox'],
+  ['starred', Star, 'Starred'],
+  ['sent', Send, 'Sent'],
+  ['archive', Archive, 'Archive'],
+  ['quarantine', ShieldAlert, 'Quarantine']
+] as const;
+
+export const MailboxNav = ({ token, view, counts, active, onOpen, onLabelsChanged }: {
+  token: string;
+  view: MailView;
+  counts: Counts | null;
+  // False while a message or the composer is open, so no entry is highlighted
+  active: boolean;
+  onOpen: (view: MailView) => void;
+  onLabelsChanged: () => void;
+}) => {
+  const [adding, setAdding] = useState(false);
+  const [name, setName] = useState('');
+  const [color, setColor] = useState('blue');
+
+  const addLabel = async () => {
+    try {
+      await createLabel(token, name.trim(), color);
+      setName('');
+      setAdding(false);
+      onLabelsChanged();
+    } catch (e) {
+      alert((e as Error).message);
+    }
+  };
+
+  const removeLabel = async (id: string, labelName: string) => {
+    if (!confirm(`Delete the label "${labelName}"? Messages keep everything else.`)) return;
+    if (await deleteLabel(token, id)) {
+      if (view === `label:${id}`) onOpen('inbox');
+      onLabelsChanged();
+    }
+  };
+
+  const itemClass = (selected: boolean) =>
+    `group w-full flex items-center gap-3 px-4 py-2.5 rounded-xl font-medium transition-all ${
+      selected && active ? 'bg-blue-50 text-blue-700 shadow-sm ring-1 ring-blue-100' : 'text-slate-600 hover:bg-slate-50'
+    }`;
+  const badge = (n: number | undefined) =>
+    n ? <span className="ml-auto bg-blue-100 text-blue-700 px-2 py-0.5 rounded-md text-xs font-bold">{n}</span> : null;
+
+  return (
+    <nav className="space-y-1">
+      {FOLDERS.map(([id, Icon, label]) => {
+        const count = counts?.folders[id];
+        return (
+          <button key={id} onClick={() => onOpen(id)} className={itemClass(view === id)}>
+            <Icon size={18} /> {label}
+            {/* Inbox shows what's unread; the other folders show their size */}
+            {badge(id === 'inbox' ? count?.unread : count?.total)}
+          </button>
+        );
+      })}
+
+      <div className="flex items-center justify-between px-4 pt-4 pb-1 text-[10px] uppercase tracking-wider font-bold text-slate-400">
+        Labels
+        <button onClick={() => setAdding(!adding)} className="hover:text-blue-600" title="New label">
+          <Plus size={14} />
+        </button>
+      </div>
+
+      {adding && (
+        <div className="px-2 pb-2 space-y-2">
+          <input
+            value={name}
+            onChange={e => setName(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && name.trim() && addLabel()}
+            placeholder="Label name"
+            maxLength={40}
+            autoFocus
+            className="w-full border border-slate-200 rounded-lg px-3 py-1.5 text-sm outline-none focus:ring-2 focus:ring-blue-500/20"
+          />
+          <div className="flex items-center gap-1.5">
+            {Object.entries(LABEL_COLORS).map(([key, cls]) => (
+              <button
+                key={key}
+                onClick={() => setColor(key)}
+                className={`w-4 h-4 rounded-full ${cls} ${color === key ? 'ring-2 ring-offset-1 ring-slate-400' : ''}`}
+                title={key}
+              />
+            ))}
+            <button
+              onClick={addLabel}
+              disabled={!name.trim()}
+              className="ml-auto px-3 py-1 bg-blue-600 disabled:opacity-50 text-white rounded-lg text-xs font-bold"
+            >
+              Add
+            </button>
+          </div>
+        </div>
+      )}
+
+      {counts?.labels.map(label => (
+        <div key={label.id} className="relative">
+          <button onClick={() => onOpen(`label:${label.id}`)} className={itemClass(view === `label:${label.id}`)}>
+            <span className={`w-2.5 h-2.5 rounded-full shrink-0 ${LABEL_COLORS[label.color] ?? LABEL_COLORS.slate}`} />
+            <span className="truncate">{label.name}</span>
+            {badge(label.unread)}
+          </button>
+          <button
+            onClick={() => removeLabel(label.id, label.name)}
+            className="absolute right-1 top-1/2 -translate-y-1/2 p-1 text-slate-300 hover:text-red-500 opacity-0 hover:opacity-100 focus:opacity-100"
+            title="Delete label"
+          >
+            <X size={12} />
+          </button>
+        </div>
+      ))}
+
+      {counts && counts.labels.length === 0 && !adding && (
+        <p className="px-4 py-1 text-xs text-slate-400 flex items-center gap-1.5">
+          <Tag size={12} /> No labels yet
+        </p>
+      )}
+    </nav>
+  );
+};
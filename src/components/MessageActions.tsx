@@ -0,0 +1,92 @@
+import { useState } from 'react';
+import { Archive, Inbox, Mail, MailOpen, ShieldCheck, Star, Tag, Trash2 } from 'lucide-react';
+import { type Label, type MessageChanges, LABEL_COLORS, deleteMessages, updateMessages } from '../lib/messages';
+
+type Target = { id: string; is_read: number; is_starred: number; folder: string; labels: string[] };
+
+// Toolbar for one open message or a bulk selection
+export const MessageActions = ({ token, targets, labels, onChanged, onDeleted }: {
+  token: string;
+  targets: Target[];
+  labels: Label[];
+  onChanged: (ids: string[], changes: MessageChanges) => void;
+  onDeleted: (ids: string[]) => void;
+}) => {
+  const [busy, setBusy] = useState(false);
+  const [labelMenu, setLabelMenu] = useState(false);
+  const ids = targets.map(t => t.id);
+
+  const allStarred = targets.every(t => t.is_starred);
+  const allRead = targets.every(t => t.is_read);
+  const archived = targets.some(t => t.folder === 'archive');
+  const quarantined = targets.some(t => t.folder === 'quarantine');
+  const movable = targets.some(t => t.folder !== 'sent');
+
+  const change = async (changes: MessageChanges) => {
+    setBusy(true);
+    const ok = await updateMessages(token, ids, changes);
+    setBusy(false);
+    if (!ok) return alert('Could not update the message');
+    onChanged(ids, changes);
+  };
+
+  const remove = async () => {
+    if (!confirm(ids.length === 1 ? 'Delete this message permanently?' : `Delete ${ids.length} messages permanently?`)) return;
+    setBusy(true);
+    const ok = await deleteMessages(token, ids);
+    setBusy(false);
+    if (!ok) return alert('Could not delete');
+    onDeleted(ids);
+  };
+
+  const button = 'p-2 rounded-lg text-slate-500 hover:bg-slate-100 hover:text-slate-800 transition-colors disabled:opacity-40';
+
+  return (
+    <div className="flex items-center gap-1 relative">
+      <button disabled={busy} onClick={() => change({ is_starred: !allStarred })} className={button} title={allStarred ? 'Unstar' : 'Star'}>
+        <Star size={18} className={allStarred ? 'fill-amber-400 text-amber-400' : ''} />
+      </button>
+      {quarantined && (
+        <button disabled={busy} onClick={() => change({ folder: 'inbox' })} className={`${button} hover:text-emerald-600`} title="Not spam: move to Inbox">
+          <ShieldCheck size={18} />
+        </button>
+      )}
+      {movable && (
+        <button disabled={busy} onClick={() => change({ folder: archived ? 'inbox' : 'archive' })} className={button} title={archived ? 'Move to Inbox' : 'Archive'}>
+          {archived ? <Inbox size={18} /> : <Archive size={18} />}
+        </button>
+      )}
+      <button disabled={busy} onClick={() => change({ is_read: !allRead })} className={button} title={allRead ? 'Mark unread' : 'Mark read'}>
+        {allRead ? <Mail size={18} /> : <MailOpen size={18} />}
+      </button>
+      <button disabled={busy || labels.length === 0} onClick={() => setLabelMenu(!labelMenu)} className={button} title="Labels">
+        <Tag size={18} />
+      </button>
+      <button disabled={busy} onClick={remove} className={`${button} hover:text-red-600`} title="Delete">
+        <Trash2 size={18} />
+      </button>
+
+      {labelMenu && (
+        <div className="absolute right-0 top-full mt-1 z-20 w-56 bg-white border border-slate-200 rounded-xl shadow-lg p-1">
+          {labels.map(label => {
+            const applied = targets.every(t => t.labels.includes(label.id));
+            return (
+              <button
+                key={label.id}
+                onClick={() => {
+                  setLabelMenu(false);
+                  change(applied ? { remove_labels: [label.id] } : { add_labels: [label.id] });
+                }}
+                className="w-full flex items-center gap-2 px-3 py-2 rounded-lg text-sm text-slate-700 hover:bg-slate-50"
+              >
+                <span className={`w-2.5 h-2.5 rounded-full ${LABEL_COLORS[label.color] ?? LABEL_COLORS.slate}`} />
+                <span className="truncate flex-1 text-left">{label.name}</span>
+                {applied && <span className="text-xs text-blue-600 font-bold">✓</span>}
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,128 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Code, FileText, ImageOff } from 'lucide-react';
+import { apiFetch } from '../lib/api';
+import { htmlToText, sanitizeEmailHtml } from '../lib/sanitize';
+import type { AttachmentMeta } from './AttachmentList';
+
+export const MessageBody = ({ token, emailId, html, text, attachments }: {
+  token: string;
+  emailId: string;
+  html?: string;
+  text?: string;
+  attachments: AttachmentMeta[];
+}) => {
+  const [mode, setMode] = useState<'html' | 'text'>(html ? 'html' : 'text');
+  // Per message: switching to another email starts blocked again
+  const [allowRemote, setAllowRemote] = useState(false);
+  const [cidUrls, setCidUrls] = useState<Map<string, string> | null>(null);
+  const frameRef = useRef<HTMLIFrameElement>(null);
+  // Watches the current iframe document; replaced on every load since each srcdoc brings a new body
+  const observerRef = useRef<ResizeObserver | null>(null);
+
+  useEffect(() => {
+    setMode(html ? 'html' : 'text');
+    setAllowRemote(false);
+  }, [emailId]);
+
+  // Resolve cid: references to the stored inline image attachments
+  useEffect(() => {
+    if (!html) return;
+    let cancelled = false;
+    const created: string[] = [];
+    const inline = attachments.filter(a => a.content_id && a.content_type.startsWith('image/'));
+
+    Promise.all(inline.map(async (att): Promise<[string, string] | null> => {
+      const res = await apiFetch(`/email/${emailId}/attachments/${att.idx}?inline=1`, token);
+      if (!res.ok) return null;
+      const url = URL.createObjectURL(await res.blob());
+      // The cleanup has already revoked what it knew about; URLs made after it are dropped here
+      if (cancelled) {
+        URL.revokeObjectURL(url);
+        return null;
+      }
+      created.push(url);
+      return [att.content_id!, url];
+    })).then(entries => {
+      if (!cancelled) setCidUrls(new Map(entries.filter((e): e is [string, string] => e !== null)));
+    });
+
+    return () => {
+      cancelled = true;
+      created.forEach(url => URL.revokeObjectURL(url));
+    };
+  }, [emailId, html]);
+
+  useEffect(() => () => observerRef.current?.disconnect(), []);
+
+  const rendered = useMemo(
+    () => (html && cidUrls ? sanitizeEmailHtml(html, { cidUrls, allowRemote }) : null),
+    [html, cidUrls, allowRemote]
+  );
+  const plainText = useMemo(() => text || (html ? htmlToText(html) : ''), [text, html]);
+
+  // The iframe keeps scripts disabled, so the parent sizes it to its content
+  const fitFrame = () => {
+    observerRef.current?.disconnect();
+    observerRef.current = null;
+    const doc = frameRef.current?.contentDocument;
+    if (!doc) return;
+    const resize = () => {
+      if (frameRef.current) frameRef.current.style.height = `${doc.documentElement.scrollHeight}px`;
+    };
+    resize();
+    observerRef.current = new ResizeObserver(resize);
+    observerRef.current.observe(doc.body);
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-2 mb-4 not-prose">
+        {html && (
+          <div className="flex bg-slate-100 rounded-lg p-0.5 text-xs font-semibold">
+            <button
+              onClick={() => setMode('html')}
+              className={`flex items-center gap-1 px-3 py-1.5 rounded-md transition-colors ${mode === 'html' ? 'bg-white shadow-sm text-slate-800' : 'text-slate-500'}`}
+            >
+              <Code size={12} /> Rich
+            </button>
+            <button
+              onClick={() => setMode('text')}
+              className={`flex items-center gap-1 px-3 py-1.5 rounded-md transition-colors ${mode === 'text' ? 'bg-white shadow-sm text-slate-800' : 'text-slate-500'}`}
+            >
+              <FileText size={12} /> Plain text
+            </button>
+          </div>
+        )}
+
+        {mode === 'html' && rendered && rendered.blockedRemote > 0 && !allowRemote && (
+          <div className="flex items-center gap-2 text-xs bg-amber-50 border border-amber-200 text-amber-800 rounded-lg px-3 py-1.5">
+            <ImageOff size={12} />
+            {rendered.blockedRemote} remote {rendered.blockedRemote === 1 ? 'item' : 'items'} blocked
+            <button onClick={() => setAllowRemote(true)} className="font-bold underline hover:text-amber-900">
+              Load remote content
+            </button>
+          </div>
+        )}
+      </div>
+
+      {mode === 'html' && html ? (
+        rendered ? (
+          <iframe
+            ref={frameRef}
+            title="Email content"
+            sandbox="allow-same-origin allow-popups allow-popups-to-escape-sandbox"
+            srcDoc={rendered.html}
+            onLoad={fitFrame}
+            className="w-full min-h-[200px] border-0 bg-white rounded-xl"
+          />
+        ) : (
+          <div className="h-4 bg-slate-100 rounded w-3/4 animate-pulse" />
+        )
+      ) : (
+        <div className="bg-white rounded-xl text-slate-800 leading-relaxed whitespace-pre-wrap break-words">
+          {plainText}
+        </div>
+      )}
+    </div>
+  );
+};
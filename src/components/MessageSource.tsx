@@ -0,0 +1,82 @@
+import { useState } from 'react';
+import { Code, Download, RefreshCw } from 'lucide-react';
+import { saveBlob } from '../lib/api';
+import { type HeaderField, fetchRawMessage, parseHeaders } from '../lib/source';
+
+// Large messages are cut off in the page; the download always has the whole thing
+const MAX_SHOWN_SOURCE = 200 * 1024;
+
+type Source = { blob: Blob; text: string; headers: HeaderField[] };
+
+// "View source / headers": the original message's header list, its full source and a .eml download
+export const MessageSource = ({ token, emailId }: { token: string; emailId: string }) => {
+  const [open, setOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+  // null until loaded; 'missing' for mail stored before the original was kept
+  const [source, setSource] = useState<Source | 'missing' | null>(null);
+  const [showFull, setShowFull] = useState(false);
+
+  const toggle = async () => {
+    setOpen(!open);
+    if (open || source) return;
+    setLoading(true);
+    try {
+      const blob = await fetchRawMessage(token, emailId);
+      if (!blob) {
+        setSource('missing');
+      } else {
+        const text = await blob.text();
+        setSource({ blob, text, headers: parseHeaders(text) });
+      }
+    } catch (e) {
+      alert(e instanceof Error ? e.message : 'Could not load the message source');
+      setOpen(false);
+    }
+    setLoading(false);
+  };
+
+  return (
+    <div className="mt-8 pt-6 border-t border-slate-100 whitespace-normal">
+      <button onClick={toggle} className="flex items-center gap-2 text-xs font-semibold text-slate-500 hover:text-blue-600 transition-colors">
+        {loading ? <RefreshCw size={14} className="animate-spin" /> : <Code size={14} />} {open ? 'Hide source' : 'View source / headers'}
+      </button>
+
+      {open && source === 'missing' && <p className="mt-3 text-xs text-slate-400">The original message wasn't kept for this email.</p>}
+
+      {open && source && source !== 'missing' && (
+        <div className="mt-4 space-y-4">
+          <div className="rounded-lg border border-slate-200 divide-y divide-slate-100 text-xs">
+            {source.headers.map((header, i) => (
+              <div key={i} className="grid grid-cols-[10rem_1fr] gap-3 px-3 py-1.5">
+                <span className="font-semibold text-slate-600 truncate" title={header.name}>
+                  {header.name}
+                </span>
+                <span className="font-mono text-slate-700 break-all">{header.value}</span>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex items-center gap-4">
+            <button onClick={() => setShowFull(!showFull)} className="text-xs font-semibold text-slate-500 hover:text-blue-600 transition-colors">
+              {showFull ? 'Hide full source' : 'Show full source'}
+            </button>
+            <button
+              onClick={() => saveBlob(source.blob, `${emailId}.eml`)}
+              className="flex items-center gap-1 text-xs font-semibold text-slate-500 hover:text-blue-600 transition-colors"
+            >
+              <Download size={12} /> Download .eml
+            </button>
+          </div>
+
+          {showFull && (
+            <pre className="max-h-96 overflow-auto rounded-lg bg-slate-50 border border-slate-200 p-3 text-[11px] leading-relaxed text-slate-700 whitespace-pre-wrap break-all">
+              {source.text.length > MAX_SHOWN_SOURCE
+                ? `${source.text.slice(0, MAX_SHOWN_SOURCE)}\n\n… truncated, download the .eml for the rest`
+                : source.text}
+            </pre>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
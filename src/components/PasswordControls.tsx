@@ -0,0 +1,85 @@
+import { useState } from 'react';
+import { KeyRound, RotateCw } from 'lucide-react';
+import { apiFetch } from '../lib/api';
+
+// Both actions end the user's other sessions; the server answers with a token for this one
+export const PasswordControls = ({ token, onChanged }: { token: string; onChanged: (session: { token: string; password?: string }) => void }) => {
+  const [changing, setChanging] = useState(false);
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const changePassword = async () => {
+    setBusy(true);
+    const res = await apiFetch('/password', token, {
+      method: 'POST',
+      body: JSON.stringify({ currentPassword, newPassword })
+    });
+    const data: { token: string; error?: string } = await res.json();
+    setBusy(false);
+    if (!res.ok) return alert(data.error || 'Could not change password');
+
+    onChanged({ token: data.token });
+    setChanging(false);
+    setCurrentPassword('');
+    setNewPassword('');
+    alert('Password updated');
+  };
+
+  const rotatePassword = async () => {
+    if (!confirm('Replace your password with a new generated one? The old one stops working immediately, and other sessions are signed out.')) return;
+    setBusy(true);
+    const res = await apiFetch('/password/rotate', token, { method: 'POST' });
+    setBusy(false);
+    if (!res.ok) return alert('Could not rotate password');
+
+    const data: { password: string; token: string } = await res.json();
+    onChanged(data);
+  };
+
+  return (
+    <div className="mt-2 space-y-2">
+      <div className="flex gap-2">
+        <button
+          onClick={() => setChanging(!changing)}
+          className="flex-1 flex items-center justify-center gap-1.5 text-xs font-medium py-1.5 rounded-lg bg-white/5 border border-white/10 hover:bg-white/10 hover:text-white transition-colors"
+        >
+          <KeyRound size={12} /> Change
+        </button>
+        <button
+          onClick={rotatePassword}
+          disabled={busy}
+          className="flex-1 flex items-center justify-center gap-1.5 text-xs font-medium py-1.5 rounded-lg bg-white/5 border border-white/10 hover:bg-white/10 hover:text-white transition-colors"
+        >
+          <RotateCw size={12} className={busy ? 'animate-spin' : ''} /> Rotate
+        </button>
+      </div>
+
+      {changing && (
+        <div className="space-y-2">
+          <input
+            type="password"
+            placeholder="Current password"
+            className="w-full bg-black/30 border border-white/10 rounded-lg px-2 py-1.5 text-xs text-white outline-none focus:ring-1 focus:ring-blue-500"
+            value={currentPassword}
+            onChange={e => setCurrentPassword(e.target.value)}
+          />
+          <input
+            type="password"
+            placeholder="New password (min 8 chars)"
+            className="w-full bg-black/30 border border-white/10 rounded-lg px-2 py-1.5 text-xs text-white outline-none focus:ring-1 focus:ring-blue-500"
+            value={newPassword}
+            onChange={e => setNewPassword(e.target.value)}
+          />
+          <button
+            onClick={changePassword}
+            disabled={busy || !currentPassword || !newPassword}
+            className="w-full py-1.5 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white rounded-lg text-xs font-bold transition-colors"
+          >
+            Save Password
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
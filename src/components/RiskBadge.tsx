@@ -0,0 +1,49 @@
+import { ShieldAlert, ShieldCheck } from 'lucide-react';
+
+type Scored = { spam_score: number | null; phishing_score: number | null; ai_category?: string | null };
+
+// Mirrors QUARANTINE_SCORE in src/worker/classify.ts; scores from WARN_SCORE up get an amber badge
+const QUARANTINE_SCORE = 80;
+const WARN_SCORE = 50;
+
+// The higher of the two scores, labelled by which one it is
+function topRisk(email: Scored) {
+  const spam = email.spam_score ?? 0;
+  const phishing = email.phishing_score ?? 0;
+  return phishing >= spam ? { kind: 'Phishing', score: phishing } : { kind: 'Spam', score: spam };
+}
+
+const tone = (score: number) =>
+  score >= QUARANTINE_SCORE ? 'bg-red-50 text-red-700 border-red-200' : score >= WARN_SCORE ? 'bg-amber-50 text-amber-700 border-amber-200' : 'bg-emerald-50 text-emerald-700 border-emerald-200';
+
+// Compact list badge; hidden for unscored and low-risk mail
+export const RiskBadge = ({ email }: { email: Scored }) => {
+  const { kind, score } = topRisk(email);
+  if (score < WARN_SCORE) return null;
+  return (
+    <span className={`flex items-center gap-1 text-[11px] font-bold px-1.5 py-0.5 rounded-md border shrink-0 ${tone(score)}`} title={`${kind} score ${score}/100`}>
+      <ShieldAlert size={11} /> {kind} {score}
+    </span>
+  );
+};
+
+// Scores, category and reasons for the AI Analysis card
+export const RiskDetails = ({ email, reasons }: { email: Scored; reasons: string[] }) => {
+  if (email.spam_score === null && email.phishing_score === null) return null;
+  const risky = topRisk(email).score >= WARN_SCORE;
+  return (
+    <div className="relative z-10 mt-4 pt-4 border-t border-blue-100 space-y-3">
+      <div className="flex flex-wrap items-center gap-2 text-xs font-semibold">
+        {risky ? <ShieldAlert size={14} className="text-red-500" /> : <ShieldCheck size={14} className="text-emerald-600" />}
+        <span className={`px-2 py-0.5 rounded-md border ${tone(email.spam_score ?? 0)}`}>Spam {email.spam_score ?? '–'}/100</span>
+        <span className={`px-2 py-0.5 rounded-md border ${tone(email.phishing_score ?? 0)}`}>Phishing {email.phishing_score ?? '–'}/100</span>
+        {email.ai_category && <span className="px-2 py-0.5 rounded-md bg-white/70 border border-blue-100 text-slate-600 capitalize">{email.ai_category}</span>}
+      </div>
+      {reasons.length > 0 && (
+        <ul className="list-disc pl-5 text-xs md:text-sm text-slate-600 space-y-0.5">
+          {reasons.map(reason => <li key={reason}>{reason}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,301 @@
+import { useEffect, useState } from 'react';
+import { ArrowLeft, FlaskConical, Pencil, Plus, RefreshCw, Trash2 } from 'lucide-react';
+import type { Label } from '../lib/messages';
+import { AUTH_STATUSES } from '../lib/listing';
+import { type DryRun, type Rule, type Webhook, CATEGORIES, compact, deleteRule, dryRunRule, fetchRules, fetchWebhooks, saveRule, setRuleEnabled } from '../lib/rules';
+
+type Draft = {
+  id?: string;
+  name: string;
+  enabled: boolean;
+  sender: string;
+  subject: string;
+  attachments: '' | 'yes' | 'no';
+  category: string;
+  auth: string;
+  label: string;
+  markRead: boolean;
+  remove: boolean;
+  forward: string;
+  webhook: string;
+};
+
+const EMPTY_DRAFT: Draft = {
+  name: '', enabled: true, sender: '', subject: '', attachments: '', category: '', auth: '',
+  label: '', markRead: false, remove: false, forward: '', webhook: ''
+};
+
+function toDraft(rule: Rule): Draft {
+  const { conditions: c, actions: a } = rule;
+  return {
+    id: rule.id,
+    name: rule.name,
+    enabled: rule.enabled,
+    sender: c.sender ?? '',
+    subject: c.subject ?? '',
+    attachments: c.has_attachments === undefined ? '' : c.has_attachments ? 'yes' : 'no',
+    category: c.category ?? '',
+    auth: c.auth ?? '',
+    label: a.label ?? '',
+    markRead: !!a.mark_read,
+    remove: !!a.delete,
+    forward: a.forward ?? '',
+    webhook: a.webhook ?? ''
+  };
+}
+
+const conditionsOf = (d: Draft) => compact({
+  sender: d.sender.trim(),
+  subject: d.subject,
+  has_attachments: d.attachments ? d.attachments === 'yes' : undefined,
+  category: d.category,
+  auth: d.auth
+});
+
+const actionsOf = (d: Draft) => compact({
+  label: d.label,
+  mark_read: d.markRead || undefined,
+  delete: d.remove || undefined,
+  forward: d.forward.trim(),
+  webhook: d.webhook
+});
+
+function ruleSummary(rule: Rule, labels: Label[], webhooks: Webhook[]) {
+  const { conditions: c, actions: a } = rule;
+  const when = [
+    c.sender && `sender is ${c.sender}`,
+    c.subject && `subject matches /${c.subject}/`,
+    c.has_attachments !== undefined && (c.has_attachments ? 'has attachments' : 'has no attachments'),
+    c.category && `category is ${c.category}`,
+    c.auth && `sender is ${c.auth}`
+  ].filter(Boolean);
+  const then = [
+    a.label && `label "${labels.find(l => l.id === a.label)?.name ?? 'deleted label'}"`,
+    a.mark_read && 'mark read',
+    a.forward && `forward to ${a.forward}`,
+    a.webhook && `call webhook ${webhooks.find(w => w.id === a.webhook)?.url ?? '(deleted)'}`,
+    a.delete && 'delete'
+  ].filter(Boolean);
+  return `When ${when.join(' and ')}: ${then.join(', ')}`;
+}
+
+export const RulesView = ({ token, labels, onClose }: {
+  token: string;
+  labels: Label[];
+  onClose: () => void;
+}) => {
+  const [rules, setRules] = useState<Rule[] | null>(null);
+  const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [dryRun, setDryRun] = useState<DryRun | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchRules(token).then(setRules).catch(() => setRules([]));
+    fetchWebhooks(token).then(setWebhooks).catch(() => setWebhooks([]));
+  }, [token]);
+
+  const edit = (next: Draft | null) => {
+    setDraft(next);
+    setDryRun(null);
+    setError(null);
+  };
+  const set = (patch: Partial<Draft>) => {
+    if (draft) setDraft({ ...draft, ...patch });
+  };
+
+  // Shared wrapper: API validation messages are shown in the editor
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const save = () => run(async () => {
+    const saved = await saveRule(token, { id: draft!.id, name: draft!.name, enabled: draft!.enabled, conditions: conditionsOf(draft!), actions: actionsOf(draft!) });
+    setRules(prev => (draft!.id ? (prev ?? []).map(r => (r.id === saved.id ? saved : r)) : [...(prev ?? []), saved]));
+    edit(null);
+  });
+
+  const test = () => run(async () => setDryRun(await dryRunRule(token, conditionsOf(draft!))));
+
+  const toggle = async (rule: Rule) => {
+    const saved = await setRuleEnabled(token, rule.id, !rule.enabled).catch(() => null);
+    if (saved) setRules(prev => (prev ?? []).map(r => (r.id === saved.id ? saved : r)));
+  };
+
+  const remove = async (rule: Rule) => {
+    if (!confirm(`Delete the rule "${rule.name}"?`)) return;
+    await deleteRule(token, rule.id).then(() => setRules(prev => (prev ?? []).filter(r => r.id !== rule.id))).catch(() => alert('Could not delete the rule'));
+  };
+
+  const field = 'w-full bg-white border border-slate-200 rounded-lg px-3 py-2 text-sm text-slate-800 outline-none focus:ring-2 focus:ring-blue-500/20';
+  const caption = 'block text-xs font-semibold text-slate-500 mb-1';
+
+  return (
+    <div className="flex-1 flex flex-col h-full bg-white">
+      <div className="border-b border-slate-200 px-4 py-3 flex items-center gap-3">
+        <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full text-slate-500 transition-colors">
+          <ArrowLeft size={20} />
+        </button>
+        <h2 className="text-lg font-bold text-slate-800">Mail Rules</h2>
+        {!draft && (
+          <button
+            onClick={() => edit(EMPTY_DRAFT)}
+            className="ml-auto flex items-center gap-1.5 px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded-lg font-bold text-sm transition-all"
+          >
+            <Plus size={14} /> New rule
+          </button>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 md:p-8">
+        <div className="max-w-3xl mx-auto space-y-4">
+          {draft ? (
+            <div className="rounded-xl border border-slate-200 shadow-sm p-4 md:p-6 space-y-5">
+              <div>
+                <label className={caption}>Name</label>
+                <input className={field} value={draft.name} onChange={e => set({ name: e.target.value })} placeholder="e.g. Label GitHub notifications" autoFocus />
+              </div>
+
+              <div>
+                <h3 className="text-xs font-bold uppercase tracking-wider text-slate-400 mb-2">When all of these match</h3>
+                <div className="grid md:grid-cols-2 gap-3">
+                  <div>
+                    <label className={caption}>Sender (glob)</label>
+                    <input className={field} value={draft.sender} onChange={e => set({ sender: e.target.value })} placeholder="*@github.com" />
+                  </div>
+                  <div>
+                    <label className={caption}>Subject (regular expression)</label>
+                    <input className={`${field} font-mono`} value={draft.subject} onChange={e => set({ subject: e.target.value })} placeholder="^\[ci\]" />
+                  </div>
+                  <div>
+                    <label className={caption}>Attachments</label>
+                    <select className={field} value={draft.attachments} onChange={e => set({ attachments: e.target.value as Draft['attachments'] })}>
+                      <option value="">Any</option>
+                      <option value="yes">Has attachments</option>
+                      <option value="no">No attachments</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className={caption}>AI category</label>
+                    <select className={field} value={draft.category} onChange={e => set({ category: e.target.value })}>
+                      <option value="">Any</option>
+                      {CATEGORIES.map(c => <option key={c} value={c}>{c}</option>)}
+                    </select>
+                  </div>
+                  <div>
+                    <label className={caption}>Sender authentication</label>
+                    <select className={field} value={draft.auth} onChange={e => set({ auth: e.target.value })}>
+                      <option value="">Any</option>
+                      {AUTH_STATUSES.map(s => <option key={s} value={s}>{s}</option>)}
+                    </select>
+                  </div>
+                </div>
+              </div>
+
+              <div>
+                <h3 className="text-xs font-bold uppercase tracking-wider text-slate-400 mb-2">Then</h3>
+                <div className="grid md:grid-cols-2 gap-3">
+                  <div>
+                    <label className={caption}>Apply label</label>
+                    <select className={field} value={draft.label} onChange={e => set({ label: e.target.value })}>
+                      <option value="">None</option>
+                      {labels.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+                    </select>
+                  </div>
+                  <div>
+                    <label className={caption}>Forward to</label>
+                    <input className={field} value={draft.forward} onChange={e => set({ forward: e.target.value })} placeholder="verified@example.com" />
+                  </div>
+                  <div className="md:col-span-2">
+                    <label className={caption}>Call webhook (signed, set up through /api/webhooks)</label>
+                    <select className={field} value={draft.webhook} onChange={e => set({ webhook: e.target.value })}>
+                      <option value="">None</option>
+                      {webhooks.map(w => <option key={w.id} value={w.id}>{w.url}{w.rules_only ? ' (rules only)' : ''}</option>)}
+                    </select>
+                  </div>
+                  <label className="flex items-center gap-2 text-sm text-slate-700">
+                    <input type="checkbox" checked={draft.markRead} onChange={e => set({ markRead: e.target.checked })} className="accent-blue-600" />
+                    Mark as read
+                  </label>
+                  <label className="flex items-center gap-2 text-sm text-red-700">
+                    <input type="checkbox" checked={draft.remove} onChange={e => set({ remove: e.target.checked })} className="accent-red-600" />
+                    Delete (never stored)
+                  </label>
+                </div>
+              </div>
+
+              {error && <div className="text-sm bg-red-50 border border-red-200 text-red-700 rounded-lg px-4 py-3">{error}</div>}
+
+              {dryRun && (
+                <div className="text-sm bg-slate-50 border border-slate-200 rounded-lg px-4 py-3">
+                  <p className="font-semibold text-slate-700">
+                    Matches {dryRun.matched} of the {dryRun.scanned} most recent messages
+                  </p>
+                  <ul className="mt-2 space-y-1 text-slate-600">
+                    {dryRun.emails.map(e => (
+                      <li key={e.id} className="truncate">
+                        <span className="text-slate-400">{e.sender}</span> — {e.subject}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              <div className="flex flex-wrap gap-3 justify-end">
+                <button onClick={() => edit(null)} className="px-4 py-2 text-slate-500 hover:text-slate-700 font-medium text-sm">
+                  Cancel
+                </button>
+                <button
+                  onClick={test}
+                  disabled={busy}
+                  className="flex items-center gap-1.5 px-4 py-2 bg-white border border-slate-200 hover:border-blue-300 text-slate-700 rounded-lg font-semibold text-sm disabled:opacity-50"
+                >
+                  <FlaskConical size={14} /> Test against my mail
+                </button>
+                <button
+                  onClick={save}
+                  disabled={busy}
+                  className="flex items-center gap-1.5 px-6 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded-lg font-bold text-sm disabled:opacity-50"
+                >
+                  {busy && <RefreshCw size={14} className="animate-spin" />} Save rule
+                </button>
+              </div>
+            </div>
+          ) : rules === null ? (
+            <div className="h-4 bg-slate-100 rounded w-1/2 animate-pulse" />
+          ) : rules.length === 0 ? (
+            <div className="py-20 text-center text-slate-400">
+              <h3 className="text-lg font-semibold text-slate-600">No rules yet</h3>
+              <p className="mt-2 text-sm">Rules label, forward or delete incoming mail automatically as it arrives.</p>
+            </div>
+          ) : (
+            rules.map(rule => (
+              <div key={rule.id} className={`rounded-xl border p-4 flex items-start gap-4 ${rule.enabled ? 'border-slate-200' : 'border-slate-100 opacity-60'}`}>
+                <input type="checkbox" checked={rule.enabled} onChange={() => toggle(rule)} className="mt-1 accent-blue-600" title={rule.enabled ? 'Disable' : 'Enable'} />
+                <div className="flex-1 min-w-0">
+                  <div className="font-semibold text-slate-800">{rule.name}</div>
+                  <div className="text-sm text-slate-500 break-words">{ruleSummary(rule, labels, webhooks)}</div>
+                </div>
+                <button onClick={() => edit(toDraft(rule))} className="p-2 rounded-lg text-slate-400 hover:bg-slate-100 hover:text-slate-700" title="Edit">
+                  <Pencil size={16} />
+                </button>
+                <button onClick={() => remove(rule)} className="p-2 rounded-lg text-slate-400 hover:bg-slate-100 hover:text-red-600" title="Delete">
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,76 @@
+import { useEffect, useState } from 'react';
+import { RefreshCw, Search } from 'lucide-react';
+import { apiFetch } from '../lib/api';
+import { highlightParts } from '../lib/search';
+
+type SearchResult = {
+  id: string;
+  sender: string;
+  recipient: string | null;
+  subject: string;
+  folder: 'inbox' | 'sent';
+  created_at: number;
+  highlight: string;
+};
+
+export const SearchResults = ({ token, query, onSelect }: { token: string; query: string; onSelect: (email: SearchResult) => void }) => {
+  const [results, setResults] = useState<SearchResult[] | null>(null);
+
+  // Debounced; a newer query cancels the pending one and ignores its response
+  useEffect(() => {
+    let cancelled = false;
+    setResults(null);
+    const timer = setTimeout(async () => {
+      const res = await apiFetch(`/search?q=${encodeURIComponent(query)}`, token);
+      const data = (await res.json()) as { results?: SearchResult[] };
+      if (!cancelled) setResults(res.ok ? data.results ?? [] : []);
+    }, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query, token]);
+
+  if (!results) {
+    return (
+      <div className="flex justify-center py-20 text-slate-300">
+        <RefreshCw size={24} className="animate-spin" />
+      </div>
+    );
+  }
+
+  if (results.length === 0) {
+    return (
+      <div className="flex flex-col items-center py-20 text-slate-400 text-center">
+        <Search size={32} className="opacity-30 mb-4" />
+        <h3 className="text-lg font-semibold text-slate-600">No results</h3>
+        <p className="mt-2 text-sm">Nothing matches "{query}".</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {results.map(result => (
+        <button
+          key={result.id}
+          onClick={() => onSelect(result)}
+          className="w-full text-left bg-white p-4 rounded-2xl border border-slate-200 shadow-sm hover:border-blue-300 hover:shadow-md transition-all"
+        >
+          <div className="flex justify-between items-start gap-3 mb-1">
+            <span className="font-semibold text-slate-800 truncate">
+              {result.folder === 'sent' ? `To: ${result.recipient}` : result.sender}
+            </span>
+            <span className="text-xs text-slate-400 shrink-0">{new Date(result.created_at * 1000).toLocaleDateString()}</span>
+          </div>
+          <p className="text-sm font-medium text-slate-700 truncate mb-1">{result.subject}</p>
+          <p className="text-sm text-slate-500 line-clamp-2">
+            {highlightParts(result.highlight).map((part, i) =>
+              part.match ? <mark key={i} className="bg-amber-100 text-slate-900 rounded px-0.5">{part.text}</mark> : <span key={i}>{part.text}</span>
+            )}
+          </p>
+        </button>
+      ))}
+    </div>
+  );
+};
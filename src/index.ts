@@ -1,26 +1,155 @@
 import { Hono } from 'hono';
 import { cors } from 'hono/cors';
+import { except } from 'hono/combine';
 import { DurableObject } from 'cloudflare:workers';
 import PostalMime from 'postal-mime';
-import { EmailMessage } from 'cloudflare:email';
-import { createMimeMessage } from 'mimetext';
+import {
+	type AppEnv,
+	MAX_API_KEYS,
+	generateApiKey,
+	hashApiKey,
+	generateSessionKey,
+	issueSessionToken,
+	readSessionToken,
+	requireAdmin,
+	requireAuth,
+	resetSessions,
+	sessionUser,
+} from './worker/auth';
+import { DUMMY_PASSWORD_HASH, MIN_PASSWORD_LENGTH, generatePassword, hashPassword, verifyPassword } from './worker/password';
+import * as db from './worker/db';
+import { type StoredEmail, contentDisposition, storeAttachments, stripAttachmentContent } from './worker/attachments';
+import { newMessageId, referencedIds, replyHeaders, replySubject } from './worker/threads';
+import {
+	MAX_ATTACHMENT_BYTES,
+	MAX_RECIPIENTS,
+	type SentEmail,
+	buildMimeMessage,
+	deliverMessage,
+	isValidAddress,
+	parseAddressList,
+	saveSentEmail,
+} from './worker/outbound';
+import { apiError, rateLimited } from './worker/errors';
+import { MAX_PAGE_SIZE, encodeCursor, parseListQuery } from './worker/listing';
+import { type MessageUpdate, applyMessageUpdate, deleteStoredEmails, parseIds, parseLabelInput, parseMessageUpdate } from './worker/messages';
+import {
+	DEFAULT_SEARCH_LIMIT,
+	HIGHLIGHT_END,
+	HIGHLIGHT_START,
+	MAX_SEARCH_LIMIT,
+	backfillSearchIndex,
+	buildMatchQuery,
+	indexEmail,
+	searchableBody,
+} from './worker/search';
+import {
+	DRY_RUN_RESULTS,
+	DRY_RUN_SCAN,
+	MAX_RULES,
+	evaluateRules,
+	matchesRule,
+	parseRuleConditions,
+	parseRuleInput,
+	toRule,
+} from './worker/rules';
+import { analyzeEmail } from './worker/analyze';
+import { isHighRisk } from './worker/classify';
+import {
+	DEFAULT_DELIVERY_LIMIT,
+	DELIVERY_LOG_TTL,
+	MAX_DELIVERY_LIMIT,
+	MAX_WEBHOOKS,
+	type WebhookJob,
+	enqueueDeliveries,
+	enqueueEmailWebhooks,
+	enqueueRuleWebhooks,
+	generateSecret,
+	handleWebhookBatch,
+	parseWebhookUrl,
+	webhookEmail,
+} from './worker/webhooks';
+import { matchesWait, parseWaitQuery } from './worker/wait';
+import { extractVerification } from './worker/extract';
+import { type DraftSource, buildDraftPrompt, parseDraftRequest, streamDraft } from './worker/drafts';
+import {
+	AI_RATE_LIMIT,
+	GENERATE_RATE_LIMIT,
+	LOGIN_RATE_LIMIT,
+	RATE_LIMIT_RETENTION,
+	RECIPIENT_RATE_LIMIT,
+	SENDER_RATE_LIMIT,
+	clientIp,
+	consumeRateLimit,
+	senderRateLimitKey,
+} from './worker/ratelimit';
+import { MAX_ALIASES, parseLocalPart, parseRecipient, randomLocalPart } from './worker/addresses';
+import {
+	MAX_BLOCKED_SENDERS,
+	MAX_MESSAGE_BYTES,
+	REJECT_RECIPIENT_LIMIT,
+	REJECT_SENDER_LIMIT,
+	REJECT_TOO_LARGE,
+	blockedReason,
+	parseBlockPattern,
+} from './worker/abuse';
+import { formatAddress, isServedDomain, parseDomainName, primaryAddress, resolveDomain, servedDomains, storedDomain } from './worker/domains';
+import { authenticate, parseAuthservIds } from './worker/senderauth';
+import {
+	EVENT_TTL_SECONDS,
+	MAX_RETAINED_EVENTS,
+	type MailboxEvent,
+	PING_FRAME,
+	PONG_FRAME,
+	SESSION_ENDED_CLOSE,
+	type SocketState,
+	frame,
+	mailbox,
+	parseClientFrame,
+	updateEvent,
+} from './worker/protocol';
+import { DEFAULT_IDENTITY_TTL, DEFAULT_MESSAGE_TTL, MAX_IDENTITY_TTL, messageExpiry, now, purgeExpired, resolveTtl } from './worker/expiry';
 
 // --- Durable Object: Real-time Mailbox ---
 export class Mailbox extends DurableObject<Env> {
-	sessions = new Set<WebSocket>();
+	// Pending GET /api/wait long polls on this mailbox
+	waiters = new Set<{ filter: db.WaitFilter; settle: (email: db.EmailSummary | null) => void }>();
+
+	constructor(ctx: DurableObjectState, env: Env) {
+		super(ctx, env);
+		this.createEventLog();
+		// Heartbeats are answered without waking a hibernated object
+		ctx.setWebSocketAutoResponse(new WebSocketRequestResponsePair(PING_FRAME, PONG_FRAME));
+	}
+
+	// Event log in the object's own SQLite storage; `seq` is the cursor clients resume from
+	private createEventLog() {
+		this.ctx.storage.sql.exec(
+			'CREATE TABLE IF NOT EXISTS events (seq INTEGER PRIMARY KEY AUTOINCREMENT, type TEXT NOT NULL, payload TEXT NOT NULL, created_at INTEGER NOT NULL)'
+		);
+	}
 
 	async fetch(request: Request) {
-		if (request.url.endsWith('/websocket')) {
+		if (new URL(request.url).pathname.endsWith('/ws')) {
 			const upgradeHeader = request.headers.get('Upgrade');
 			if (!upgradeHeader || upgradeHeader !== 'websocket') {
 				return new Response('Expected Upgrade: websocket', { status: 426 });
 			}
 
+			// Re-check the session here so a socket can only ever attach to the caller's own mailbox
+			const token = readSessionToken(request);
+			const username = token ? await sessionUser(this.env, token) : null;
+			if (!username || !this.ctx.id.equals(this.env.MAILBOX_DO.idFromName(username))) {
+				return new Response('Unauthorized', { status: 401 });
+			}
+
 			const webSocketPair = new WebSocketPair();
 			const [client, server] = Object.values(webSocketPair);
 
+			// Sockets are tracked by the runtime (ctx.getWebSockets) and their state rides along as an
+			// attachment, so both survive hibernation
 			this.ctx.acceptWebSocket(server);
-			this.sessions.add(server);
+			server.serializeAttachment({ subscribed: false } satisfies SocketState);
 
 			return new Response(null, {
 				status: 101,
@@ -30,118 +159,959 @@ export class Mailbox extends DurableObject<Env> {
 		return new Response('Mailbox DO Active', { status: 200 });
 	}
 
-	async webSocketMessage(ws: WebSocket, message: string) {
-		// Handle client messages if needed (e.g. "ping")
+	async webSocketMessage(ws: WebSocket, message: string | ArrayBuffer) {
+		const parsed = parseClientFrame(message);
+		if ('error' in parsed) {
+			ws.send(frame({ type: 'error', message: parsed.error }));
+			return;
+		}
+		if (parsed.type === 'ping') {
+			ws.send(frame({ type: 'pong', id: parsed.id }));
+			return;
+		}
+
+		ws.serializeAttachment({ subscribed: true } satisfies SocketState);
+		this.replay(ws, parsed.cursor);
+	}
+
+	async webSocketClose(ws: WebSocket, code: number, reason: string) {
+		try {
+			ws.close(code, reason);
+		} catch {
+			// Already closed from this side
+		}
 	}
 
-	async webSocketClose(ws: WebSocket) {
-		this.sessions.delete(ws);
+	// Sends the events a client missed since `cursor`. Runs synchronously, so nothing published
+	// in the meantime can slip between the replay and the live stream.
+	private replay(ws: WebSocket, cursor: number | null) {
+		const sql = this.ctx.storage.sql;
+		const { oldest, latest } = sql.exec<{ oldest: number | null; latest: number | null }>('SELECT MIN(seq) AS oldest, MAX(seq) AS latest FROM events').one();
+		const head = latest ?? 0;
+		if (cursor === null) {
+			ws.send(frame({ type: 'subscribed', cursor: head, replayed: 0 }));
+			return;
+		}
+		// Older than the retained log, or from before the log was reset
+		if (cursor > head || (oldest !== null && cursor < oldest - 1) || (oldest === null && cursor > 0)) {
+			ws.send(frame({ type: 'resync', cursor: head }));
+			return;
+		}
+
+		const rows = sql.exec<{ seq: number; payload: string; created_at: number }>('SELECT seq, payload, created_at FROM events WHERE seq > ? ORDER BY seq', cursor).toArray();
+		for (const row of rows) ws.send(frame({ type: 'event', seq: row.seq, at: row.created_at, event: JSON.parse(row.payload) }));
+		ws.send(frame({ type: 'subscribed', cursor: head, replayed: rows.length }));
 	}
 
-	// Method called by the Worker when new email arrives
-	async broadcastEmail(emailData: any) {
-		const message = JSON.stringify({ type: 'NEW_EMAIL', data: emailData });
-		this.ctx.getWebSockets().forEach((ws) => {
+	// Records an event and pushes it to every socket of the mailbox
+	async publish(event: MailboxEvent) {
+		const sql = this.ctx.storage.sql;
+		const at = now();
+		const { seq } = sql
+			.exec<{ seq: number }>('INSERT INTO events (type, payload, created_at) VALUES (?, ?, ?) RETURNING seq', event.type, JSON.stringify(event), at)
+			.one();
+		// The newest row always stays so cursors keep counting up from it
+		sql.exec('DELETE FROM events WHERE seq < ? AND (seq <= ? OR created_at < ?)', seq, seq - MAX_RETAINED_EVENTS, at - EVENT_TTL_SECONDS);
+
+		const message = frame({ type: 'event', seq, at, event });
+		const legacy = event.type === 'email.created' ? JSON.stringify({ type: 'NEW_EMAIL', data: event.email }) : null;
+		for (const ws of this.ctx.getWebSockets()) {
+			const state = ws.deserializeAttachment() as SocketState | null;
 			try {
-				ws.send(message);
+				if (state?.subscribed) ws.send(message);
+				else if (legacy) ws.send(legacy);
 			} catch (e) {
 				// Handle disconnected sockets
 			}
+		}
+	}
+
+	// Resolves with the first matching message, or null once the timeout passes. The waiter is
+	// registered before D1 is checked, so mail stored in between is caught by one or the other;
+	// the clock starts after the check so `timeout=0` still returns an existing match.
+	async waitForEmail(username: string, filter: db.WaitFilter, timeoutMs: number) {
+		return new Promise<db.EmailSummary | null>((resolve) => {
+			let timer: ReturnType<typeof setTimeout> | undefined;
+			const waiter = {
+				filter,
+				settle: (email: db.EmailSummary | null) => {
+					clearTimeout(timer);
+					this.waiters.delete(waiter);
+					resolve(email);
+				},
+			};
+			this.waiters.add(waiter);
+			db.findWaitMatch(this.env.DB, username, filter)
+				.catch((e) => {
+					console.error('Wait lookup error:', e);
+					return null;
+				})
+				.then((email) => {
+					if (email) waiter.settle(email);
+					else if (this.waiters.has(waiter)) timer = setTimeout(() => waiter.settle(null), timeoutMs);
+				});
 		});
 	}
+
+	// Called when a message is stored, incoming or sent
+	async broadcastEmail(emailData: db.EmailSummary) {
+		for (const waiter of this.waiters) {
+			if (matchesWait(waiter.filter, emailData)) waiter.settle(emailData);
+		}
+		await this.publish({ type: 'email.created', email: emailData });
+	}
+
+	async updateEmails(username: string, ids: string[], update: MessageUpdate) {
+		if (ids.length === 0) return;
+		await applyMessageUpdate(this.env.DB, username, ids, update);
+		await this.publish(updateEvent(ids, update));
+	}
+
+	// Closes every socket once the sessions they were opened under have ended
+	async disconnect() {
+		for (const ws of this.ctx.getWebSockets()) {
+			try {
+				ws.close(SESSION_ENDED_CLOSE, 'Session ended');
+			} catch {
+				// Already closed
+			}
+		}
+	}
+
+	// Called when the identity is purged: whoever claims the name next starts with no sockets, waiters or
+	// event history from the previous owner, and its cursors count up from 0 again
+	async reset() {
+		await this.disconnect();
+		for (const waiter of this.waiters) waiter.settle(null);
+		await this.ctx.storage.deleteAll();
+		this.createEventLog();
+	}
+
+	async deleteEmails(emails: db.StoredEmailKeys[]) {
+		if (emails.length === 0) return;
+		await deleteStoredEmails(this.env, emails);
+		await this.publish({ type: 'email.deleted', ids: emails.map((e) => e.id) });
+	}
 }
 
 // --- Hono API ---
-const app = new Hono<{ Bindings: Env }>();
+const app = new Hono<AppEnv>();
 
 app.use('/api/*', cors());
+// Early answers (401s, rate limits) leave the request body unread; draining it here stops the
+// runtime from trying to read it after the response has been sent
+app.use('/api/*', async (c, next) => {
+	await next();
+	if (c.req.raw.body && !c.req.raw.bodyUsed) await c.req.raw.arrayBuffer();
+});
+app.use('/api/*', except(['/api/generate', '/api/login', '/api/addresses/available', '/api/domains', '/api/admin/*'], requireAuth));
+app.use('/api/admin/*', requireAdmin);
 
 // 1. Generate New Identity
+// `username` optionally claims a chosen local part, otherwise a random one is picked; `domain`
+// picks one of the served domains (default: the DOMAIN var)
 app.post('/api/generate', async (c) => {
-	const username = Math.random().toString(36).substring(2, 10);
-	const password = crypto.randomUUID().substring(0, 12); // Stronger auto-gen password
-	const address = `${username}@${c.env.DOMAIN}`;
+	const ip = clientIp(c.req.raw);
+	const retryAfter = ip ? await consumeRateLimit(c.env.DB, `generate:${ip}`, GENERATE_RATE_LIMIT) : 0;
+	if (retryAfter) return rateLimited(c, retryAfter, 'Too many identities created from your network, try again later');
 
-	await c.env.DB.prepare('INSERT INTO users (username, password) VALUES (?, ?)')
-		.bind(username, password)
-		.run();
+	const { ttlHours, messageTtlHours, username: requested, domain: requestedDomain } = await c.req.json().catch(() => ({}));
+	const domain = await resolveDomain(c.env, requestedDomain);
+	if (typeof domain !== 'string') return apiError(c, 400, 'INVALID_REQUEST', domain.error);
 
-	return c.json({ username, address, password });
+	let username: string;
+	if (requested === undefined || requested === null || requested === '') {
+		// Random names can land on a claimed alias, so look for a free one
+		do username = randomLocalPart();
+		while (await db.getAddress(c.env.DB, username));
+	} else {
+		const chosen = parseLocalPart(requested);
+		if (typeof chosen !== 'string') return apiError(c, 400, 'INVALID_ADDRESS', chosen.error);
+		if (await db.getAddress(c.env.DB, chosen)) return apiError(c, 409, 'ADDRESS_TAKEN', 'That address is already taken');
+		username = chosen;
+	}
+	const password = generatePassword();
+	const address = `${username}@${domain}`;
+	const expires_at = now() + resolveTtl(ttlHours, DEFAULT_IDENTITY_TTL);
+	const session_key = generateSessionKey();
+
+	const created = await db.createUser(c.env.DB, {
+		username,
+		password: await hashPassword(password),
+		expires_at,
+		message_ttl: resolveTtl(messageTtlHours, DEFAULT_MESSAGE_TTL),
+		session_key,
+	}, storedDomain(c.env, domain));
+	// A concurrent claim of the same name can pass the check above first
+	if (!created) return apiError(c, 409, 'ADDRESS_TAKEN', 'That address is already taken');
+
+	const token = await issueSessionToken(c.env, username, session_key);
+	return c.json({ username, address, password, token, expires_at });
 });
 
 // 2. Login (for returning users)
 app.post('/api/login', async (c) => {
+	const ip = clientIp(c.req.raw);
+	const retryAfter = ip ? await consumeRateLimit(c.env.DB, `login:${ip}`, LOGIN_RATE_LIMIT) : 0;
+	if (retryAfter) return rateLimited(c, retryAfter, 'Too many login attempts, try again later');
+
 	const { username, password } = await c.req.json();
-	const user = await c.env.DB.prepare('SELECT * FROM users WHERE username = ? AND password = ?')
-		.bind(username, password)
-		.first();
+	const stored = typeof username === 'string' ? await db.getPasswordHash(c.env.DB, username) : null;
 
-	if (!user) return c.json({ error: 'Invalid credentials' }, 401);
-	return c.json({ success: true, username, address: `${username}@${c.env.DOMAIN}` });
+	// Unknown names are hashed too, so they take as long to refuse as a wrong password
+	const check = typeof password === 'string' ? await verifyPassword(stored ?? DUMMY_PASSWORD_HASH, password) : null;
+	if (!stored || !check?.valid) return c.json({ error: 'Invalid credentials' }, 401);
+
+	// Upgrade legacy plaintext rows now that we know the password
+	if (check.needsRehash) {
+		await db.setPasswordHash(c.env.DB, username, await hashPassword(password));
+	}
+
+	const user = await db.getActiveUser(c.env.DB, username, now());
+	if (!user) return c.json({ error: 'Identity has expired' }, 410);
+
+	const token = await issueSessionToken(c.env, username, user.session_key);
+	const address = await primaryAddress(c.env, username);
+	return c.json({ success: true, username, address, token, expires_at: user.expires_at });
 });
 
-// 3. List Emails
+// 3. Change Password
+// Ends every other session of the user; the caller carries on with the token in the response
+app.post('/api/password', async (c) => {
+	const username = c.get('username');
+	const { currentPassword, newPassword } = await c.req.json();
+
+	if (typeof newPassword !== 'string' || newPassword.length < MIN_PASSWORD_LENGTH) {
+		return c.json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` }, 400);
+	}
+
+	const stored = await db.getPasswordHash(c.env.DB, username);
+	const check = stored && typeof currentPassword === 'string' ? await verifyPassword(stored, currentPassword) : null;
+	if (!check?.valid) return c.json({ error: 'Current password is incorrect' }, 403);
+
+	await db.setPasswordHash(c.env.DB, username, await hashPassword(newPassword));
+	const token = await resetSessions(c.env, username);
+	await mailbox(c.env, username).disconnect();
+	return c.json({ success: true, token });
+});
+
+// 4. Rotate to a fresh auto-generated password
+// Like a password change, this ends the other sessions and hands back a new token
+app.post('/api/password/rotate', async (c) => {
+	const username = c.get('username');
+	const password = generatePassword();
+
+	await db.setPasswordHash(c.env.DB, username, await hashPassword(password));
+	const token = await resetSessions(c.env, username);
+	await mailbox(c.env, username).disconnect();
+	return c.json({ password, token });
+});
+
+// 5. Extend Identity Expiry
+app.post('/api/expiry', async (c) => {
+	const username = c.get('username');
+	const { hours } = await c.req.json().catch(() => ({}));
+
+	const user = await db.getActiveUser(c.env.DB, username, now());
+	if (!user) return c.json({ error: 'Identity has expired' }, 410);
+	// Identities created before expiry existed never expire; leave them alone
+	if (user.expires_at === null) return c.json({ expires_at: null });
+
+	const expires_at = Math.min(user.expires_at + resolveTtl(hours, DEFAULT_IDENTITY_TTL), now() + MAX_IDENTITY_TTL);
+	await db.setUserExpiry(c.env.DB, username, expires_at);
+	return c.json({ expires_at });
+});
+
+// 6. List Emails
 app.get('/api/emails/:username', async (c) => {
 	const username = c.req.param('username');
-	const { results } = await c.env.DB.prepare(
-		'SELECT id, sender, subject, snippet, has_attachments, is_read, ai_summary, created_at FROM emails WHERE username = ? ORDER BY created_at DESC'
-	)
-		.bind(username)
-		.all();
-	return c.json(results);
+	if (username !== c.get('username')) return c.json({ error: 'Forbidden' }, 403);
+
+	const query = c.req.query();
+	const parsed = parseListQuery(query);
+	if ('error' in parsed) return apiError(c, 400, 'INVALID_REQUEST', parsed.error);
+	const { options } = parsed;
+
+	// Clients from before pagination send neither cursor nor limit and read a bare array; they keep that shape
+	// and get the newest rows
+	if (query.cursor === undefined && query.limit === undefined) {
+		return c.json(await db.listEmails(c.env.DB, username, { ...options, limit: MAX_PAGE_SIZE }));
+	}
+
+	// One extra row tells us whether another page exists without a COUNT query
+	const rows = await db.listEmails(c.env.DB, username, { ...options, limit: options.limit + 1 });
+	const emails = rows.slice(0, options.limit);
+	const next_cursor = rows.length > options.limit ? encodeCursor(emails[emails.length - 1]) : null;
+	return c.json({ emails, next_cursor });
+});
+
+// 7. Search Emails
+app.get('/api/search', async (c) => {
+	const match = buildMatchQuery(c.req.query('q') || '');
+	if (!match) return apiError(c, 400, 'INVALID_REQUEST', 'Search query is required');
+
+	const limit = Math.min(Math.max(Number(c.req.query('limit')) || DEFAULT_SEARCH_LIMIT, 1), MAX_SEARCH_LIMIT);
+	const offset = Math.max(Number(c.req.query('offset')) || 0, 0);
+	const results = await db.searchEmails(c.env.DB, c.get('username'), match, { limit, offset, markers: [HIGHLIGHT_START, HIGHLIGHT_END] });
+	return c.json({ results });
 });
 
-// 4. Get Email Detail
+// 8. Get Conversation Thread
+app.get('/api/threads/:threadId', async (c) => {
+	const messages = await db.listThread(c.env.DB, c.get('username'), c.req.param('threadId'));
+	if (messages.length === 0) return c.json({ error: 'Not found' }, 404);
+	return c.json(messages);
+});
+
+// 9. Get Email Detail
 app.get('/api/email/:id', async (c) => {
 	const id = c.req.param('id');
-	const meta = await c.env.DB.prepare('SELECT * FROM emails WHERE id = ?').bind(id).first();
-	
+	const meta = await db.getEmail(c.env.DB, id, c.get('username'));
+
 	if (!meta) return c.json({ error: 'Not found' }, 404);
 
 	// Mark as read
 	if (!meta.is_read) {
-		await c.env.DB.prepare('UPDATE emails SET is_read = 1 WHERE id = ?').bind(id).run();
+		await mailbox(c.env, meta.username).updateEmails(meta.username, [id], { changes: { is_read: 1 }, addLabels: [], removeLabels: [] });
 	}
 
 	// Fetch raw content from R2
 	let content = "";
 	if (meta.raw_r2_key) {
-		const obj = await c.env.MAIL_STORAGE.get(meta.raw_r2_key as string);
+		const obj = await c.env.MAIL_STORAGE.get(meta.raw_r2_key);
 		if (obj) content = await obj.text();
 	}
 
-	return c.json({ ...meta, raw_content: content });
+	const attachments = await db.listAttachments(c.env.DB, id);
+	return c.json({
+		...meta,
+		ai_reasons: meta.ai_reasons ? JSON.parse(meta.ai_reasons) : [],
+		ai_entities: meta.ai_entities ? JSON.parse(meta.ai_entities) : null,
+		auth_results: meta.auth_results ? JSON.parse(meta.auth_results) : null,
+		raw_content: content,
+		attachments,
+	});
+});
+
+// 10. Update Email (read/star/archive/labels)
+app.patch('/api/email/:id', async (c) => {
+	const username = c.get('username');
+	const id = c.req.param('id');
+	const update = parseMessageUpdate(await c.req.json().catch(() => ({})));
+	if ('error' in update) return apiError(c, 400, 'INVALID_REQUEST', update.error);
+	if (!(await db.getEmail(c.env.DB, id, username))) return apiError(c, 404, 'NOT_FOUND', 'Not found');
+
+	await mailbox(c.env, username).updateEmails(username, [id], update);
+	return c.json({ email: await db.getEmailSummary(c.env.DB, id) });
+});
+
+// 11. Delete Email (D1 rows and R2 objects)
+app.delete('/api/email/:id', async (c) => {
+	const owned = await db.listOwnedEmails(c.env.DB, c.get('username'), [c.req.param('id')]);
+	if (owned.length === 0) return apiError(c, 404, 'NOT_FOUND', 'Not found');
+
+	await mailbox(c.env, c.get('username')).deleteEmails(owned);
+	return c.json({ success: true });
+});
+
+// 12. Bulk Update
+// Ids that don't exist or belong to someone else are skipped; `updated` counts the rest
+app.patch('/api/emails', async (c) => {
+	const username = c.get('username');
+	const body = await c.req.json().catch(() => ({}));
+	const ids = parseIds(body.ids);
+	if (!Array.isArray(ids)) return apiError(c, 400, 'INVALID_REQUEST', ids.error);
+	const update = parseMessageUpdate(body);
+	if ('error' in update) return apiError(c, 400, 'INVALID_REQUEST', update.error);
+
+	const owned = (await db.listOwnedEmails(c.env.DB, username, ids)).map((e) => e.id);
+	await mailbox(c.env, username).updateEmails(username, owned, update);
+	return c.json({ updated: owned.length });
+});
+
+// 13. Bulk Delete
+app.delete('/api/emails', async (c) => {
+	const body = await c.req.json().catch(() => ({}));
+	const ids = parseIds(body.ids);
+	if (!Array.isArray(ids)) return apiError(c, 400, 'INVALID_REQUEST', ids.error);
+
+	const username = c.get('username');
+	const owned = await db.listOwnedEmails(c.env.DB, username, ids);
+	await mailbox(c.env, username).deleteEmails(owned);
+	return c.json({ deleted: owned.length });
 });
 
-// 5. Reply to Email
+// 14. Download Attachment
+app.get('/api/email/:id/attachments/:n', async (c) => {
+	const id = c.req.param('id');
+	const meta = await db.getEmail(c.env.DB, id, c.get('username'));
+	const attachment = meta ? await db.getAttachment(c.env.DB, id, Number(c.req.param('n'))) : null;
+	if (!attachment) return c.json({ error: 'Not found' }, 404);
+
+	const obj = await c.env.MAIL_STORAGE.get(attachment.r2_key);
+	if (!obj) return c.json({ error: 'Not found' }, 404);
+
+	// `?inline=1` lets the HTML viewer render images; everything else is forced to download
+	const disposition = c.req.query('inline') ? 'inline' : 'attachment';
+	return new Response(obj.body, {
+		headers: {
+			'Content-Type': attachment.content_type,
+			'Content-Length': String(attachment.size),
+			'Content-Disposition': contentDisposition(disposition, attachment.filename),
+			'X-Content-Type-Options': 'nosniff',
+			'Content-Security-Policy': "sandbox; default-src 'none'",
+			'Cache-Control': 'private, max-age=3600',
+		},
+	});
+});
+
+// 15. Download Raw Message
+// The original RFC 822 message as received (or as sent); mail stored before raw archival has none
+app.get('/api/email/:id/raw', async (c) => {
+	const id = c.req.param('id');
+	const meta = await db.getEmail(c.env.DB, id, c.get('username'));
+	const obj = meta?.eml_r2_key ? await c.env.MAIL_STORAGE.get(meta.eml_r2_key) : null;
+	if (!obj) return apiError(c, 404, 'NOT_FOUND', 'Not found');
+
+	return new Response(obj.body, {
+		headers: {
+			'Content-Type': 'message/rfc822',
+			'Content-Length': String(obj.size),
+			'Content-Disposition': contentDisposition('attachment', `${id}.eml`),
+			'X-Content-Type-Options': 'nosniff',
+			'Content-Security-Policy': "sandbox; default-src 'none'",
+			'Cache-Control': 'private, max-age=3600',
+		},
+	});
+});
+
+// 16. Reply to Email
 app.post('/api/reply', async (c) => {
-	const { username, replyTo, subject, body } = await c.req.json();
-	
-	const msg = createMimeMessage();
-	msg.setSender({ name: username, addr: `${username}@${c.env.DOMAIN}` });
-	msg.setRecipient(replyTo);
-	msg.setSubject(`Re: ${subject}`);
-	msg.addMessage({ contentType: 'text/plain', data: body });
-
-	const emailMessage = new EmailMessage(
-		`${username}@${c.env.DOMAIN}`,
-		replyTo,
-		msg.asRaw()
+	const username = c.get('username');
+	const { emailId, body } = await c.req.json();
+
+	if (typeof body !== 'string' || !body.trim()) return apiError(c, 400, 'EMPTY_BODY', 'Reply body is required');
+
+	const original = typeof emailId === 'string' ? await db.getEmail(c.env.DB, emailId, username) : null;
+	if (!original) return apiError(c, 404, 'NOT_FOUND', 'Not found');
+
+	// Thread headers come from the parsed original, not from the client
+	let parsed: StoredEmail | null = null;
+	if (original.raw_r2_key) {
+		const obj = await c.env.MAIL_STORAGE.get(original.raw_r2_key);
+		if (obj) parsed = await obj.json<StoredEmail>();
+	}
+
+	// From the address the original arrived on (or was sent from), so the conversation stays on it
+	const from = original.delivered_to ?? (await primaryAddress(c.env, username));
+	// Replying to one of our own sent messages continues the conversation with its recipient
+	const replyTo =
+		original.folder === 'sent' && original.recipient
+			? original.recipient.split(', ')[0]
+			: parsed?.replyTo?.[0]?.address || original.sender;
+	const { inReplyTo, references } = parsed ? replyHeaders(parsed) : {};
+	const reply: SentEmail = {
+		username,
+		from,
+		to: [replyTo],
+		subject: replySubject(original.subject),
+		text: body,
+		messageId: newMessageId(from.split('@')[1]),
+		inReplyTo,
+		references,
+		threadId: original.thread_id,
+	};
+
+	const raw = buildMimeMessage(reply);
+	const failed = await deliverMessage(c.env.EMAIL_SENDER, from, reply.to, raw);
+	if (failed.length > 0) return apiError(c, 502, 'SEND_FAILED', 'The reply could not be sent', { failed });
+
+	const id = await saveSentEmail(c.env, reply, raw);
+	return c.json({ success: true, id });
+});
+
+// 17. Compose New Email
+// Accepts JSON or multipart/form-data; attachments are only possible with the latter
+app.post('/api/send', async (c) => {
+	const username = c.get('username');
+
+	let fields: Record<string, unknown>;
+	let files: File[] = [];
+	try {
+		if ((c.req.header('Content-Type') || '').startsWith('multipart/form-data')) {
+			fields = await c.req.parseBody({ all: true });
+			files = [fields.attachments].flat().filter((f): f is File => f instanceof File);
+		} else {
+			fields = await c.req.json();
+		}
+	} catch {
+		return apiError(c, 400, 'INVALID_REQUEST', 'Expected a JSON or multipart/form-data body');
+	}
+
+	const to = parseAddressList(fields.to);
+	const cc = parseAddressList(fields.cc);
+	const bcc = parseAddressList(fields.bcc);
+	const recipients = [...new Set([...to, ...cc, ...bcc])];
+	if (recipients.length === 0) return apiError(c, 400, 'NO_RECIPIENTS', 'At least one recipient is required');
+
+	const invalid = recipients.filter((address) => !isValidAddress(address));
+	if (invalid.length > 0) return apiError(c, 400, 'INVALID_RECIPIENT', 'Some recipient addresses are invalid', { addresses: invalid });
+	if (recipients.length > MAX_RECIPIENTS) {
+		return apiError(c, 400, 'TOO_MANY_RECIPIENTS', `At most ${MAX_RECIPIENTS} recipients are allowed`);
+	}
+
+	const text = typeof fields.text === 'string' ? fields.text : '';
+	const html = typeof fields.html === 'string' && fields.html.trim() ? fields.html : undefined;
+	if (!text.trim()) return apiError(c, 400, 'EMPTY_BODY', 'Message body is required');
+
+	if (files.reduce((total, f) => total + f.size, 0) > MAX_ATTACHMENT_BYTES) {
+		return apiError(c, 413, 'ATTACHMENTS_TOO_LARGE', `Attachments may total at most ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB`);
+	}
+
+	const from = await primaryAddress(c.env, username);
+	const subject = typeof fields.subject === 'string' && fields.subject.trim() ? fields.subject.trim() : '(No Subject)';
+	const message: SentEmail = {
+		username,
+		from,
+		to,
+		cc,
+		bcc,
+		subject,
+		text,
+		html,
+		attachments: await Promise.all(
+			files.map(async (f) => ({ filename: f.name || 'attachment', contentType: f.type, content: await f.arrayBuffer() }))
+		),
+		messageId: newMessageId(from.split('@')[1]),
+	};
+
+	let raw: string;
+	try {
+		raw = buildMimeMessage(message);
+	} catch (e) {
+		console.error('Compose failed:', e);
+		return apiError(c, 400, 'INVALID_ATTACHMENT', 'An attachment could not be encoded');
+	}
+
+	const failed = await deliverMessage(c.env.EMAIL_SENDER, from, recipients, raw);
+	if (failed.length === recipients.length) return apiError(c, 502, 'SEND_FAILED', 'The message could not be sent', { failed });
+
+	// Partial delivery still keeps a Sent copy; the caller learns which addresses bounced
+	const id = await saveSentEmail(c.env, message, raw);
+	return c.json({ success: true, id, failed });
+});
+
+// 18. Folder and Label Counts
+app.get('/api/counts', async (c) => {
+	const username = c.get('username');
+	const [folders, labels] = await Promise.all([db.folderCounts(c.env.DB, username), db.listLabels(c.env.DB, username)]);
+	return c.json({ folders, labels });
+});
+
+// 19. Labels
+app.get('/api/labels', async (c) => {
+	return c.json({ labels: await db.listLabels(c.env.DB, c.get('username')) });
+});
+
+app.post('/api/labels', async (c) => {
+	const username = c.get('username');
+	const input = parseLabelInput(await c.req.json().catch(() => ({})));
+	if ('error' in input) return apiError(c, 400, 'INVALID_REQUEST', input.error);
+	if (await db.getLabelByName(c.env.DB, username, input.name!)) return apiError(c, 409, 'LABEL_EXISTS', 'A label with that name already exists');
+
+	const label = { id: crypto.randomUUID(), username, name: input.name!, color: input.color ?? 'slate' };
+	await db.createLabel(c.env.DB, label);
+	return c.json({ label: { id: label.id, name: label.name, color: label.color } }, 201);
+});
+
+app.patch('/api/labels/:id', async (c) => {
+	const username = c.get('username');
+	const input = parseLabelInput(await c.req.json().catch(() => ({})), true);
+	if ('error' in input) return apiError(c, 400, 'INVALID_REQUEST', input.error);
+	const existing = input.name ? await db.getLabelByName(c.env.DB, username, input.name) : null;
+	if (existing && existing.id !== c.req.param('id')) return apiError(c, 409, 'LABEL_EXISTS', 'A label with that name already exists');
+
+	if (!(await db.updateLabel(c.env.DB, username, c.req.param('id'), input))) return apiError(c, 404, 'NOT_FOUND', 'Not found');
+	return c.json({ success: true });
+});
+
+// Removes the label from every message; the messages themselves stay
+app.delete('/api/labels/:id', async (c) => {
+	if (!(await db.deleteLabel(c.env.DB, c.get('username'), c.req.param('id')))) return apiError(c, 404, 'NOT_FOUND', 'Not found');
+	return c.json({ success: true });
+});
+
+// 20. Rules
+// Applied in creation order to every incoming message, before it's stored and pushed to clients
+app.get('/api/rules', async (c) => {
+	return c.json({ rules: (await db.listRules(c.env.DB, c.get('username'))).map(toRule) });
+});
+
+app.post('/api/rules', async (c) => {
+	const username = c.get('username');
+	const input = parseRuleInput(await c.req.json().catch(() => ({})));
+	if ('error' in input) return apiError(c, 400, 'INVALID_REQUEST', input.error);
+	if (input.actions!.label && !(await db.getLabel(c.env.DB, username, input.actions!.label))) {
+		return apiError(c, 400, 'INVALID_REQUEST', 'actions.label is not one of your labels');
+	}
+	if (input.actions!.webhook && !(await db.getWebhook(c.env.DB, username, input.actions!.webhook))) {
+		return apiError(c, 400, 'INVALID_REQUEST', 'actions.webhook is not one of your webhooks');
+	}
+	if ((await db.countRules(c.env.DB, username)) >= MAX_RULES) return apiError(c, 400, 'INVALID_REQUEST', `At most ${MAX_RULES} rules are allowed`);
+
+	const id = crypto.randomUUID();
+	await db.createRule(c.env.DB, {
+		id,
+		username,
+		name: input.name!,
+		enabled: input.enabled === false ? 0 : 1,
+		conditions: JSON.stringify(input.conditions),
+		actions: JSON.stringify(input.actions),
+	});
+	return c.json({ rule: toRule((await db.getRule(c.env.DB, username, id))!) }, 201);
+});
+
+// Tests conditions against the newest stored messages without saving anything
+app.post('/api/rules/dry-run', async (c) => {
+	const body = await c.req.json().catch(() => ({}));
+	const conditions = parseRuleConditions(body.conditions);
+	if ('error' in conditions) return apiError(c, 400, 'INVALID_REQUEST', conditions.error);
+
+	const candidates = await db.listRuleCandidates(c.env.DB, c.get('username'), DRY_RUN_SCAN);
+	const matches = candidates.filter((email) =>
+		matchesRule(conditions, {
+			sender: email.sender,
+			subject: email.subject,
+			has_attachments: !!email.has_attachments,
+			category: email.ai_category,
+			auth: email.auth_status,
+		})
 	);
+	return c.json({ scanned: candidates.length, matched: matches.length, emails: matches.slice(0, DRY_RUN_RESULTS) });
+});
+
+app.patch('/api/rules/:id', async (c) => {
+	const username = c.get('username');
+	const input = parseRuleInput(await c.req.json().catch(() => ({})), true);
+	if ('error' in input) return apiError(c, 400, 'INVALID_REQUEST', input.error);
+	if (input.actions?.label && !(await db.getLabel(c.env.DB, username, input.actions.label))) {
+		return apiError(c, 400, 'INVALID_REQUEST', 'actions.label is not one of your labels');
+	}
+	if (input.actions?.webhook && !(await db.getWebhook(c.env.DB, username, input.actions.webhook))) {
+		return apiError(c, 400, 'INVALID_REQUEST', 'actions.webhook is not one of your webhooks');
+	}
+
+	const updated = await db.updateRule(c.env.DB, username, c.req.param('id'), {
+		name: input.name,
+		enabled: input.enabled === undefined ? undefined : input.enabled ? 1 : 0,
+		conditions: input.conditions && JSON.stringify(input.conditions),
+		actions: input.actions && JSON.stringify(input.actions),
+	});
+	if (!updated) return apiError(c, 404, 'NOT_FOUND', 'Not found');
+	return c.json({ rule: toRule((await db.getRule(c.env.DB, username, c.req.param('id')))!) });
+});
+
+app.delete('/api/rules/:id', async (c) => {
+	if (!(await db.deleteRule(c.env.DB, c.get('username'), c.req.param('id')))) return apiError(c, 404, 'NOT_FOUND', 'Not found');
+	return c.json({ success: true });
+});
+
+// 21. Webhooks
+// Every stored incoming message is POSTed, signed, to each enabled webhook of the mailbox, except those
+// marked `rules_only`, which only get the rule.matched events of rules that name them
+app.get('/api/webhooks', async (c) => {
+	return c.json({ webhooks: await db.listWebhooks(c.env.DB, c.get('username')) });
+});
+
+app.post('/api/webhooks', async (c) => {
+	const username = c.get('username');
+	const body = await c.req.json().catch(() => ({}));
+	const url = parseWebhookUrl(body.url);
+	if (typeof url !== 'string') return apiError(c, 400, 'INVALID_REQUEST', url.error);
+	if (body.rules_only !== undefined && typeof body.rules_only !== 'boolean') return apiError(c, 400, 'INVALID_REQUEST', 'rules_only must be a boolean');
+	if ((await db.countWebhooks(c.env.DB, username)) >= MAX_WEBHOOKS) {
+		return apiError(c, 400, 'INVALID_REQUEST', `At most ${MAX_WEBHOOKS} webhooks are allowed`);
+	}
+
+	const webhook = { id: crypto.randomUUID(), username, url, secret: generateSecret(), rules_only: body.rules_only ? 1 : 0 };
+	await db.createWebhook(c.env.DB, webhook);
+	// The only response that includes the secret
+	return c.json({ webhook: { id: webhook.id, url, enabled: 1, rules_only: webhook.rules_only, secret: webhook.secret } }, 201);
+});
+
+app.patch('/api/webhooks/:id', async (c) => {
+	const body = await c.req.json().catch(() => ({}));
+	const changes: { url?: string; enabled?: number; rules_only?: number } = {};
+	if (body.url !== undefined) {
+		const url = parseWebhookUrl(body.url);
+		if (typeof url !== 'string') return apiError(c, 400, 'INVALID_REQUEST', url.error);
+		changes.url = url;
+	}
+	if (body.enabled !== undefined) {
+		if (typeof body.enabled !== 'boolean') return apiError(c, 400, 'INVALID_REQUEST', 'enabled must be a boolean');
+		changes.enabled = body.enabled ? 1 : 0;
+	}
+	if (body.rules_only !== undefined) {
+		if (typeof body.rules_only !== 'boolean') return apiError(c, 400, 'INVALID_REQUEST', 'rules_only must be a boolean');
+		changes.rules_only = body.rules_only ? 1 : 0;
+	}
+	if (Object.keys(changes).length === 0) return apiError(c, 400, 'INVALID_REQUEST', 'Nothing to update');
+
+	if (!(await db.updateWebhook(c.env.DB, c.get('username'), c.req.param('id'), changes))) return apiError(c, 404, 'NOT_FOUND', 'Not found');
+	return c.json({ success: true });
+});
+
+app.delete('/api/webhooks/:id', async (c) => {
+	if (!(await db.deleteWebhook(c.env.DB, c.get('username'), c.req.param('id')))) return apiError(c, 404, 'NOT_FOUND', 'Not found');
+	return c.json({ success: true });
+});
+
+// Queues a `webhook.test` event, handy for checking a receiver's signature verification
+app.post('/api/webhooks/:id/test', async (c) => {
+	const username = c.get('username');
+	const webhook = await db.getWebhook(c.env.DB, username, c.req.param('id'));
+	if (!webhook) return apiError(c, 404, 'NOT_FOUND', 'Not found');
+
+	let deliveryId = '';
+	const mailbox = await primaryAddress(c.env, username);
+	await enqueueDeliveries(c.env, [webhook], (id) => {
+		deliveryId = id;
+		return { id, event: 'webhook.test', created_at: now(), mailbox };
+	});
+	return c.json({ delivery_id: deliveryId }, 202);
+});
+
+// Newest first; `payload` is the exact JSON body that was (or will be) sent
+app.get('/api/webhooks/:id/deliveries', async (c) => {
+	const webhook = await db.getWebhook(c.env.DB, c.get('username'), c.req.param('id'));
+	if (!webhook) return apiError(c, 404, 'NOT_FOUND', 'Not found');
+
+	const requested = Number(c.req.query('limit') ?? DEFAULT_DELIVERY_LIMIT);
+	const limit = Number.isInteger(requested) && requested > 0 ? Math.min(requested, MAX_DELIVERY_LIMIT) : DEFAULT_DELIVERY_LIMIT;
+	const deliveries = await db.listDeliveries(c.env.DB, webhook.id, limit);
+	return c.json({ deliveries: deliveries.map((d) => ({ ...d, payload: JSON.parse(d.payload) })) });
+});
+
+// 22. API Keys
+// Long-lived bearer tokens for scripts and CI; they authenticate every route a session token does
+app.get('/api/keys', async (c) => {
+	return c.json({ keys: await db.listApiKeys(c.env.DB, c.get('username')) });
+});
+
+app.post('/api/keys', async (c) => {
+	const username = c.get('username');
+	const body = await c.req.json().catch(() => ({}));
+	const name = typeof body.name === 'string' ? body.name.trim() : '';
+	if (!name || name.length > 100) return apiError(c, 400, 'INVALID_REQUEST', 'name must be 1-100 characters');
+	if ((await db.countApiKeys(c.env.DB, username)) >= MAX_API_KEYS) {
+		return apiError(c, 400, 'INVALID_REQUEST', `At most ${MAX_API_KEYS} API keys are allowed`);
+	}
+
+	const { key, prefix } = generateApiKey();
+	const id = crypto.randomUUID();
+	await db.createApiKey(c.env.DB, { id, username, name, prefix, key_hash: await hashApiKey(key) });
+	// Only the hash is stored, so this is the one chance to copy the key
+	return c.json({ key: { id, name, prefix, created_at: now(), last_used_at: null, key } }, 201);
+});
+
+app.delete('/api/keys/:id', async (c) => {
+	if (!(await db.deleteApiKey(c.env.DB, c.get('username'), c.req.param('id')))) return apiError(c, 404, 'NOT_FOUND', 'Not found');
+	return c.json({ success: true });
+});
+
+// 23. Addresses
+// Every account has its primary address (the username) and can add aliases, on any served domain;
+// all of them, and any `+tag` variant, deliver to the same mailbox
+app.get('/api/addresses/available', async (c) => {
+	const domain = await resolveDomain(c.env, c.req.query('domain'));
+	if (typeof domain !== 'string') return c.json({ available: false, reason: domain.error });
+	const local = parseLocalPart(c.req.query('local_part'));
+	if (typeof local !== 'string') return c.json({ available: false, reason: local.error });
+	const taken = !!(await db.getAddress(c.env.DB, local));
+	return c.json({
+		local_part: local,
+		address: `${local}@${domain}`,
+		available: !taken,
+		...(taken ? { reason: 'That address is already taken' } : {}),
+	});
+});
+
+app.get('/api/addresses', async (c) => {
+	const username = c.get('username');
+	const addresses = await db.listAddresses(c.env.DB, username);
+	return c.json({
+		addresses: addresses.map((a) => ({
+			local_part: a.local_part,
+			domain: a.domain ?? c.env.DOMAIN,
+			address: formatAddress(c.env, a.local_part, a.domain),
+			primary: a.local_part === username,
+			created_at: a.created_at,
+		})),
+	});
+});
+
+// `domain` defaults to the one the account's primary address is on
+app.post('/api/addresses', async (c) => {
+	const username = c.get('username');
+	const body = await c.req.json().catch(() => ({}));
+	const local = parseLocalPart(body.local_part);
+	if (typeof local !== 'string') return apiError(c, 400, 'INVALID_ADDRESS', local.error);
+	const domain = await resolveDomain(c.env, body.domain ?? (await db.getAddress(c.env.DB, username))?.domain);
+	if (typeof domain !== 'string') return apiError(c, 400, 'INVALID_REQUEST', domain.error);
+	if ((await db.countAliases(c.env.DB, username)) >= MAX_ALIASES) {
+		return apiError(c, 400, 'INVALID_REQUEST', `At most ${MAX_ALIASES} aliases are allowed`);
+	}
+	if (!(await db.createAddress(c.env.DB, username, local, storedDomain(c.env, domain)))) {
+		return apiError(c, 409, 'ADDRESS_TAKEN', 'That address is already taken');
+	}
+
+	return c.json({ address: { local_part: local, domain, address: `${local}@${domain}`, primary: false, created_at: now() } }, 201);
+});
+
+// A removed alias stops receiving mail at once and can be claimed by anyone again
+app.delete('/api/addresses/:localPart', async (c) => {
+	const username = c.get('username');
+	const local = c.req.param('localPart').toLowerCase();
+	if (local === username) return apiError(c, 400, 'INVALID_REQUEST', "The primary address can't be removed");
+	if (!(await db.deleteAddress(c.env.DB, username, local))) return apiError(c, 404, 'NOT_FOUND', 'Not found');
+	return c.json({ success: true });
+});
+
+// 24. Blocked Senders
+// Mail from a blocked address or domain is refused at ingest, with a reason the sending server sees
+app.get('/api/blocked-senders', async (c) => {
+	return c.json({ blocked: await db.listBlockedSenders(c.env.DB, c.get('username')) });
+});
+
+// `sender` is an address, or a domain as "@example.com"
+app.post('/api/blocked-senders', async (c) => {
+	const username = c.get('username');
+	const pattern = parseBlockPattern((await c.req.json().catch(() => ({}))).sender);
+	if (typeof pattern !== 'string') return apiError(c, 400, 'INVALID_REQUEST', pattern.error);
+	if ((await db.countBlockedSenders(c.env.DB, username)) >= MAX_BLOCKED_SENDERS) {
+		return apiError(c, 400, 'INVALID_REQUEST', `At most ${MAX_BLOCKED_SENDERS} senders can be blocked`);
+	}
+	if (!(await db.blockSender(c.env.DB, username, pattern))) return apiError(c, 409, 'ALREADY_BLOCKED', 'That sender is already blocked');
+	return c.json({ blocked: { pattern, created_at: now() } }, 201);
+});
+
+app.delete('/api/blocked-senders/:pattern', async (c) => {
+	if (!(await db.unblockSender(c.env.DB, c.get('username'), c.req.param('pattern').toLowerCase()))) return apiError(c, 404, 'NOT_FOUND', 'Not found');
+	return c.json({ success: true });
+});
+
+// The global list applies to every mailbox and is managed by operators (ADMIN_TOKEN)
+app.get('/api/admin/blocked-senders', async (c) => {
+	return c.json({ blocked: await db.listGlobalBlocks(c.env.DB) });
+});
+
+app.post('/api/admin/blocked-senders', async (c) => {
+	const pattern = parseBlockPattern((await c.req.json().catch(() => ({}))).sender);
+	if (typeof pattern !== 'string') return apiError(c, 400, 'INVALID_REQUEST', pattern.error);
+	if (!(await db.addGlobalBlock(c.env.DB, pattern))) return apiError(c, 409, 'ALREADY_BLOCKED', 'That sender is already blocked');
+	return c.json({ blocked: { pattern, created_at: now() } }, 201);
+});
+
+app.delete('/api/admin/blocked-senders/:pattern', async (c) => {
+	if (!(await db.removeGlobalBlock(c.env.DB, c.req.param('pattern').toLowerCase()))) return apiError(c, 404, 'NOT_FOUND', 'Not found');
+	return c.json({ success: true });
+});
+
+// 25. Wait for Email
+// Long poll for end-to-end tests: answers as soon as a message matching `from`/`subject` is stored
+// (or already was, since `since`), with any codes and verification links it contains
+app.get('/api/wait', async (c) => {
+	const username = c.get('username');
+	const query = parseWaitQuery(c.req.query(), now());
+	if ('error' in query) return apiError(c, 400, 'INVALID_REQUEST', query.error);
+
+	const email = await mailbox(c.env, username).waitForEmail(username, query.filter, query.timeoutMs);
+	if (!email) return apiError(c, 408, 'WAIT_TIMEOUT', 'No matching email arrived before the timeout');
+
+	let content: { text?: string; html?: string } = {};
+	const meta = await db.getEmail(c.env.DB, email.id, username);
+	const obj = meta?.raw_r2_key ? await c.env.MAIL_STORAGE.get(meta.raw_r2_key) : null;
+	if (obj) content = await obj.json();
+
+	return c.json({
+		email: { ...email, text: content.text ?? null, html: content.html ?? null },
+		extracted: extractVerification({ subject: email.subject, text: content.text, html: content.html }),
+	});
+});
+
+// 26. AI Drafts
+// Drafts a reply to a message or rewrites the composer's draft, streaming the text as plain
+// chunks while it's generated. Each call counts against the user's AI rate limit.
+app.post('/api/ai/draft', async (c) => {
+	const username = c.get('username');
+	const request = parseDraftRequest(await c.req.json().catch(() => ({})));
+	if ('error' in request) return apiError(c, 400, 'INVALID_REQUEST', request.error);
+
+	let source: DraftSource | undefined;
+	if (request.action === 'draft') {
+		const original = await db.getEmail(c.env.DB, request.emailId, username);
+		if (!original) return apiError(c, 404, 'NOT_FOUND', 'Not found');
+		const obj = original.raw_r2_key ? await c.env.MAIL_STORAGE.get(original.raw_r2_key) : null;
+		const parsed = obj ? await obj.json<StoredEmail>() : null;
+		source = { from: original.sender, subject: original.subject, text: parsed ? searchableBody(parsed) : '' };
+	}
+
+	const retryAfter = await consumeRateLimit(c.env.DB, `ai:${username}`, AI_RATE_LIMIT);
+	if (retryAfter) return rateLimited(c, retryAfter, 'Too many AI requests, try again later');
 
 	try {
-		await c.env.EMAIL_SENDER.send(emailMessage);
-		return c.json({ success: true });
-	} catch (e: any) {
-		return c.json({ error: e.message }, 500);
+		const stream = await streamDraft(c.env.AI, buildDraftPrompt(request, source));
+		if ('error' in stream) {
+			console.error('AI draft error:', stream.error);
+			return apiError(c, 502, 'AI_UNAVAILABLE', 'The AI model could not be reached');
+		}
+		return c.body(stream, 200, { 'Content-Type': 'text/plain; charset=utf-8', 'Cache-Control': 'no-store' });
+	} catch (e) {
+		console.error('AI draft error:', e);
+		return apiError(c, 502, 'AI_UNAVAILABLE', 'The AI model could not be reached');
 	}
 });
 
-// 6. WebSocket Upgrade Route
-app.get('/api/ws', async (c) => {
-	const username = c.req.query('username');
-	if (!username) return c.text('Missing username', 400);
+// 27. Domains
+// The domains addresses can be claimed on, for the sign-up picker; no sign-in needed
+app.get('/api/domains', async (c) => {
+	return c.json({ domains: await servedDomains(c.env), default: c.env.DOMAIN });
+});
+
+// Operator endpoints, authenticated with the ADMIN_TOKEN secret. The DOMAIN var is always served
+// and can't be changed here.
+app.get('/api/admin/domains', async (c) => {
+	const extra = (await db.listDomains(c.env.DB)).filter((d) => d.name !== c.env.DOMAIN);
+	return c.json({
+		domains: [
+			{ name: c.env.DOMAIN, enabled: true, default: true, created_at: null },
+			...extra.map((d) => ({ name: d.name, enabled: !!d.enabled, default: false, created_at: d.created_at })),
+		],
+	});
+});
+
+// The domain's MX records must point at Cloudflare Email Routing with this worker as the catch-all
+app.post('/api/admin/domains', async (c) => {
+	const name = parseDomainName((await c.req.json().catch(() => ({}))).name);
+	if (typeof name !== 'string') return apiError(c, 400, 'INVALID_REQUEST', name.error);
+	if (name === c.env.DOMAIN || !(await db.createDomain(c.env.DB, name))) return apiError(c, 409, 'DOMAIN_EXISTS', 'That domain is already listed');
+	return c.json({ domain: { name, enabled: true, default: false, created_at: now() } }, 201);
+});
 
+// A disabled domain bounces new mail and leaves the picker; its addresses stay claimed, so
+// re-enabling it picks up where it left off
+app.patch('/api/admin/domains/:name', async (c) => {
+	const { enabled } = await c.req.json().catch(() => ({}));
+	if (typeof enabled !== 'boolean') return apiError(c, 400, 'INVALID_REQUEST', 'enabled must be true or false');
+	const name = c.req.param('name').toLowerCase();
+	if (name === c.env.DOMAIN) return apiError(c, 400, 'INVALID_REQUEST', "The default domain can't be disabled");
+	if (!(await db.setDomainEnabled(c.env.DB, name, enabled))) return apiError(c, 404, 'NOT_FOUND', 'Not found');
+	return c.json({ success: true });
+});
+
+// 28. WebSocket Upgrade Route
+app.get('/api/ws', async (c) => {
+	const username = c.get('username');
 	const id = c.env.MAILBOX_DO.idFromName(username);
 	const stub = c.env.MAILBOX_DO.get(id);
 	
@@ -153,73 +1123,181 @@ export default {
 	...app, // API handlers
 
 	// Email Handler (Cloudflare Email Routing)
-	async email(message: ForwardableEmailMessage, env: Env, ctx: ExecutionContext) {
-		const parser = new PostalMime();
-		const rawEmail = await new Response(message.raw).arrayBuffer();
-		const parsed = await parser.parse(rawEmail);
+	async email(message: ForwardableEmailMessage, env: Env, _ctx: ExecutionContext) {
+		// Cheap checks come first, so refused mail is never stored or sent to the AI
+		if (message.rawSize > MAX_MESSAGE_BYTES) {
+			message.setReject(REJECT_TOO_LARGE);
+			return;
+		}
 
 		const toAddress = message.to;
-		const username = toAddress.split('@')[0];
+		// Aliases and `+tag` addresses deliver to the mailbox that owns the base local part
+		const recipient = parseRecipient(toAddress);
+		if (!(await isServedDomain(env, recipient.domain))) {
+			message.setReject("Domain not served");
+			return;
+		}
+		// Matched on the full address: the local part has to be claimed on the domain it was sent to
+		const address = await db.getAddress(env.DB, recipient.local);
+		const owner = address && address.domain === storedDomain(env, recipient.domain) ? address.username : null;
 		
 		// Validate user exists
-		const user = await env.DB.prepare('SELECT 1 FROM users WHERE username = ?').bind(username).first();
+		const user = owner ? await db.getActiveUser(env.DB, owner, now()) : null;
 		if (!user) {
 			message.setReject("User does not exist");
 			return;
 		}
+		const { username } = user;
+		const deliveredTo = `${recipient.local}@${recipient.domain}`;
+
+		const envelopeBlock = await blockedReason(env.DB, username, message.from);
+		if (envelopeBlock) {
+			message.setReject(envelopeBlock);
+			return;
+		}
+
+		const parser = new PostalMime();
+		const rawEmail = await new Response(message.raw).arrayBuffer();
+		const parsed = await parser.parse(rawEmail);
+
+		// The From header needn't match the envelope sender; a block on either refuses the message
+		const headerBlock = parsed.from?.address ? await blockedReason(env.DB, username, parsed.from.address) : null;
+		if (headerBlock) {
+			message.setReject(headerBlock);
+			return;
+		}
+		// Blocked senders don't use up the limits; everything else counts, even if it's refused below
+		if (await consumeRateLimit(env.DB, senderRateLimitKey(message.from, username), SENDER_RATE_LIMIT)) {
+			message.setReject(REJECT_SENDER_LIMIT);
+			return;
+		}
+		if (await consumeRateLimit(env.DB, `ingest:to:${username}`, RECIPIENT_RATE_LIMIT)) {
+			message.setReject(REJECT_RECIPIENT_LIMIT);
+			return;
+		}
 
 		const emailId = crypto.randomUUID();
+		const expiresAt = messageExpiry(user);
+		const threadId = (await db.findThreadId(env.DB, username, referencedIds(parsed))) ?? emailId;
 		const r2Key = `${username}/${emailId}.json`;
+		const emlKey = `${username}/${emailId}.eml`;
 
-		// 1. AI Analysis
-		let aiSummary = "Processing AI summary...";
-		try {
-			const textBody = parsed.text?.substring(0, 1500) || parsed.html?.substring(0, 1500) || "";
-			const prompt = `Analyze this email. Provide a brief 2-sentence summary and list any attachment types if mentioned. Email: ${textBody}`;
-			
-			const aiRes = await env.AI.run('@cf/meta/llama-3-8b-instruct', {
-				messages: [{ role: 'user', content: prompt }]
-			}) as any;
-			
-			if (aiRes?.response) aiSummary = aiRes.response;
-		} catch (e) {
-			console.error("AI Error:", e);
-			aiSummary = "AI Summary unavailable.";
+		// 1. AI Analysis: summary, classification and entities from one model call
+		const sender = parsed.from?.address || message.from;
+		const subject = parsed.subject || "(No Subject)";
+		const { summary: aiSummary, classification, entities } = await analyzeEmail(env.AI, { from: sender, subject, text: parsed.text, html: parsed.html });
+		const aiCategory = classification.category;
+		// SPF/DKIM/DMARC as reported by the receiving server, plus the From vs envelope domain check
+		const auth = authenticate(parsed.headers, message.from, parsed.from?.address, parseAuthservIds(env.AUTHSERV_IDS));
+
+		// 2. Mail Rules
+		const rules = (await db.listRules(env.DB, username, true)).map(toRule);
+		const outcome = evaluateRules(rules, {
+			sender,
+			subject,
+			has_attachments: parsed.attachments.length > 0,
+			category: aiCategory,
+			auth: auth.status,
+		});
+		for (const address of outcome.forward) {
+			try {
+				await message.forward(address);
+			} catch (e) {
+				console.error(`Rule forward to ${address} failed:`, e);
+			}
+		}
+		if (outcome.delete) {
+			// Deleted messages are never stored, so there is nothing to link to
+			const email = { id: null, from: sender, subject, snippet: (parsed.text || "").substring(0, 150), ai_summary: aiSummary, received_at: now(), link: null };
+			try {
+				await enqueueRuleWebhooks(env, username, deliveredTo, outcome.webhooks, email);
+			} catch (e) {
+				console.error("Rule webhook enqueue error:", e);
+			}
+			return;
 		}
 
-		// 2. Store Data
-		// We store the parsed JSON in R2 for easy frontend rendering without re-parsing
-		await env.MAIL_STORAGE.put(r2Key, JSON.stringify(parsed));
+		// 3. Store Data
+		// We store the parsed JSON in R2 for easy frontend rendering without re-parsing;
+		// attachment bytes go to their own objects so the blob stays small
+		const attachments = await storeAttachments(env.MAIL_STORAGE, username, emailId, parsed.attachments);
+		await env.MAIL_STORAGE.put(r2Key, JSON.stringify(stripAttachmentContent(parsed)));
+		// The original bytes too, for "view source" and downloading the .eml
+		await env.MAIL_STORAGE.put(emlKey, rawEmail, { httpMetadata: { contentType: 'message/rfc822' } });
 
-		await env.DB.prepare(
-			`INSERT INTO emails (id, username, sender, subject, snippet, raw_r2_key, has_attachments, ai_summary) 
-			 VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
-		).bind(
-			emailId,
-			username,
-			parsed.from.address,
-			parsed.subject || "(No Subject)",
-			(parsed.text || "").substring(0, 150),
-			r2Key,
-			parsed.attachments && parsed.attachments.length > 0 ? 1 : 0,
-			aiSummary
-		).run();
-
-		// 3. Notify Durable Object (Real-time)
-		const doId = env.MAILBOX_DO.idFromName(username);
-		const stub = env.MAILBOX_DO.get(doId);
-		
-		// Use RPC if configured, or simple fetch triggering
-		// Here we trigger the DO to broadcast via a fetch call or internal method if using RPC
-		// For compat, we won't use direct RPC syntax in this block without configuring it, so we rely on the DO instance knowing.
-		// Actually, let's just assume the client polls OR we add a specific 'internal' fetch endpoint to the DO.
-		// In a production RPC setup: await stub.broadcastEmail({...});
-		// Since we defined the class above, we can cast:
-		await (stub as any).broadcastEmail({
+		await db.insertEmail(env.DB, {
 			id: emailId,
-			sender: parsed.from.address,
-			subject: parsed.subject,
-			ai_summary: aiSummary
+			username,
+			sender,
+			subject,
+			snippet: (parsed.text || "").substring(0, 150),
+			raw_r2_key: r2Key,
+			eml_r2_key: emlKey,
+			has_attachments: attachments.length > 0 ? 1 : 0,
+			ai_summary: aiSummary,
+			expires_at: expiresAt,
+			message_id: parsed.messageId ?? null,
+			thread_id: threadId,
+			is_read: outcome.markRead ? 1 : 0,
+			ai_category: aiCategory,
+			spam_score: classification.spam_score,
+			phishing_score: classification.phishing_score,
+			ai_reasons: JSON.stringify(classification.reasons),
+			ai_entities: JSON.stringify(entities),
+			delivered_to: deliveredTo,
+			auth_status: auth.status,
+			auth_results: JSON.stringify(auth.results),
+			// High-risk mail skips the inbox; the user can release it from Quarantine
+			folder: isHighRisk(classification) ? 'quarantine' : 'inbox'
 		});
+		await db.insertAttachments(env.DB, attachments);
+		// The tag of a `name+tag@` address becomes a label, created on first use
+		const tagLabel = recipient.tag ? await db.ensureLabel(env.DB, username, recipient.tag) : null;
+		await db.addLabels(env.DB, username, [emailId], tagLabel ? [...outcome.labels, tagLabel] : outcome.labels);
+
+		// A failed index write shouldn't lose the message; the scheduled backfill retries it
+		try {
+			await indexEmail(env.DB, emailId, parsed, { subject, sender, ai_summary: aiSummary });
+		} catch (e) {
+			console.error("Search index error:", e);
+		}
+
+		// 4. Notify Durable Object (Real-time)
+		// Clients insert the pushed row into their listing, so it carries the same columns
+		const summary = await db.getEmailSummary(env.DB, emailId);
+		if (!summary) return;
+
+		// Like the index write, a queue hiccup shouldn't lose the stored message
+		try {
+			const email = webhookEmail(env, summary);
+			await enqueueEmailWebhooks(env, username, deliveredTo, email);
+			await enqueueRuleWebhooks(env, username, deliveredTo, outcome.webhooks, email);
+		} catch (e) {
+			console.error("Webhook enqueue error:", e);
+		}
+		await mailbox(env, username).broadcastEmail(summary);
+	},
+
+	// Cron Handler: purge expired identities and messages, backfill the search index and
+	// prune the webhook delivery log and old rate limit counters
+	// (see "triggers" in wrangler.jsonc)
+	async scheduled(controller: ScheduledController, env: Env, ctx: ExecutionContext) {
+		ctx.waitUntil(
+			purgeExpired(env, Math.floor(controller.scheduledTime / 1000))
+				.then(({ emails, users }) => {
+					if (emails || users) console.log(`Expiry purge removed ${emails} emails and ${users} identities`);
+					return backfillSearchIndex(env);
+				})
+				.then((indexed) => {
+					if (indexed) console.log(`Search backfill indexed ${indexed} emails`);
+					return db.pruneDeliveries(env.DB, Math.floor(controller.scheduledTime / 1000) - DELIVERY_LOG_TTL);
+				})
+				.then(() => db.pruneRateLimits(env.DB, Math.floor(controller.scheduledTime / 1000) - RATE_LIMIT_RETENTION))
+		);
+	},
+
+	// Queue consumer for webhook deliveries (see "queues" in wrangler.jsonc)
+	async queue(batch: MessageBatch<WebhookJob>, env: Env) {
+		await handleWebhookBatch(batch, env);
 	}
 };
@@ -0,0 +1,18 @@
+import { API_BASE } from './api';
+
+export type Availability = { local_part?: string; address?: string; available: boolean; reason?: string };
+
+// Both are unauthenticated, so they also work on the sign-up screen
+
+export async function checkAddress(localPart: string, domain: string | null, signal?: AbortSignal): Promise<Availability> {
+  const params = new URLSearchParams({ local_part: localPart });
+  if (domain) params.set('domain', domain);
+  const res = await fetch(`${API_BASE}/addresses/available?${params}`, { signal });
+  return res.json();
+}
+
+// Served domains, the default first
+export async function fetchDomains(): Promise<string[]> {
+  const res = await fetch(`${API_BASE}/domains`);
+  return res.ok ? ((await res.json()) as { domains: string[] }).domains : [];
+}
@@ -0,0 +1,69 @@
+export const API_BASE = '/api';
+
+export type Session = {
+  username: string;
+  address: string;
+  token: string;
+  // Unix seconds; null for identities created before expiry was introduced
+  expires_at?: number | null;
+  password?: string;
+};
+
+// Error shape returned by the worker; `code` is stable, `error` is for display
+export type ApiErrorBody = {
+  error?: string;
+  code?: string;
+  details?: { addresses?: string[]; failed?: string[] };
+};
+
+const SESSION_KEY = 'ai-mail-session';
+
+// The password is only ever shown once, right after generation, so it is never persisted.
+export function loadSession(): Session | null {
+  try {
+    const stored = localStorage.getItem(SESSION_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveSession(session: Session | null) {
+  if (!session) {
+    localStorage.removeItem(SESSION_KEY);
+    return;
+  }
+  const { password: _password, ...persisted } = session;
+  localStorage.setItem(SESSION_KEY, JSON.stringify(persisted));
+}
+
+export function apiFetch(path: string, token: string, init: RequestInit = {}) {
+  const headers = new Headers(init.headers);
+  headers.set('Authorization', `Bearer ${token}`);
+  if (typeof init.body === 'string' && !headers.has('Content-Type')) {
+    headers.set('Content-Type', 'application/json');
+  }
+  return fetch(`${API_BASE}${path}`, { ...init, headers });
+}
+
+export function socketUrl(token: string) {
+  const protocol = window.location.protocol === 'https:' ? 'wss' : 'ws';
+  return `${protocol}://${window.location.host}${API_BASE}/ws?token=${encodeURIComponent(token)}`;
+}
+
+// Attachment routes need the bearer token, so downloads go through fetch + an object URL instead of a plain link
+export async function downloadAttachment(token: string, emailId: string, idx: number, filename: string | null) {
+  const res = await apiFetch(`/email/${emailId}/attachments/${idx}`, token);
+  if (!res.ok) throw new Error(`Download failed (${res.status})`);
+
+  saveBlob(await res.blob(), filename || `attachment-${idx}`);
+}
+
+export function saveBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
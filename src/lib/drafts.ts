@@ -0,0 +1,30 @@
+import { type ApiErrorBody, apiFetch } from './api';
+
+// Mirrors TONES and DraftRequest in src/worker/drafts.ts
+export const TONES = ['formal', 'friendly', 'casual', 'confident', 'apologetic'] as const;
+
+export type DraftRequest =
+  | { action: 'draft'; emailId: string; instruction?: string }
+  | { action: 'tone'; draft: string; tone: (typeof TONES)[number] }
+  | { action: 'shorten'; draft: string }
+  | { action: 'translate'; draft: string; language: string };
+
+// Calls /api/ai/draft and hands the text generated so far to `onText` as each chunk arrives.
+// Resolves with the complete text; rejects with the server's message (e.g. when rate limited).
+export async function streamDraft(token: string, request: DraftRequest, onText: (text: string) => void, signal?: AbortSignal) {
+  const res = await apiFetch('/ai/draft', token, { method: 'POST', body: JSON.stringify(request), signal });
+  if (!res.ok || !res.body) {
+    const data = (await res.json().catch(() => ({}))) as ApiErrorBody;
+    throw new Error(data.error || `AI request failed (${res.status})`);
+  }
+
+  const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+  let text = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    text += value;
+    onText(text);
+  }
+  return text;
+}
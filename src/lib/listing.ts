@@ -0,0 +1,78 @@
+// Mirrors AUTH_STATUSES in src/worker/senderauth.ts
+export const AUTH_STATUSES = ['verified', 'unverified', 'failed'] as const;
+
+export type AuthStatus = (typeof AUTH_STATUSES)[number];
+
+export type EmailFilters = {
+  unread: boolean;
+  hasAttachments: boolean;
+  sender: string;
+  // Sender authentication verdict; empty for any
+  auth: AuthStatus | '';
+  // yyyy-mm-dd from <input type="date">, interpreted in local time; both ends inclusive
+  from: string;
+  to: string;
+};
+
+// What the main list shows: a folder, the cross-folder Starred view, or one label
+export type MailView = 'inbox' | 'sent' | 'archive' | 'quarantine' | 'starred' | `label:${string}`;
+
+export const NO_FILTERS: EmailFilters = { unread: false, hasAttachments: false, sender: '', auth: '', from: '', to: '' };
+
+export const PAGE_SIZE = 30;
+
+const DAY = 24 * 60 * 60;
+
+const startOfDay = (date: string) => Math.floor(new Date(`${date}T00:00`).getTime() / 1000);
+
+export function hasFilters(filters: EmailFilters) {
+  return filters.unread || filters.hasAttachments || !!filters.sender.trim() || !!filters.auth || !!filters.from || !!filters.to;
+}
+
+export function listQuery(view: MailView, filters: EmailFilters, cursor?: string | null) {
+  const params = new URLSearchParams({ limit: String(PAGE_SIZE) });
+  if (view === 'starred') {
+    params.set('folder', 'all');
+    params.set('starred', '1');
+  } else if (view.startsWith('label:')) {
+    params.set('folder', 'all');
+    params.set('label', view.slice('label:'.length));
+  } else {
+    params.set('folder', view);
+  }
+  if (cursor) params.set('cursor', cursor);
+  if (filters.unread) params.set('unread', '1');
+  if (filters.hasAttachments) params.set('has_attachments', '1');
+  if (filters.sender.trim()) params.set('sender', filters.sender.trim());
+  if (filters.auth) params.set('auth', filters.auth);
+  if (filters.from) params.set('since', String(startOfDay(filters.from)));
+  // The API's upper bound is exclusive, so "to" becomes the start of the following day
+  if (filters.to) params.set('until', String(startOfDay(filters.to) + DAY));
+  return params.toString();
+}
+
+// Whether a row still belongs in the view after a local change (archived, unstarred, unlabelled)
+export function inView(email: { folder: string; is_starred: number; labels: string[] }, view: MailView) {
+  if (view === 'starred') return !!email.is_starred;
+  if (view.startsWith('label:')) return email.labels.includes(view.slice('label:'.length));
+  return email.folder === view;
+}
+
+// Client-side mirror of the API filters, used for messages pushed over the socket
+export function matchesFilters(
+  email: { is_read: number; has_attachments: number; sender: string; auth_status?: string | null; created_at: number },
+  filters: EmailFilters
+) {
+  if (filters.unread && email.is_read) return false;
+  if (filters.hasAttachments && !email.has_attachments) return false;
+  if (filters.sender.trim() && !email.sender.toLowerCase().includes(filters.sender.trim().toLowerCase())) return false;
+  if (filters.auth && email.auth_status !== filters.auth) return false;
+  if (filters.from && email.created_at < startOfDay(filters.from)) return false;
+  if (filters.to && email.created_at >= startOfDay(filters.to) + DAY) return false;
+  return true;
+}
+
+// Puts a pushed message at the top of a newest-first list, ignoring duplicates
+export function prependEmail<T extends { id: string }>(emails: T[], email: T) {
+  return emails.some(e => e.id === email.id) ? emails : [email, ...emails];
+}
@@ -0,0 +1,68 @@
+import { apiFetch } from './api';
+
+export type Label = { id: string; name: string; color: string; total: number; unread: number };
+
+export type Counts = {
+  folders: Record<'inbox' | 'sent' | 'archive' | 'quarantine' | 'starred', { total: number; unread: number }>;
+  labels: Label[];
+};
+
+export type MessageChanges = {
+  is_read?: boolean;
+  is_starred?: boolean;
+  folder?: 'inbox' | 'archive';
+  add_labels?: string[];
+  remove_labels?: string[];
+};
+
+// Tailwind needs the full class names in source, so the palette is spelled out
+export const LABEL_COLORS: Record<string, string> = {
+  slate: 'bg-slate-400',
+  red: 'bg-red-500',
+  amber: 'bg-amber-500',
+  green: 'bg-emerald-500',
+  blue: 'bg-blue-500',
+  violet: 'bg-violet-500',
+  pink: 'bg-pink-500'
+};
+
+export async function fetchCounts(token: string) {
+  const res = await apiFetch('/counts', token);
+  return res.ok ? ((await res.json()) as Counts) : null;
+}
+
+// One id goes through the single-message route; anything more uses the bulk route
+export async function updateMessages(token: string, ids: string[], changes: MessageChanges) {
+  const res = ids.length === 1
+    ? await apiFetch(`/email/${ids[0]}`, token, { method: 'PATCH', body: JSON.stringify(changes) })
+    : await apiFetch('/emails', token, { method: 'PATCH', body: JSON.stringify({ ids, ...changes }) });
+  return res.ok;
+}
+
+export async function deleteMessages(token: string, ids: string[]) {
+  const res = ids.length === 1
+    ? await apiFetch(`/email/${ids[0]}`, token, { method: 'DELETE' })
+    : await apiFetch('/emails', token, { method: 'DELETE', body: JSON.stringify({ ids }) });
+  return res.ok;
+}
+
+// Mirrors a successful update on a locally held summary row
+export function applyChanges<T extends { is_read: number; is_starred: number; folder: string; labels: string[] }>(email: T, changes: MessageChanges): T {
+  const next = { ...email };
+  if (changes.is_read !== undefined) next.is_read = changes.is_read ? 1 : 0;
+  if (changes.is_starred !== undefined) next.is_starred = changes.is_starred ? 1 : 0;
+  if (changes.folder && email.folder !== 'sent') next.folder = changes.folder;
+  if (changes.add_labels) next.labels = [...new Set([...email.labels, ...changes.add_labels])];
+  if (changes.remove_labels) next.labels = next.labels.filter(id => !changes.remove_labels!.includes(id));
+  return next;
+}
+
+export async function createLabel(token: string, name: string, color: string) {
+  const res = await apiFetch('/labels', token, { method: 'POST', body: JSON.stringify({ name, color }) });
+  const data = (await res.json()) as { error?: string };
+  if (!res.ok) throw new Error(data.error || 'Could not create label');
+}
+
+export async function deleteLabel(token: string, id: string) {
+  return (await apiFetch(`/labels/${id}`, token, { method: 'DELETE' })).ok;
+}
@@ -0,0 +1,73 @@
+import { type ApiErrorBody, apiFetch } from './api';
+
+// Mirrors CATEGORIES in src/worker/classify.ts
+export const CATEGORIES = ['personal', 'work', 'newsletter', 'promotion', 'notification', 'receipt', 'security', 'spam'];
+
+export type RuleConditions = {
+  sender?: string;
+  subject?: string;
+  has_attachments?: boolean;
+  category?: string;
+  auth?: string;
+};
+
+export type RuleActions = {
+  label?: string;
+  mark_read?: boolean;
+  delete?: boolean;
+  forward?: string;
+  // Id of one of the mailbox's webhooks
+  webhook?: string;
+};
+
+export type Rule = {
+  id: string;
+  name: string;
+  enabled: boolean;
+  conditions: RuleConditions;
+  actions: RuleActions;
+  created_at: number;
+};
+
+export type Webhook = { id: string; url: string; enabled: number; rules_only: number; created_at: number };
+
+export type DryRun = { scanned: number; matched: number; emails: any[] };
+
+async function send<T>(token: string, method: string, path: string, body?: unknown) {
+  const res = await apiFetch(path, token, { method, body: body === undefined ? undefined : JSON.stringify(body) });
+  const data = (await res.json()) as T & ApiErrorBody;
+  if (!res.ok) throw new Error(data.error || 'Request failed');
+  return data;
+}
+
+export async function fetchRules(token: string) {
+  return (await send<{ rules: Rule[] }>(token, 'GET', '/rules')).rules;
+}
+
+// The mailbox's webhooks, which the webhook action picks from
+export async function fetchWebhooks(token: string) {
+  return (await send<{ webhooks: Webhook[] }>(token, 'GET', '/webhooks')).webhooks;
+}
+
+// Creates the rule when `id` is missing, otherwise replaces its fields
+export async function saveRule(token: string, rule: Omit<Rule, 'id' | 'created_at'> & { id?: string }) {
+  const { id, ...fields } = rule;
+  return (await send<{ rule: Rule }>(token, id ? 'PATCH' : 'POST', id ? `/rules/${id}` : '/rules', fields)).rule;
+}
+
+export async function setRuleEnabled(token: string, id: string, enabled: boolean) {
+  return (await send<{ rule: Rule }>(token, 'PATCH', `/rules/${id}`, { enabled })).rule;
+}
+
+export async function deleteRule(token: string, id: string) {
+  await send(token, 'DELETE', `/rules/${id}`);
+}
+
+export async function dryRunRule(token: string, conditions: RuleConditions) {
+  return send<DryRun>(token, 'POST', '/rules/dry-run', { conditions });
+}
+
+// Drops empty form fields so the API only sees the conditions and actions that are set
+export function compact<T extends Record<string, unknown>>(fields: T): T {
+  return Object.fromEntries(Object.entries(fields).filter(([, v]) => v !== undefined && v !== '')) as T;
+}
@@ -0,0 +1,136 @@
+// Allowlist sanitizer for untrusted email HTML. The output is additionally rendered inside a
+// sandboxed iframe with scripts disabled and a restrictive CSP, so this is one of two layers.
+
+const ALLOWED_TAGS = new Set([
+  'a', 'abbr', 'address', 'article', 'aside', 'b', 'bdi', 'bdo', 'blockquote', 'body', 'br', 'caption', 'center',
+  'cite', 'code', 'col', 'colgroup', 'dd', 'del', 'details', 'dfn', 'div', 'dl', 'dt', 'em', 'figcaption', 'figure',
+  'font', 'footer', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'head', 'header', 'hr', 'html', 'i', 'img', 'ins', 'kbd', 'li',
+  'main', 'mark', 'nav', 'ol', 'p', 'pre', 'q', 's', 'samp', 'section', 'small', 'span', 'strike', 'strong', 'style',
+  'sub', 'summary', 'sup', 'table', 'tbody', 'td', 'tfoot', 'th', 'thead', 'time', 'title', 'tr', 'tt', 'u', 'ul', 'var', 'wbr'
+]);
+
+// Removed together with their contents rather than unwrapped
+const DROPPED_TAGS = new Set(['script', 'noscript', 'iframe', 'frame', 'frameset', 'object', 'embed', 'applet', 'form', 'input', 'button', 'select', 'textarea', 'svg', 'math', 'template', 'link', 'meta', 'base']);
+
+const ALLOWED_ATTRIBUTES = new Set([
+  'align', 'alt', 'bgcolor', 'border', 'cellpadding', 'cellspacing', 'class', 'color', 'colspan', 'dir', 'face', 'height',
+  'href', 'id', 'lang', 'rowspan', 'size', 'src', 'style', 'title', 'valign', 'width', 'start', 'type', 'datetime'
+]);
+
+const SAFE_LINK = /^(https?:|mailto:|tel:|#)/i;
+const REMOTE_URL = /^(https?:)?\/\//i;
+const CSS_URL = /url\(\s*(['"]?)(.*?)\1\s*\)/gi;
+
+export type SanitizeOptions = {
+  // Maps a Content-ID (without angle brackets) to a local URL for the stored attachment
+  cidUrls: Map<string, string>;
+  allowRemote: boolean;
+};
+
+export type SanitizeResult = {
+  // Complete document for the viewer iframe's srcdoc, CSP included
+  html: string;
+  // Remote images, backgrounds and stylesheets that were stripped (tracking pixels included)
+  blockedRemote: number;
+};
+
+export function sanitizeEmailHtml(source: string, { cidUrls, allowRemote }: SanitizeOptions): SanitizeResult {
+  const doc = new DOMParser().parseFromString(source, 'text/html');
+  let blockedRemote = 0;
+
+  const rewriteCss = (css: string) =>
+    css.replace(CSS_URL, (match, _quote, url: string) => {
+      if (url.toLowerCase().startsWith('cid:')) {
+        const local = cidUrls.get(url.slice(4));
+        return local ? `url("${local}")` : 'none';
+      }
+      if (REMOTE_URL.test(url)) {
+        if (allowRemote) return match;
+        blockedRemote++;
+        return 'none';
+      }
+      return url.toLowerCase().startsWith('data:image/') ? match : 'none';
+    })
+    // Legacy IE/expression() and @import can pull in or execute remote content
+    .replace(/expression\s*\(/gi, 'blocked(')
+    .replace(/@import[^;]*;?/gi, () => {
+      blockedRemote++;
+      return '';
+    });
+
+  const walk = (node: Element) => {
+    for (const child of Array.from(node.children)) {
+      const tag = child.tagName.toLowerCase();
+
+      if (DROPPED_TAGS.has(tag)) {
+        child.remove();
+        continue;
+      }
+      if (!ALLOWED_TAGS.has(tag)) {
+        walk(child);
+        child.replaceWith(...Array.from(child.childNodes));
+        continue;
+      }
+
+      for (const attr of Array.from(child.attributes)) {
+        if (!ALLOWED_ATTRIBUTES.has(attr.name.toLowerCase())) child.removeAttribute(attr.name);
+      }
+
+      if (tag === 'style') child.textContent = rewriteCss(child.textContent || '');
+      const style = child.getAttribute('style');
+      if (style) child.setAttribute('style', rewriteCss(style));
+
+      if (tag === 'a') {
+        const href = child.getAttribute('href') || '';
+        if (!SAFE_LINK.test(href.trim())) child.removeAttribute('href');
+        child.setAttribute('target', '_blank');
+        child.setAttribute('rel', 'noopener noreferrer');
+      }
+
+      if (tag === 'img') {
+        const src = (child.getAttribute('src') || '').trim();
+        if (src.toLowerCase().startsWith('cid:')) {
+          const local = cidUrls.get(src.slice(4));
+          if (local) child.setAttribute('src', local);
+          else child.removeAttribute('src');
+        } else if (REMOTE_URL.test(src)) {
+          if (!allowRemote) {
+            blockedRemote++;
+            child.removeAttribute('src');
+            child.setAttribute('alt', child.getAttribute('alt') || '[remote image blocked]');
+          }
+        } else if (!src.toLowerCase().startsWith('data:image/')) {
+          child.removeAttribute('src');
+        }
+      }
+
+      walk(child);
+    }
+  };
+
+  walk(doc.documentElement);
+
+  // Injected after the walk, so these are the only <meta>/<base> elements in the output
+  const csp = doc.createElement('meta');
+  csp.setAttribute('http-equiv', 'Content-Security-Policy');
+  csp.setAttribute('content', viewerCsp(allowRemote));
+  const base = doc.createElement('base');
+  base.setAttribute('target', '_blank');
+  doc.head.insertBefore(base, doc.head.firstChild);
+  doc.head.insertBefore(csp, base);
+
+  return { html: `<!doctype html>${doc.documentElement.outerHTML}`, blockedRemote };
+}
+
+// Plain-text fallback for messages that only have an HTML part
+export function htmlToText(source: string) {
+  const doc = new DOMParser().parseFromString(source, 'text/html');
+  doc.querySelectorAll('script, style, head').forEach((el) => el.remove());
+  return (doc.body.textContent || '').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+// CSP for the iframe document; mirrors what the sanitizer let through
+function viewerCsp(allowRemote: boolean) {
+  const images = allowRemote ? 'data: blob: https: http:' : 'data: blob:';
+  return `default-src 'none'; img-src ${images}; style-src 'unsafe-inline'${allowRemote ? ' https: http:' : ''}; font-src data:${allowRemote ? ' https:' : ''}`;
+}
@@ -0,0 +1,17 @@
+// Must match HIGHLIGHT_START/HIGHLIGHT_END in src/worker/search.ts
+const HIGHLIGHT = /\u0002([\s\S]*?)\u0003/g;
+
+export type HighlightPart = { text: string; match: boolean };
+
+// Splits an FTS snippet into plain and matched runs so it can be rendered without innerHTML
+export function highlightParts(snippet: string): HighlightPart[] {
+  const parts: HighlightPart[] = [];
+  let last = 0;
+  for (const m of snippet.matchAll(HIGHLIGHT)) {
+    if (m.index > last) parts.push({ text: snippet.slice(last, m.index), match: false });
+    parts.push({ text: m[1], match: true });
+    last = m.index + m[0].length;
+  }
+  if (last < snippet.length) parts.push({ text: snippet.slice(last), match: false });
+  return parts;
+}
@@ -0,0 +1,124 @@
+import { socketUrl } from './api';
+import type { MessageChanges } from './messages';
+
+// Mirrors src/worker/protocol.ts
+export const PROTOCOL_VERSION = 1;
+const PING_FRAME = JSON.stringify({ v: PROTOCOL_VERSION, type: 'ping' });
+
+export type MailboxEvent =
+  | { type: 'email.created'; email: any }
+  | { type: 'email.updated'; ids: string[]; changes: { is_read?: number; is_starred?: number; folder?: 'inbox' | 'archive' }; add_labels: string[]; remove_labels: string[] }
+  | { type: 'email.deleted'; ids: string[] };
+
+type ServerFrame =
+  | { v: number; type: 'subscribed'; cursor: number; replayed: number }
+  | { v: number; type: 'resync'; cursor: number }
+  | { v: number; type: 'event'; seq: number; at: number; event: MailboxEvent }
+  | { v: number; type: 'pong' }
+  | { v: number; type: 'error'; message: string };
+
+export type SocketStatus = 'connecting' | 'live' | 'offline';
+
+export type MailboxHandlers = {
+  onEvent: (event: MailboxEvent) => void;
+  // Events were missed beyond what the server keeps; reload the list and counts
+  onResync: () => void;
+  onStatus?: (status: SocketStatus) => void;
+};
+
+const HEARTBEAT_MS = 25_000;
+// No pong within this long after a ping means the connection is dead even if it looks open
+const PONG_TIMEOUT_MS = 10_000;
+const MIN_BACKOFF_MS = 1_000;
+const MAX_BACKOFF_MS = 30_000;
+
+// An update event in the shape the local helpers (applyChanges) take
+export function eventChanges(event: Extract<MailboxEvent, { type: 'email.updated' }>): MessageChanges {
+  const { is_read, is_starred, folder } = event.changes;
+  return {
+    is_read: is_read === undefined ? undefined : !!is_read,
+    is_starred: is_starred === undefined ? undefined : !!is_starred,
+    folder,
+    add_labels: event.add_labels,
+    remove_labels: event.remove_labels
+  };
+}
+
+// Keeps a subscribed socket open for the mailbox: reconnects with jittered exponential backoff and
+// resumes from the last event seen, so nothing published while offline is lost.
+export function connectMailbox(token: string, handlers: MailboxHandlers) {
+  let ws: WebSocket | null = null;
+  let cursor: number | null = null;
+  let attempt = 0;
+  let stopped = false;
+  let retryTimer: ReturnType<typeof setTimeout> | undefined;
+  let heartbeat: ReturnType<typeof setInterval> | undefined;
+  let pongTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const scheduleReconnect = () => {
+    clearInterval(heartbeat);
+    clearTimeout(pongTimer);
+    if (stopped) return;
+    handlers.onStatus?.('offline');
+    const delay = Math.min(MIN_BACKOFF_MS * 2 ** attempt, MAX_BACKOFF_MS);
+    attempt++;
+    retryTimer = setTimeout(open, delay / 2 + Math.random() * (delay / 2));
+  };
+
+  const onFrame = (msg: ServerFrame) => {
+    clearTimeout(pongTimer);
+    switch (msg.type) {
+      case 'subscribed':
+        attempt = 0;
+        cursor = msg.cursor;
+        handlers.onStatus?.('live');
+        break;
+      case 'resync':
+        cursor = msg.cursor;
+        handlers.onResync();
+        break;
+      case 'event':
+        if (cursor !== null && msg.seq <= cursor) break;
+        cursor = msg.seq;
+        handlers.onEvent(msg.event);
+        break;
+      case 'error':
+        console.warn('Mailbox socket:', msg.message);
+        break;
+    }
+  };
+
+  function open() {
+    handlers.onStatus?.('connecting');
+    const socket = new WebSocket(socketUrl(token));
+    ws = socket;
+
+    socket.onopen = () => {
+      socket.send(JSON.stringify({ v: PROTOCOL_VERSION, type: 'subscribe', cursor }));
+      heartbeat = setInterval(() => {
+        socket.send(PING_FRAME);
+        pongTimer = setTimeout(() => socket.close(), PONG_TIMEOUT_MS);
+      }, HEARTBEAT_MS);
+    };
+    socket.onmessage = (event) => {
+      const msg = JSON.parse(event.data);
+      // Frames without a version are for pre-protocol clients
+      if (msg.v === PROTOCOL_VERSION) onFrame(msg);
+    };
+    socket.onclose = () => {
+      if (ws === socket) scheduleReconnect();
+    };
+  }
+
+  open();
+  return {
+    close() {
+      stopped = true;
+      clearTimeout(retryTimer);
+      clearInterval(heartbeat);
+      clearTimeout(pongTimer);
+      ws?.close();
+      ws = null;
+    }
+  };
+}
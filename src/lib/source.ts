@@ -0,0 +1,27 @@
+import { apiFetch } from './api';
+
+export type HeaderField = { name: string; value: string };
+
+// The original .eml as a Blob, so downloads keep the exact bytes; null for mail stored before raw archival
+export async function fetchRawMessage(token: string, emailId: string) {
+  const res = await apiFetch(`/email/${emailId}/raw`, token);
+  if (res.status === 404) return null;
+  if (!res.ok) throw new Error(`Could not load the message source (${res.status})`);
+  return res.blob();
+}
+
+// The header block up to the first empty line, in order, with folded continuation lines joined back on.
+// Values are left as they appear in the source (encoded words included).
+export function parseHeaders(raw: string): HeaderField[] {
+  const end = raw.search(/\r?\n\r?\n/);
+  const fields: HeaderField[] = [];
+  for (const line of (end === -1 ? raw : raw.slice(0, end)).split(/\r?\n/)) {
+    if (/^[ \t]/.test(line) && fields.length > 0) {
+      fields[fields.length - 1].value += ` ${line.trim()}`;
+      continue;
+    }
+    const colon = line.indexOf(':');
+    if (colon > 0) fields.push({ name: line.slice(0, colon).trim(), value: line.slice(colon + 1).trim() });
+  }
+  return fields;
+}
@@ -0,0 +1,23 @@
+export type ThreadSummary<T> = T & {
+  thread_count: number;
+  thread_unread: number;
+  // Every loaded message in the conversation, so row actions cover the whole thread
+  thread_ids: string[];
+};
+
+// Collapses a newest-first message list into one row per conversation, keyed by the newest message
+export function groupThreads<T extends { id: string; thread_id?: string | null; is_read: number }>(emails: T[]): ThreadSummary<T>[] {
+  const threads = new Map<string, ThreadSummary<T>>();
+  for (const email of emails) {
+    const key = email.thread_id || email.id;
+    const existing = threads.get(key);
+    if (existing) {
+      existing.thread_count++;
+      existing.thread_ids.push(email.id);
+      if (!email.is_read) existing.thread_unread++;
+    } else {
+      threads.set(key, { ...email, thread_count: 1, thread_unread: email.is_read ? 0 : 1, thread_ids: [email.id] });
+    }
+  }
+  return [...threads.values()];
+}
@@ -0,0 +1,37 @@
+import * as db from './db';
+import { parseDomainName } from './domains';
+import { isValidAddress } from './outbound';
+
+// Largest message accepted, checked against the envelope size before the body is read
+export const MAX_MESSAGE_BYTES = 10 * 1024 * 1024;
+export const MAX_BLOCKED_SENDERS = 200;
+
+// Reasons given to the sending server, which usually passes them on in its bounce
+export const REJECT_TOO_LARGE = `Message exceeds the ${MAX_MESSAGE_BYTES / 1024 / 1024} MB size limit`;
+export const REJECT_RECIPIENT_LIMIT = 'Recipient is receiving too much mail, try again later';
+export const REJECT_SENDER_LIMIT = 'Too many messages from this sender, try again later';
+
+// A blocklist entry is a full address ("spam@example.com") or a whole domain ("@example.com", or
+// just "example.com")
+export function parseBlockPattern(value: unknown): string | { error: string } {
+	const pattern = typeof value === 'string' ? value.trim().toLowerCase() : '';
+	const at = pattern.lastIndexOf('@');
+	if (at > 0) return isValidAddress(pattern) ? pattern : { error: `${pattern} is not a valid address` };
+
+	const domain = parseDomainName(at === 0 ? pattern.substring(1) : pattern);
+	return typeof domain === 'string' ? `@${domain}` : { error: 'sender must be an address or a domain, e.g. "@example.com"' };
+}
+
+// The patterns that would block this sender: the address itself and its domain
+export function blockPatternsFor(address: string) {
+	const sender = address.trim().toLowerCase();
+	const at = sender.lastIndexOf('@');
+	return at === -1 ? [sender] : [sender, sender.substring(at)];
+}
+
+// Rejection reason when the mailbox's or the global blocklist covers this sender
+export async function blockedReason(database: D1Database, username: string, sender: string) {
+	const scope = await db.findBlock(database, username, blockPatternsFor(sender));
+	if (scope === 'global') return 'Sender is blocked';
+	return scope === 'mailbox' ? 'Sender is blocked by the recipient' : null;
+}
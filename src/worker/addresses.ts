@@ -0,0 +1,63 @@
+// Local parts: the username an account is created with (random or chosen) and any aliases added
+// later all deliver to the same mailbox. `name+tag@` goes to `name@` with the tag kept as a label.
+export const MIN_LOCAL_PART = 3;
+export const MAX_LOCAL_PART = 32;
+// Aliases per account, on top of its primary address
+export const MAX_ALIASES = 5;
+const MAX_TAG = 40;
+
+// Letters, digits and . _ - inside; '+' is taken by tags
+const LOCAL_PART = /^[a-z0-9](?:[a-z0-9._-]*[a-z0-9])?$/;
+const TAG = /^[a-z0-9._-]+$/;
+
+// Role accounts and names that would let an identity pass as the service or its operators
+export const RESERVED_LOCAL_PARTS = new Set([
+	'abuse',
+	'admin',
+	'administrator',
+	'api',
+	'billing',
+	'help',
+	'hostmaster',
+	'info',
+	'mailer-daemon',
+	'noc',
+	'no-reply',
+	'noreply',
+	'postmaster',
+	'root',
+	'security',
+	'support',
+	'webmaster',
+	'www',
+]);
+
+export function randomLocalPart() {
+	return Math.random().toString(36).substring(2, 10);
+}
+
+// Lowercased local part, or why it can't be claimed (apart from being taken)
+export function parseLocalPart(value: unknown): string | { error: string } {
+	if (typeof value !== 'string') return { error: 'Address is required' };
+	const local = value.trim().toLowerCase();
+	if (local.length < MIN_LOCAL_PART || local.length > MAX_LOCAL_PART) {
+		return { error: `Addresses must be ${MIN_LOCAL_PART}-${MAX_LOCAL_PART} characters` };
+	}
+	if (!LOCAL_PART.test(local) || local.includes('..')) {
+		return { error: 'Addresses may contain letters, digits, dots, dashes and underscores, and must start and end with a letter or digit' };
+	}
+	if (RESERVED_LOCAL_PARTS.has(local)) return { error: 'That address is reserved' };
+	return local;
+}
+
+// Splits a recipient like "Name+Tag@Example.com" into its base local part, tag and domain. Tags that
+// couldn't be a label name are dropped; the message still goes to the base mailbox.
+export function parseRecipient(address: string) {
+	const at = address.lastIndexOf('@');
+	const local = (at === -1 ? address : address.substring(0, at)).toLowerCase();
+	const domain = at === -1 ? '' : address.substring(at + 1).toLowerCase();
+	const plus = local.indexOf('+');
+	if (plus === -1) return { local, tag: null, domain };
+	const tag = local.substring(plus + 1);
+	return { local: local.substring(0, plus), tag: tag.length <= MAX_TAG && TAG.test(tag) ? tag : null, domain };
+}
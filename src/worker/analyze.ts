@@ -0,0 +1,50 @@
+import { type Classification, CLASSIFICATION_PROMPT, UNCLASSIFIED, parseClassification } from './classify';
+import { type Entities, ENTITIES_PROMPT, findEntities, mergeModelEntities, messageText } from './extract';
+
+// Stored when the model can't be reached or gives no summary
+export const SUMMARY_UNAVAILABLE = 'AI Summary unavailable.';
+
+export interface Analysis {
+	summary: string;
+	classification: Classification;
+	entities: Entities;
+}
+
+// The summary from the reply's JSON. A prose reply is taken as the summary itself, but one that starts
+// JSON and was cut off is not.
+export function parseSummary(reply: string) {
+	const block = reply.match(/\{[\s\S]*\}/);
+	const prose = reply.trim();
+	if (!block) return prose && !prose.includes('{') ? prose : SUMMARY_UNAVAILABLE;
+	try {
+		const data = JSON.parse(block[0]);
+		if (typeof data.summary === 'string' && data.summary.trim()) return data.summary.trim();
+	} catch {
+		// Malformed JSON: no summary
+	}
+	return SUMMARY_UNAVAILABLE;
+}
+
+// One model call per incoming message for the summary, the classification and the entities. Each field
+// is read on its own, so a reply that gets one wrong still fills the others. Never throws: if the call
+// fails the message is stored unclassified, with the pattern entities only.
+export async function analyzeEmail(ai: Ai, email: { from: string; subject: string; text?: string; html?: string }): Promise<Analysis> {
+	const text = messageText(email);
+	const entities = findEntities(email);
+
+	const prompt =
+		'You read incoming email for a mail client. Reply with a JSON object only, with these keys:\n' +
+		'"summary": a brief 2-sentence summary that mentions any attachment types;\n' +
+		CLASSIFICATION_PROMPT +
+		ENTITIES_PROMPT +
+		'Use empty arrays when there are none. Only include what the email actually says.\n\n' +
+		`From: ${email.from}\nSubject: ${email.subject}\n\n${text.substring(0, 3000)}`;
+	try {
+		const res = (await ai.run('@cf/meta/llama-3-8b-instruct', { messages: [{ role: 'user', content: prompt }] })) as { response?: string };
+		const reply = res?.response ?? '';
+		return { summary: parseSummary(reply), classification: parseClassification(reply), entities: mergeModelEntities(entities, reply, text) };
+	} catch (e) {
+		console.error('AI analysis error:', e);
+		return { summary: SUMMARY_UNAVAILABLE, classification: UNCLASSIFIED, entities };
+	}
+}
@@ -0,0 +1,47 @@
+import type { Email } from 'postal-mime';
+import type { AttachmentRow } from './db';
+
+// The parsed JSON blob keeps attachment metadata only; the bytes live in their own R2 objects
+export type StoredEmail = Omit<Email, 'attachments'> & {
+	attachments: Omit<Email['attachments'][number], 'content'>[];
+};
+
+export function attachmentKey(username: string, emailId: string, idx: number) {
+	return `${username}/${emailId}/attachments/${idx}`;
+}
+
+export async function storeAttachments(bucket: R2Bucket, username: string, emailId: string, attachments: Email['attachments']) {
+	return Promise.all(
+		attachments.map(async (att, idx): Promise<AttachmentRow> => {
+			const content = typeof att.content === 'string' ? new TextEncoder().encode(att.content) : att.content;
+			const r2_key = attachmentKey(username, emailId, idx);
+
+			await bucket.put(r2_key, content, { httpMetadata: { contentType: att.mimeType } });
+			return {
+				email_id: emailId,
+				idx,
+				filename: att.filename,
+				content_type: att.mimeType,
+				size: content.byteLength,
+				// Stored without angle brackets so it can be matched against `cid:` URLs directly
+				content_id: att.contentId?.replace(/^<|>$/g, '') ?? null,
+				disposition: att.disposition,
+				r2_key,
+			};
+		})
+	);
+}
+
+export function stripAttachmentContent(parsed: Email): StoredEmail {
+	return {
+		...parsed,
+		attachments: parsed.attachments.map(({ content: _content, ...meta }) => meta),
+	};
+}
+
+// RFC 6266 header with an ASCII fallback plus the UTF-8 filename
+export function contentDisposition(type: 'attachment' | 'inline', filename: string | null) {
+	if (!filename) return type;
+	const fallback = filename.replace(/[^\x20-\x7e]|["\\]/g, '_');
+	return `${type}; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(filename)}`;
+}
@@ -0,0 +1,111 @@
+import { createMiddleware } from 'hono/factory';
+import { sign, verify } from 'hono/jwt';
+import * as db from './db';
+import { now } from './expiry';
+
+// Session tokens are short-lived; the client re-authenticates with /api/login after expiry.
+export const SESSION_TTL_SECONDS = 60 * 60 * 24;
+
+// API keys are long-lived bearer tokens for scripts; the prefix tells them apart from session JWTs
+export const API_KEY_PREFIX = 'amk_';
+export const MAX_API_KEYS = 10;
+
+export type AppEnv = {
+	Bindings: Env;
+	Variables: { username: string };
+};
+
+export interface SessionClaims {
+	username: string;
+	// The user's session_key when the token was issued
+	key: string | null;
+}
+
+export function generateSessionKey() {
+	return [...crypto.getRandomValues(new Uint8Array(16))].map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+export async function issueSessionToken(env: Env, username: string, sessionKey: string | null) {
+	const now = Math.floor(Date.now() / 1000);
+	return sign({ sub: username, sk: sessionKey, iat: now, exp: now + SESSION_TTL_SECONDS }, env.JWT_SECRET, 'HS256');
+}
+
+// Returns what the token was issued for, or null if it is forged, malformed or expired. Whether the
+// session has been ended since is up to the caller (see sessionUser).
+export async function verifySessionToken(env: Env, token: string): Promise<SessionClaims | null> {
+	try {
+		const payload = await verify(token, env.JWT_SECRET, 'HS256');
+		if (typeof payload.sub !== 'string') return null;
+		return { username: payload.sub, key: typeof payload.sk === 'string' ? payload.sk : null };
+	} catch {
+		return null;
+	}
+}
+
+// The username of a session that is still good. A token outlives neither its identity nor a change
+// of the user's session key, so a name claimed again after expiry can't be read with an old token.
+export async function sessionUser(env: Env, token: string) {
+	const claims = await verifySessionToken(env, token);
+	return claims && (await db.hasSession(env.DB, claims.username, claims.key, now())) ? claims.username : null;
+}
+
+// Gives the user a new session key, ending every session issued before, and returns a token for the
+// caller's own session under the new key
+export async function resetSessions(env: Env, username: string) {
+	const sessionKey = generateSessionKey();
+	await db.setSessionKey(env.DB, username, sessionKey);
+	return issueSessionToken(env, username, sessionKey);
+}
+
+// Browsers can't set headers on a WebSocket handshake, so upgrades carry the token in `?token=`.
+export function readSessionToken(request: Request) {
+	const header = request.headers.get('Authorization');
+	if (header?.startsWith('Bearer ')) return header.slice(7);
+	if (request.headers.get('Upgrade') === 'websocket') return new URL(request.url).searchParams.get('token');
+	return null;
+}
+
+export function generateApiKey() {
+	const bytes = crypto.getRandomValues(new Uint8Array(24));
+	const key = `${API_KEY_PREFIX}${btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_')}`;
+	return { key, prefix: key.substring(0, API_KEY_PREFIX.length + 6) };
+}
+
+// Keys are random, so a plain SHA-256 is enough to keep them unusable if the table leaks
+export async function hashApiKey(key: string) {
+	const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(key));
+	return [...new Uint8Array(digest)].map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Accepts either a session token or an API key
+export const requireAuth = createMiddleware<AppEnv>(async (c, next) => {
+	const token = readSessionToken(c.req.raw);
+	const username = !token
+		? null
+		: token.startsWith(API_KEY_PREFIX)
+			? await db.useApiKey(c.env.DB, await hashApiKey(token), now())
+			: await sessionUser(c.env, token);
+	if (!username) return c.json({ error: 'Unauthorized' }, 401);
+
+	c.set('username', username);
+	await next();
+});
+
+// ADMIN_TOKEN is an optional secret. `wrangler types` only lists it when a local .dev.vars sets it
+// (see .dev.vars.example), so it's read through this type rather than the generated Env.
+type OperatorSecrets = { ADMIN_TOKEN?: string };
+
+// Operator routes under /api/admin take the ADMIN_TOKEN secret as their bearer token. Without the
+// secret they are switched off. Both sides are hashed first so the comparison is constant-time.
+export const requireAdmin = createMiddleware<AppEnv>(async (c, next) => {
+	const token = readSessionToken(c.req.raw);
+	const { ADMIN_TOKEN: adminToken } = c.env as OperatorSecrets;
+	if (!adminToken || !token) return c.json({ error: 'Unauthorized' }, 401);
+
+	const digest = async (value: string) => new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value)));
+	const [given, expected] = await Promise.all([digest(token), digest(adminToken)]);
+	let diff = 0;
+	for (let i = 0; i < expected.length; i++) diff |= given[i] ^ expected[i];
+	if (diff !== 0) return c.json({ error: 'Unauthorized' }, 401);
+	await next();
+});
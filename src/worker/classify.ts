@@ -0,0 +1,68 @@
+// Structured classification of incoming mail: a coarse category (stored on emails.ai_category so
+// rules can match on it), spam and phishing scores, and the reasons behind them
+export const CATEGORIES = ['personal', 'work', 'newsletter', 'promotion', 'notification', 'receipt', 'security', 'spam'] as const;
+
+export type Category = (typeof CATEGORIES)[number];
+
+// Either score at or above this sends the message to the quarantine folder instead of the inbox
+export const QUARANTINE_SCORE = 80;
+const MAX_REASONS = 3;
+const MAX_REASON_LENGTH = 200;
+
+const CATEGORY_WORD = new RegExp(`\\b(${CATEGORIES.join('|')})\\b`);
+
+export interface Classification {
+	category: Category | null;
+	spam_score: number | null;
+	phishing_score: number | null;
+	reasons: string[];
+}
+
+export const UNCLASSIFIED: Classification = { category: null, spam_score: null, phishing_score: null, reasons: [] };
+
+// The classification keys of the ingest analysis prompt (see analyze.ts)
+export const CLASSIFICATION_PROMPT =
+	`"category": exactly one of ${CATEGORIES.join(', ')};\n` +
+	'"spam_score": 0-100, how likely the message is unsolicited bulk mail;\n' +
+	'"phishing_score": 0-100, how likely it tries to steal credentials, money or personal data;\n' +
+	`"reasons": up to ${MAX_REASONS} short reasons for the scores;\n`;
+
+export function isCategory(value: unknown): value is Category {
+	return CATEGORIES.includes(value as Category);
+}
+
+export function isHighRisk(c: Pick<Classification, 'spam_score' | 'phishing_score'>) {
+	return (c.spam_score ?? 0) >= QUARANTINE_SCORE || (c.phishing_score ?? 0) >= QUARANTINE_SCORE;
+}
+
+// 0-100; fractions like 0.9 are read as 90
+function toScore(value: unknown) {
+	const n = typeof value === 'string' && value.trim() ? Number(value) : value;
+	if (typeof n !== 'number' || !Number.isFinite(n)) return null;
+	return Math.round(Math.min(100, Math.max(0, n > 0 && n < 1 ? n * 100 : n)));
+}
+
+// The model's JSON is loose: the first {...} block in the reply is used, scores are clamped and
+// unknown categories dropped. A reply with no JSON at all still yields a category if it names one.
+export function parseClassification(reply: string): Classification {
+	const block = reply.match(/\{[\s\S]*\}/);
+	if (!block) {
+		const word = reply.toLowerCase().match(CATEGORY_WORD);
+		return { ...UNCLASSIFIED, category: word ? (word[1] as Category) : null };
+	}
+
+	let data: Record<string, unknown>;
+	try {
+		data = JSON.parse(block[0]);
+	} catch {
+		return UNCLASSIFIED;
+	}
+	const category = typeof data.category === 'string' ? data.category.trim().toLowerCase() : null;
+	const reasons = Array.isArray(data.reasons) ? data.reasons.filter((r): r is string => typeof r === 'string' && !!r.trim()) : [];
+	return {
+		category: isCategory(category) ? category : null,
+		spam_score: toScore(data.spam_score),
+		phishing_score: toScore(data.phishing_score),
+		reasons: reasons.slice(0, MAX_REASONS).map((r) => r.trim().substring(0, MAX_REASON_LENGTH)),
+	};
+}
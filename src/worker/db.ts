@@ -0,0 +1,1009 @@
+// Typed access to the D1 tables defined in /migrations. Routes and the email() handler
+// go through these helpers instead of writing SQL inline.
+
+export interface UserRow {
+	username: string;
+	password: string;
+	created_at: number;
+	expires_at: number | null;
+	message_ttl: number | null;
+	// Session tokens are issued under this key; changing it ends them. NULL only for rows inserted by hand.
+	session_key: string | null;
+}
+
+export interface EmailRow {
+	id: string;
+	username: string;
+	sender: string;
+	subject: string;
+	snippet: string;
+	raw_r2_key: string | null;
+	// Original RFC 822 message; NULL for mail stored before raw archival
+	eml_r2_key: string | null;
+	has_attachments: number;
+	is_read: number;
+	is_starred: number;
+	ai_summary: string | null;
+	ai_category: string | null;
+	spam_score: number | null;
+	phishing_score: number | null;
+	// JSON array of strings
+	ai_reasons: string | null;
+	// JSON object, see Entities in src/worker/extract.ts
+	ai_entities: string | null;
+	created_at: number;
+	expires_at: number | null;
+	folder: Folder;
+	message_id: string | null;
+	thread_id: string;
+	recipient: string | null;
+	// Our address the message arrived on (or was sent from); NULL for mail stored before domains
+	delivered_to: string | null;
+	// AuthStatus in src/worker/senderauth.ts; NULL for sent mail
+	auth_status: string | null;
+	// JSON object, see AuthResults in src/worker/senderauth.ts
+	auth_results: string | null;
+}
+
+export type Folder = 'inbox' | 'sent' | 'archive' | 'quarantine';
+
+export interface AttachmentRow {
+	email_id: string;
+	idx: number;
+	filename: string | null;
+	content_type: string;
+	size: number;
+	content_id: string | null;
+	disposition: string | null;
+	r2_key: string;
+}
+
+// conditions/actions are JSON; see RuleConditions/RuleActions in src/worker/rules.ts
+export interface RuleRow {
+	id: string;
+	username: string;
+	name: string;
+	enabled: number;
+	conditions: string;
+	actions: string;
+	created_at: number;
+}
+
+export interface WebhookRow {
+	id: string;
+	username: string;
+	url: string;
+	secret: string;
+	enabled: number;
+	// Only called by rules, without an email.received event for every message
+	rules_only: number;
+	created_at: number;
+}
+
+export type DeliveryStatus = 'pending' | 'retrying' | 'delivered' | 'failed';
+
+export interface DeliveryRow {
+	id: string;
+	webhook_id: string;
+	event: string;
+	payload: string;
+	status: DeliveryStatus;
+	attempts: number;
+	response_status: number | null;
+	error: string | null;
+	created_at: number;
+	last_attempt_at: number | null;
+	next_attempt_at: number | null;
+}
+
+export interface ApiKeyRow {
+	id: string;
+	username: string;
+	name: string;
+	prefix: string;
+	key_hash: string;
+	created_at: number;
+	last_used_at: number | null;
+}
+
+// `local_part` alone is the primary key: a local part is unique across every served domain, so
+// jane@a.example and jane@b.example can't belong to different accounts, and a username (the primary
+// local part) names exactly one mailbox. Lookups by local part rely on this.
+export interface AddressRow {
+	local_part: string;
+	username: string;
+	// NULL for the deployment's DOMAIN var
+	domain: string | null;
+	created_at: number;
+}
+
+export interface DomainRow {
+	name: string;
+	enabled: number;
+	created_at: number;
+}
+
+export interface LabelRow {
+	id: string;
+	username: string;
+	name: string;
+	color: string;
+	created_at: number;
+}
+
+// Columns returned by the inbox listing: R2 keys stay server-side, and the AI reasons, entities and
+// authentication details are only loaded with the full message
+export type EmailSummary = Omit<EmailRow, 'username' | 'raw_r2_key' | 'eml_r2_key' | 'ai_reasons' | 'ai_entities' | 'auth_results'> & {
+	labels: string[];
+};
+
+// What deleting a message has to clean up in R2, besides its attachments
+export type StoredEmailKeys = Pick<EmailRow, 'id' | 'raw_r2_key' | 'eml_r2_key'>;
+
+// Flags a client may change on its own messages; archiving moves between 'inbox' and 'archive'
+export type EmailChanges = Partial<Pick<EmailRow, 'is_read' | 'is_starred'>> & { folder?: 'inbox' | 'archive' };
+
+export type LabelSummary = Pick<LabelRow, 'id' | 'name' | 'color'> & { total: number; unread: number };
+
+export type FolderCounts = Record<Folder | 'starred', { total: number; unread: number }>;
+
+export type NewEmail = Pick<
+	EmailRow,
+	| 'id'
+	| 'username'
+	| 'sender'
+	| 'subject'
+	| 'snippet'
+	| 'raw_r2_key'
+	| 'has_attachments'
+	| 'ai_summary'
+	| 'expires_at'
+	| 'message_id'
+	| 'thread_id'
+> &
+	Partial<
+		Pick<
+			EmailRow,
+			| 'eml_r2_key'
+			| 'folder'
+			| 'recipient'
+			| 'is_read'
+			| 'ai_category'
+			| 'spam_score'
+			| 'phishing_score'
+			| 'ai_reasons'
+			| 'ai_entities'
+			| 'delivered_to'
+			| 'auth_status'
+			| 'auth_results'
+		>
+	>;
+
+export type SearchFields = Pick<EmailRow, 'subject' | 'sender' | 'ai_summary'>;
+
+export type SearchResult = EmailSummary & { highlight: string };
+
+export type NewUser = Pick<UserRow, 'username' | 'password' | 'expires_at' | 'message_ttl' | 'session_key'>;
+
+// --- Users ---
+
+// Also claims the username on `domain` as the account's primary address. False when the name is
+// already taken; the batch runs as one transaction, so a lost race leaves nothing behind.
+export async function createUser(db: D1Database, user: NewUser, domain: string | null) {
+	try {
+		await db.batch([
+			db
+				.prepare('INSERT INTO users (username, password, expires_at, message_ttl, session_key) VALUES (?, ?, ?, ?, ?)')
+				.bind(user.username, user.password, user.expires_at, user.message_ttl, user.session_key),
+			db.prepare('INSERT INTO addresses (local_part, username, domain) VALUES (?, ?, ?)').bind(user.username, user.username, domain),
+		]);
+		return true;
+	} catch (e) {
+		if (e instanceof Error && e.message.includes('UNIQUE constraint failed')) return false;
+		throw e;
+	}
+}
+
+// Expired identities are treated as gone even before the cleanup cron removes them
+export async function getActiveUser(db: D1Database, username: string, now: number) {
+	return db
+		.prepare(
+			'SELECT username, created_at, expires_at, message_ttl, session_key FROM users WHERE username = ? AND (expires_at IS NULL OR expires_at > ?)'
+		)
+		.bind(username, now)
+		.first<Omit<UserRow, 'password'>>();
+}
+
+export async function setUserExpiry(db: D1Database, username: string, expiresAt: number) {
+	await db.prepare('UPDATE users SET expires_at = ? WHERE username = ?').bind(expiresAt, username).run();
+}
+
+export async function listExpiredUsers(db: D1Database, now: number, limit: number) {
+	const { results } = await db
+		.prepare('SELECT username FROM users WHERE expires_at IS NOT NULL AND expires_at <= ? LIMIT ?')
+		.bind(now, limit)
+		.all<{ username: string }>();
+	return results.map((r) => r.username);
+}
+
+export async function deleteUser(db: D1Database, username: string) {
+	await db.batch([
+		db.prepare('DELETE FROM attachments WHERE email_id IN (SELECT id FROM emails WHERE username = ?)').bind(username),
+		db.prepare('DELETE FROM email_labels WHERE email_id IN (SELECT id FROM emails WHERE username = ?)').bind(username),
+		db.prepare('DELETE FROM labels WHERE username = ?').bind(username),
+		db.prepare('DELETE FROM rules WHERE username = ?').bind(username),
+		db.prepare('DELETE FROM webhook_deliveries WHERE webhook_id IN (SELECT id FROM webhooks WHERE username = ?)').bind(username),
+		db.prepare('DELETE FROM webhooks WHERE username = ?').bind(username),
+		db.prepare('DELETE FROM api_keys WHERE username = ?').bind(username),
+		db.prepare('DELETE FROM addresses WHERE username = ?').bind(username),
+		db.prepare('DELETE FROM blocked_senders WHERE username = ?').bind(username),
+		db.prepare('DELETE FROM emails WHERE username = ?').bind(username),
+		db.prepare('DELETE FROM users WHERE username = ?').bind(username),
+	]);
+}
+
+export async function getPasswordHash(db: D1Database, username: string) {
+	return db.prepare('SELECT password FROM users WHERE username = ?').bind(username).first<string>('password');
+}
+
+export async function setPasswordHash(db: D1Database, username: string, passwordHash: string) {
+	await db.prepare('UPDATE users SET password = ? WHERE username = ?').bind(passwordHash, username).run();
+}
+
+export async function setSessionKey(db: D1Database, username: string, sessionKey: string) {
+	await db.prepare('UPDATE users SET session_key = ? WHERE username = ?').bind(sessionKey, username).run();
+}
+
+// Whether a session issued under `sessionKey` is still good: the identity is active and its key unchanged
+export async function hasSession(db: D1Database, username: string, sessionKey: string | null, now: number) {
+	const row = await db
+		.prepare('SELECT 1 AS ok FROM users WHERE username = ? AND session_key IS ? AND (expires_at IS NULL OR expires_at > ?)')
+		.bind(username, sessionKey, now)
+		.first<number>('ok');
+	return row === 1;
+}
+
+// --- Addresses ---
+
+// The primary address (local part = username) first, then aliases in the order they were added
+export async function listAddresses(db: D1Database, username: string) {
+	const { results } = await db
+		.prepare('SELECT local_part, domain, created_at FROM addresses WHERE username = ? ORDER BY local_part != username, created_at, rowid')
+		.bind(username)
+		.all<Omit<AddressRow, 'username'>>();
+	return results;
+}
+
+export async function countAliases(db: D1Database, username: string) {
+	return (await db.prepare('SELECT COUNT(*) AS n FROM addresses WHERE username = ? AND local_part != username').bind(username).first<number>('n')) ?? 0;
+}
+
+// Local parts are unique across domains (see AddressRow), so this also tells whether one is taken
+export async function getAddress(db: D1Database, localPart: string) {
+	return db.prepare('SELECT * FROM addresses WHERE local_part = ?').bind(localPart).first<AddressRow>();
+}
+
+// False when the local part is already taken
+export async function createAddress(db: D1Database, username: string, localPart: string, domain: string | null) {
+	const result = await db
+		.prepare('INSERT OR IGNORE INTO addresses (local_part, username, domain) VALUES (?, ?, ?)')
+		.bind(localPart, username, domain)
+		.run();
+	return result.meta.changes > 0;
+}
+
+// The primary address can't be removed
+export async function deleteAddress(db: D1Database, username: string, localPart: string) {
+	const result = await db
+		.prepare('DELETE FROM addresses WHERE local_part = ? AND username = ? AND local_part != username')
+		.bind(localPart, username)
+		.run();
+	return result.meta.changes > 0;
+}
+
+// --- Blocked senders ---
+
+export async function listBlockedSenders(db: D1Database, username: string) {
+	const { results } = await db
+		.prepare('SELECT pattern, created_at FROM blocked_senders WHERE username = ? ORDER BY created_at DESC, rowid DESC')
+		.bind(username)
+		.all<{ pattern: string; created_at: number }>();
+	return results;
+}
+
+export async function countBlockedSenders(db: D1Database, username: string) {
+	return (await db.prepare('SELECT COUNT(*) AS n FROM blocked_senders WHERE username = ?').bind(username).first<number>('n')) ?? 0;
+}
+
+// False when the pattern was already blocked
+export async function blockSender(db: D1Database, username: string, pattern: string) {
+	const result = await db.prepare('INSERT OR IGNORE INTO blocked_senders (username, pattern) VALUES (?, ?)').bind(username, pattern).run();
+	return result.meta.changes > 0;
+}
+
+export async function unblockSender(db: D1Database, username: string, pattern: string) {
+	const result = await db.prepare('DELETE FROM blocked_senders WHERE username = ? AND pattern = ?').bind(username, pattern).run();
+	return result.meta.changes > 0;
+}
+
+export async function listGlobalBlocks(db: D1Database) {
+	const { results } = await db
+		.prepare('SELECT pattern, created_at FROM global_blocked_senders ORDER BY created_at DESC, rowid DESC')
+		.all<{ pattern: string; created_at: number }>();
+	return results;
+}
+
+export async function addGlobalBlock(db: D1Database, pattern: string) {
+	const result = await db.prepare('INSERT OR IGNORE INTO global_blocked_senders (pattern) VALUES (?)').bind(pattern).run();
+	return result.meta.changes > 0;
+}
+
+export async function removeGlobalBlock(db: D1Database, pattern: string) {
+	const result = await db.prepare('DELETE FROM global_blocked_senders WHERE pattern = ?').bind(pattern).run();
+	return result.meta.changes > 0;
+}
+
+// Which list, if any, blocks one of `patterns` for this mailbox; the global list wins
+export async function findBlock(db: D1Database, username: string, patterns: string[]): Promise<'global' | 'mailbox' | null> {
+	const marks = patterns.map(() => '?').join(', ');
+	const row = await db
+		.prepare(
+			`SELECT 'global' AS scope FROM global_blocked_senders WHERE pattern IN (${marks})
+			 UNION ALL
+			 SELECT 'mailbox' FROM blocked_senders WHERE username = ? AND pattern IN (${marks})
+			 LIMIT 1`
+		)
+		.bind(...patterns, username, ...patterns)
+		.first<{ scope: 'global' | 'mailbox' }>();
+	return row?.scope ?? null;
+}
+
+// --- Domains ---
+
+export async function listDomains(db: D1Database) {
+	const { results } = await db.prepare('SELECT * FROM domains ORDER BY name').all<DomainRow>();
+	return results;
+}
+
+export async function getDomain(db: D1Database, name: string) {
+	return db.prepare('SELECT * FROM domains WHERE name = ?').bind(name).first<DomainRow>();
+}
+
+// False when the domain is already listed
+export async function createDomain(db: D1Database, name: string) {
+	const result = await db.prepare('INSERT OR IGNORE INTO domains (name) VALUES (?)').bind(name).run();
+	return result.meta.changes > 0;
+}
+
+export async function setDomainEnabled(db: D1Database, name: string, enabled: boolean) {
+	const result = await db.prepare('UPDATE domains SET enabled = ? WHERE name = ?').bind(enabled ? 1 : 0, name).run();
+	return result.meta.changes > 0;
+}
+
+// --- API keys ---
+
+export async function listApiKeys(db: D1Database, username: string) {
+	const { results } = await db
+		.prepare('SELECT id, name, prefix, created_at, last_used_at FROM api_keys WHERE username = ? ORDER BY created_at, rowid')
+		.bind(username)
+		.all<Omit<ApiKeyRow, 'username' | 'key_hash'>>();
+	return results;
+}
+
+export async function countApiKeys(db: D1Database, username: string) {
+	return (await db.prepare('SELECT COUNT(*) AS n FROM api_keys WHERE username = ?').bind(username).first<number>('n')) ?? 0;
+}
+
+export async function createApiKey(db: D1Database, key: Pick<ApiKeyRow, 'id' | 'username' | 'name' | 'prefix' | 'key_hash'>) {
+	await db
+		.prepare('INSERT INTO api_keys (id, username, name, prefix, key_hash) VALUES (?, ?, ?, ?, ?)')
+		.bind(key.id, key.username, key.name, key.prefix, key.key_hash)
+		.run();
+}
+
+export async function deleteApiKey(db: D1Database, username: string, id: string) {
+	const result = await db.prepare('DELETE FROM api_keys WHERE id = ? AND username = ?').bind(id, username).run();
+	return result.meta.changes > 0;
+}
+
+// Owner of the key, provided the identity hasn't expired; also records the use
+export async function useApiKey(db: D1Database, keyHash: string, now: number) {
+	const username = await db
+		.prepare(
+			`SELECT k.username FROM api_keys k JOIN users u ON u.username = k.username
+			 WHERE k.key_hash = ? AND (u.expires_at IS NULL OR u.expires_at > ?)`
+		)
+		.bind(keyHash, now)
+		.first<string>('username');
+	if (username) await db.prepare('UPDATE api_keys SET last_used_at = ? WHERE key_hash = ?').bind(now, keyHash).run();
+	return username;
+}
+
+// --- Emails ---
+
+const SUMMARY_FIELDS = [
+	'id',
+	'sender',
+	'subject',
+	'snippet',
+	'has_attachments',
+	'is_read',
+	'is_starred',
+	'ai_summary',
+	'ai_category',
+	'spam_score',
+	'phishing_score',
+	'created_at',
+	'expires_at',
+	'folder',
+	'message_id',
+	'thread_id',
+	'recipient',
+	'auth_status',
+];
+
+// Listing columns qualified by `table`, plus the message's label ids as a JSON array
+function summaryColumns(table = 'emails') {
+	const labels = `(SELECT json_group_array(label_id) FROM email_labels WHERE email_id = ${table}.id) AS labels`;
+	return [...SUMMARY_FIELDS.map((f) => `${table}.${f}`), labels].join(', ');
+}
+
+type SummaryRecord<T extends EmailSummary = EmailSummary> = Omit<T, 'labels'> & { labels: string };
+
+function toSummary<T extends EmailSummary>(row: SummaryRecord<T>) {
+	return { ...row, labels: JSON.parse(row.labels) as string[] } as T;
+}
+
+export interface EmailListQuery {
+	// null lists every folder (used by the Starred and label views)
+	folder: Folder | null;
+	limit: number;
+	// Last row of the previous page; rows strictly older than it are returned
+	cursor: Pick<EmailRow, 'created_at' | 'id'> | null;
+	unread: boolean;
+	hasAttachments: boolean;
+	starred: boolean;
+	labelId: string | null;
+	// Case-insensitive substring of the sender address
+	sender: string | null;
+	// One of AUTH_STATUSES in src/worker/senderauth.ts
+	auth: string | null;
+	since: number | null;
+	until: number | null;
+}
+
+// One page of a folder, newest first, ordered by (created_at, id) so the cursor is stable
+export async function listEmails(db: D1Database, username: string, query: EmailListQuery) {
+	const where = ['username = ?'];
+	const params: (string | number)[] = [username];
+
+	if (query.folder) {
+		where.push('folder = ?');
+		params.push(query.folder);
+	}
+	if (query.cursor) {
+		where.push('(created_at < ? OR (created_at = ? AND id < ?))');
+		params.push(query.cursor.created_at, query.cursor.created_at, query.cursor.id);
+	}
+	if (query.unread) where.push('is_read = 0');
+	if (query.hasAttachments) where.push('has_attachments = 1');
+	if (query.starred) where.push('is_starred = 1');
+	if (query.labelId) {
+		where.push('id IN (SELECT email_id FROM email_labels WHERE label_id = ?)');
+		params.push(query.labelId);
+	}
+	if (query.sender) {
+		where.push("sender LIKE ? ESCAPE '\\'");
+		params.push(`%${query.sender.replace(/[\\%_]/g, '\\$&')}%`);
+	}
+	if (query.auth) {
+		where.push('auth_status = ?');
+		params.push(query.auth);
+	}
+	if (query.since !== null) {
+		where.push('created_at >= ?');
+		params.push(query.since);
+	}
+	if (query.until !== null) {
+		where.push('created_at < ?');
+		params.push(query.until);
+	}
+
+	const { results } = await db
+		.prepare(`SELECT ${summaryColumns()} FROM emails WHERE ${where.join(' AND ')} ORDER BY created_at DESC, id DESC LIMIT ?`)
+		.bind(...params, query.limit)
+		.all<SummaryRecord>();
+	return results.map(toSummary);
+}
+
+// Every message in a conversation, across folders, oldest first
+export async function listThread(db: D1Database, username: string, threadId: string) {
+	const { results } = await db
+		.prepare(`SELECT ${summaryColumns()} FROM emails WHERE username = ? AND thread_id = ? ORDER BY created_at ASC, rowid ASC`)
+		.bind(username, threadId)
+		.all<SummaryRecord>();
+	return results.map(toSummary);
+}
+
+// Finds the thread an incoming message belongs to from the Message-IDs it references
+export async function findThreadId(db: D1Database, username: string, messageIds: string[]) {
+	if (messageIds.length === 0) return null;
+	return db
+		.prepare(
+			`SELECT thread_id FROM emails WHERE username = ? AND message_id IN (${messageIds.map(() => '?').join(', ')}) ORDER BY created_at DESC LIMIT 1`
+		)
+		.bind(username, ...messageIds)
+		.first<string>('thread_id');
+}
+
+export async function getEmail(db: D1Database, id: string, username: string) {
+	return db.prepare('SELECT * FROM emails WHERE id = ? AND username = ?').bind(id, username).first<EmailRow>();
+}
+
+// Listing row for a single message, e.g. to push a newly stored email to connected clients
+export async function getEmailSummary(db: D1Database, id: string) {
+	const row = await db.prepare(`SELECT ${summaryColumns()} FROM emails WHERE id = ?`).bind(id).first<SummaryRecord>();
+	return row ? toSummary(row) : null;
+}
+
+export async function insertEmail(db: D1Database, email: NewEmail) {
+	await db
+		.prepare(
+			`INSERT INTO emails (id, username, sender, subject, snippet, raw_r2_key, has_attachments, ai_summary, expires_at,
+			                     message_id, thread_id, folder, recipient, is_read, ai_category, spam_score, phishing_score, ai_reasons,
+			                     ai_entities, delivered_to, auth_status, auth_results, eml_r2_key)
+			 VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+		)
+		.bind(
+			email.id,
+			email.username,
+			email.sender,
+			email.subject,
+			email.snippet,
+			email.raw_r2_key,
+			email.has_attachments,
+			email.ai_summary,
+			email.expires_at,
+			email.message_id,
+			email.thread_id,
+			email.folder ?? 'inbox',
+			email.recipient ?? null,
+			email.is_read ?? 0,
+			email.ai_category ?? null,
+			email.spam_score ?? null,
+			email.phishing_score ?? null,
+			email.ai_reasons ?? null,
+			email.ai_entities ?? null,
+			email.delivered_to ?? null,
+			email.auth_status ?? null,
+			email.auth_results ?? null,
+			email.eml_r2_key ?? null
+		)
+		.run();
+}
+
+export async function listExpiredEmails(db: D1Database, now: number, limit: number) {
+	const { results } = await db
+		.prepare('SELECT id, raw_r2_key, eml_r2_key FROM emails WHERE expires_at IS NOT NULL AND expires_at <= ? LIMIT ?')
+		.bind(now, limit)
+		.all<StoredEmailKeys>();
+	return results;
+}
+
+export async function deleteEmails(db: D1Database, ids: string[]) {
+	if (ids.length === 0) return;
+	const placeholders = ids.map(() => '?').join(', ');
+	await db.batch([
+		db.prepare(`DELETE FROM attachments WHERE email_id IN (${placeholders})`).bind(...ids),
+		db.prepare(`DELETE FROM email_labels WHERE email_id IN (${placeholders})`).bind(...ids),
+		db.prepare(`DELETE FROM emails WHERE id IN (${placeholders})`).bind(...ids),
+	]);
+}
+
+// Of `ids`, the ones that belong to `username`, with what a delete needs to clean up in R2
+export async function listOwnedEmails(db: D1Database, username: string, ids: string[]) {
+	if (ids.length === 0) return [];
+	const { results } = await db
+		.prepare(`SELECT id, raw_r2_key, eml_r2_key FROM emails WHERE username = ? AND id IN (${ids.map(() => '?').join(', ')})`)
+		.bind(username, ...ids)
+		.all<StoredEmailKeys>();
+	return results;
+}
+
+// Applies flag/folder changes to the caller's messages. Sent mail never moves folders.
+export async function updateEmails(db: D1Database, username: string, ids: string[], changes: EmailChanges) {
+	const sets: string[] = [];
+	const params: (string | number)[] = [];
+	if (changes.is_read !== undefined) {
+		sets.push('is_read = ?');
+		params.push(changes.is_read);
+	}
+	if (changes.is_starred !== undefined) {
+		sets.push('is_starred = ?');
+		params.push(changes.is_starred);
+	}
+	if (changes.folder) {
+		sets.push("folder = CASE WHEN folder = 'sent' THEN folder ELSE ? END");
+		params.push(changes.folder);
+	}
+	if (ids.length === 0 || sets.length === 0) return;
+
+	await db
+		.prepare(`UPDATE emails SET ${sets.join(', ')} WHERE username = ? AND id IN (${ids.map(() => '?').join(', ')})`)
+		.bind(...params, username, ...ids)
+		.run();
+}
+
+export interface WaitFilter {
+	from: string | null;
+	subject: string | null;
+	since: number;
+}
+
+// Newest received message that satisfies a /api/wait filter (case-insensitive substrings)
+export async function findWaitMatch(db: D1Database, username: string, filter: WaitFilter) {
+	const like = (value: string) => `%${value.replace(/[\\%_]/g, '\\$&')}%`;
+	const row = await db
+		.prepare(
+			`SELECT ${summaryColumns()} FROM emails
+			 WHERE username = ? AND folder != 'sent' AND created_at >= ?
+			   AND (? IS NULL OR sender LIKE ? ESCAPE '\\') AND (? IS NULL OR subject LIKE ? ESCAPE '\\')
+			 ORDER BY created_at DESC, id DESC LIMIT 1`
+		)
+		.bind(username, filter.since, filter.from, filter.from && like(filter.from), filter.subject, filter.subject && like(filter.subject))
+		.first<SummaryRecord>();
+	return row ? toSummary(row) : null;
+}
+
+// --- Labels ---
+
+export async function listLabels(db: D1Database, username: string) {
+	const { results } = await db
+		.prepare(
+			`SELECT l.id, l.name, l.color, COUNT(e.id) AS total, COALESCE(SUM(e.is_read = 0), 0) AS unread
+			 FROM labels l
+			 LEFT JOIN email_labels el ON el.label_id = l.id
+			 LEFT JOIN emails e ON e.id = el.email_id
+			 WHERE l.username = ?
+			 GROUP BY l.id ORDER BY l.name COLLATE NOCASE`
+		)
+		.bind(username)
+		.all<LabelSummary>();
+	return results;
+}
+
+export async function getLabel(db: D1Database, username: string, id: string) {
+	return db.prepare('SELECT * FROM labels WHERE id = ? AND username = ?').bind(id, username).first<LabelRow>();
+}
+
+export async function getLabelByName(db: D1Database, username: string, name: string) {
+	return db.prepare('SELECT * FROM labels WHERE username = ? AND name = ? COLLATE NOCASE').bind(username, name).first<LabelRow>();
+}
+
+export async function createLabel(db: D1Database, label: Pick<LabelRow, 'id' | 'username' | 'name' | 'color'>) {
+	await db.prepare('INSERT INTO labels (id, username, name, color) VALUES (?, ?, ?, ?)').bind(label.id, label.username, label.name, label.color).run();
+}
+
+// Id of the label with this name (matched like getLabelByName), creating it in the default colour if needed
+export async function ensureLabel(db: D1Database, username: string, name: string) {
+	const existing = await getLabelByName(db, username, name);
+	if (existing) return existing.id;
+	await db
+		.prepare('INSERT INTO labels (id, username, name) VALUES (?, ?, ?) ON CONFLICT (username, name) DO NOTHING')
+		.bind(crypto.randomUUID(), username, name)
+		.run();
+	return (await getLabelByName(db, username, name))!.id;
+}
+
+export async function updateLabel(db: D1Database, username: string, id: string, changes: Partial<Pick<LabelRow, 'name' | 'color'>>) {
+	const result = await db
+		.prepare('UPDATE labels SET name = COALESCE(?, name), color = COALESCE(?, color) WHERE id = ? AND username = ?')
+		.bind(changes.name ?? null, changes.color ?? null, id, username)
+		.run();
+	return result.meta.changes > 0;
+}
+
+export async function deleteLabel(db: D1Database, username: string, id: string) {
+	const [, result] = await db.batch([
+		db.prepare('DELETE FROM email_labels WHERE label_id IN (SELECT id FROM labels WHERE id = ? AND username = ?)').bind(id, username),
+		db.prepare('DELETE FROM labels WHERE id = ? AND username = ?').bind(id, username),
+	]);
+	return result.meta.changes > 0;
+}
+
+// Label ids are checked against the owner on both sides, so a client can't tag into another mailbox
+export async function addLabels(db: D1Database, username: string, ids: string[], labelIds: string[]) {
+	if (ids.length === 0 || labelIds.length === 0) return;
+	await db
+		.prepare(
+			`INSERT OR IGNORE INTO email_labels (email_id, label_id)
+			 SELECT e.id, l.id FROM emails e JOIN labels l ON l.username = e.username
+			 WHERE e.username = ? AND e.id IN (${ids.map(() => '?').join(', ')}) AND l.id IN (${labelIds.map(() => '?').join(', ')})`
+		)
+		.bind(username, ...ids, ...labelIds)
+		.run();
+}
+
+export async function removeLabels(db: D1Database, username: string, ids: string[], labelIds: string[]) {
+	if (ids.length === 0 || labelIds.length === 0) return;
+	await db
+		.prepare(
+			`DELETE FROM email_labels
+			 WHERE email_id IN (SELECT id FROM emails WHERE username = ? AND id IN (${ids.map(() => '?').join(', ')}))
+			   AND label_id IN (${labelIds.map(() => '?').join(', ')})`
+		)
+		.bind(username, ...ids, ...labelIds)
+		.run();
+}
+
+export async function folderCounts(db: D1Database, username: string): Promise<FolderCounts> {
+	const row = await db
+		.prepare(
+			`SELECT
+			   SUM(folder = 'inbox') AS inbox_total, SUM(folder = 'inbox' AND is_read = 0) AS inbox_unread,
+			   SUM(folder = 'sent') AS sent_total, SUM(folder = 'sent' AND is_read = 0) AS sent_unread,
+			   SUM(folder = 'archive') AS archive_total, SUM(folder = 'archive' AND is_read = 0) AS archive_unread,
+			   SUM(folder = 'quarantine') AS quarantine_total, SUM(folder = 'quarantine' AND is_read = 0) AS quarantine_unread,
+			   SUM(is_starred = 1) AS starred_total, SUM(is_starred = 1 AND is_read = 0) AS starred_unread
+			 FROM emails WHERE username = ?`
+		)
+		.bind(username)
+		.first<Record<string, number | null>>();
+	const count = (key: string) => ({ total: row?.[`${key}_total`] ?? 0, unread: row?.[`${key}_unread`] ?? 0 });
+	return { inbox: count('inbox'), sent: count('sent'), archive: count('archive'), quarantine: count('quarantine'), starred: count('starred') };
+}
+
+// --- Rules ---
+
+export async function listRules(db: D1Database, username: string, enabledOnly = false) {
+	const { results } = await db
+		.prepare(`SELECT * FROM rules WHERE username = ?${enabledOnly ? ' AND enabled = 1' : ''} ORDER BY created_at, rowid`)
+		.bind(username)
+		.all<RuleRow>();
+	return results;
+}
+
+export async function getRule(db: D1Database, username: string, id: string) {
+	return db.prepare('SELECT * FROM rules WHERE id = ? AND username = ?').bind(id, username).first<RuleRow>();
+}
+
+export async function countRules(db: D1Database, username: string) {
+	return (await db.prepare('SELECT COUNT(*) AS n FROM rules WHERE username = ?').bind(username).first<number>('n')) ?? 0;
+}
+
+export async function createRule(db: D1Database, rule: Omit<RuleRow, 'created_at'>) {
+	await db
+		.prepare('INSERT INTO rules (id, username, name, enabled, conditions, actions) VALUES (?, ?, ?, ?, ?, ?)')
+		.bind(rule.id, rule.username, rule.name, rule.enabled, rule.conditions, rule.actions)
+		.run();
+}
+
+export async function updateRule(db: D1Database, username: string, id: string, changes: Partial<Pick<RuleRow, 'name' | 'enabled' | 'conditions' | 'actions'>>) {
+	const result = await db
+		.prepare(
+			`UPDATE rules SET name = COALESCE(?, name), enabled = COALESCE(?, enabled), conditions = COALESCE(?, conditions),
+			                  actions = COALESCE(?, actions)
+			 WHERE id = ? AND username = ?`
+		)
+		.bind(changes.name ?? null, changes.enabled ?? null, changes.conditions ?? null, changes.actions ?? null, id, username)
+		.run();
+	return result.meta.changes > 0;
+}
+
+export async function deleteRule(db: D1Database, username: string, id: string) {
+	const result = await db.prepare('DELETE FROM rules WHERE id = ? AND username = ?').bind(id, username).run();
+	return result.meta.changes > 0;
+}
+
+// Newest received messages, for dry-running a rule; sent mail never goes through rules
+export async function listRuleCandidates(db: D1Database, username: string, limit: number) {
+	const { results } = await db
+		.prepare(`SELECT ${summaryColumns()} FROM emails WHERE username = ? AND folder != 'sent' ORDER BY created_at DESC, id DESC LIMIT ?`)
+		.bind(username, limit)
+		.all<SummaryRecord>();
+	return results.map((row) => toSummary(row));
+}
+
+// --- Webhooks ---
+
+// The signing secret is left out; it is only handed out when the webhook is created
+const WEBHOOK_FIELDS = 'id, url, enabled, rules_only, created_at';
+
+export async function listWebhooks(db: D1Database, username: string) {
+	const { results } = await db
+		.prepare(`SELECT ${WEBHOOK_FIELDS} FROM webhooks WHERE username = ? ORDER BY created_at, rowid`)
+		.bind(username)
+		.all<Omit<WebhookRow, 'username' | 'secret'>>();
+	return results;
+}
+
+// The webhooks that get an email.received event for every stored message
+export async function listMailWebhooks(db: D1Database, username: string) {
+	const { results } = await db
+		.prepare('SELECT * FROM webhooks WHERE username = ? AND enabled = 1 AND rules_only = 0')
+		.bind(username)
+		.all<WebhookRow>();
+	return results;
+}
+
+export async function getWebhook(db: D1Database, username: string, id: string) {
+	return db.prepare('SELECT * FROM webhooks WHERE id = ? AND username = ?').bind(id, username).first<WebhookRow>();
+}
+
+export async function countWebhooks(db: D1Database, username: string) {
+	return (await db.prepare('SELECT COUNT(*) AS n FROM webhooks WHERE username = ?').bind(username).first<number>('n')) ?? 0;
+}
+
+export async function createWebhook(db: D1Database, webhook: Pick<WebhookRow, 'id' | 'username' | 'url' | 'secret' | 'rules_only'>) {
+	await db
+		.prepare('INSERT INTO webhooks (id, username, url, secret, rules_only) VALUES (?, ?, ?, ?, ?)')
+		.bind(webhook.id, webhook.username, webhook.url, webhook.secret, webhook.rules_only)
+		.run();
+}
+
+export async function updateWebhook(
+	db: D1Database,
+	username: string,
+	id: string,
+	changes: Partial<Pick<WebhookRow, 'url' | 'enabled' | 'rules_only'>>
+) {
+	const result = await db
+		.prepare(
+			'UPDATE webhooks SET url = COALESCE(?, url), enabled = COALESCE(?, enabled), rules_only = COALESCE(?, rules_only) WHERE id = ? AND username = ?'
+		)
+		.bind(changes.url ?? null, changes.enabled ?? null, changes.rules_only ?? null, id, username)
+		.run();
+	return result.meta.changes > 0;
+}
+
+export async function deleteWebhook(db: D1Database, username: string, id: string) {
+	const [, result] = await db.batch([
+		db.prepare('DELETE FROM webhook_deliveries WHERE webhook_id IN (SELECT id FROM webhooks WHERE id = ? AND username = ?)').bind(id, username),
+		db.prepare('DELETE FROM webhooks WHERE id = ? AND username = ?').bind(id, username),
+	]);
+	return result.meta.changes > 0;
+}
+
+export async function insertDeliveries(db: D1Database, deliveries: Pick<DeliveryRow, 'id' | 'webhook_id' | 'event' | 'payload'>[]) {
+	if (deliveries.length === 0) return;
+	await db.batch(
+		deliveries.map((d) =>
+			db.prepare('INSERT INTO webhook_deliveries (id, webhook_id, event, payload) VALUES (?, ?, ?, ?)').bind(d.id, d.webhook_id, d.event, d.payload)
+		)
+	);
+}
+
+// A delivery together with where it goes; null once the webhook has been deleted
+export async function getDeliveryTarget(db: D1Database, id: string) {
+	return db
+		.prepare(
+			`SELECT d.*, w.url, w.secret, w.enabled FROM webhook_deliveries d JOIN webhooks w ON w.id = d.webhook_id WHERE d.id = ?`
+		)
+		.bind(id)
+		.first<DeliveryRow & Pick<WebhookRow, 'url' | 'secret' | 'enabled'>>();
+}
+
+export async function recordDeliveryAttempt(
+	db: D1Database,
+	id: string,
+	attempt: Pick<DeliveryRow, 'status' | 'attempts' | 'response_status' | 'error' | 'last_attempt_at' | 'next_attempt_at'>
+) {
+	await db
+		.prepare(
+			`UPDATE webhook_deliveries SET status = ?, attempts = ?, response_status = ?, error = ?, last_attempt_at = ?, next_attempt_at = ?
+			 WHERE id = ?`
+		)
+		.bind(attempt.status, attempt.attempts, attempt.response_status, attempt.error, attempt.last_attempt_at, attempt.next_attempt_at, id)
+		.run();
+}
+
+export async function listDeliveries(db: D1Database, webhookId: string, limit: number) {
+	const { results } = await db
+		.prepare('SELECT * FROM webhook_deliveries WHERE webhook_id = ? ORDER BY created_at DESC, rowid DESC LIMIT ?')
+		.bind(webhookId, limit)
+		.all<DeliveryRow>();
+	return results;
+}
+
+export async function pruneDeliveries(db: D1Database, before: number) {
+	const result = await db.prepare('DELETE FROM webhook_deliveries WHERE created_at < ?').bind(before).run();
+	return result.meta.changes;
+}
+
+// --- Rate limits ---
+
+// Counts one more hit against `key` in the window and returns the new total
+export async function incrementRateLimit(db: D1Database, key: string, windowStart: number) {
+	const count = await db
+		.prepare(
+			'INSERT INTO rate_limits (key, window_start, count) VALUES (?, ?, 1) ON CONFLICT (key, window_start) DO UPDATE SET count = count + 1 RETURNING count'
+		)
+		.bind(key, windowStart)
+		.first<number>('count');
+	return count ?? 1;
+}
+
+export async function pruneRateLimits(db: D1Database, before: number) {
+	const result = await db.prepare('DELETE FROM rate_limits WHERE window_start < ?').bind(before).run();
+	return result.meta.changes;
+}
+
+// --- Attachments ---
+
+export async function insertAttachments(db: D1Database, attachments: AttachmentRow[]) {
+	if (attachments.length === 0) return;
+	await db.batch(
+		attachments.map((a) =>
+			db
+				.prepare(
+					`INSERT INTO attachments (email_id, idx, filename, content_type, size, content_id, disposition, r2_key)
+					 VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+				)
+				.bind(a.email_id, a.idx, a.filename, a.content_type, a.size, a.content_id, a.disposition, a.r2_key)
+		)
+	);
+}
+
+export async function listAttachments(db: D1Database, emailId: string) {
+	const { results } = await db
+		.prepare('SELECT idx, filename, content_type, size, content_id, disposition FROM attachments WHERE email_id = ? ORDER BY idx')
+		.bind(emailId)
+		.all<Omit<AttachmentRow, 'email_id' | 'r2_key'>>();
+	return results;
+}
+
+export async function getAttachment(db: D1Database, emailId: string, idx: number) {
+	return db.prepare('SELECT * FROM attachments WHERE email_id = ? AND idx = ?').bind(emailId, idx).first<AttachmentRow>();
+}
+
+export async function listAttachmentKeys(db: D1Database, emailIds: string[]) {
+	if (emailIds.length === 0) return [];
+	const { results } = await db
+		.prepare(`SELECT r2_key FROM attachments WHERE email_id IN (${emailIds.map(() => '?').join(', ')})`)
+		.bind(...emailIds)
+		.all<{ r2_key: string }>();
+	return results.map((r) => r.r2_key);
+}
+
+// --- Search ---
+
+// The FTS row shares the email's rowid, which is what the delete trigger in 0006 relies on
+export async function insertSearchEntry(db: D1Database, emailId: string, entry: SearchFields & { body: string }) {
+	await db
+		.prepare(
+			`INSERT OR REPLACE INTO emails_fts (rowid, subject, sender, body, ai_summary)
+			 SELECT rowid, ?, ?, ?, ? FROM emails WHERE id = ?`
+		)
+		.bind(entry.subject, entry.sender, entry.body, entry.ai_summary ?? '', emailId)
+		.run();
+}
+
+export async function listUnindexedEmails(db: D1Database, limit: number) {
+	const { results } = await db
+		.prepare(
+			`SELECT id, raw_r2_key, subject, sender, ai_summary FROM emails
+			 WHERE NOT EXISTS (SELECT 1 FROM emails_fts WHERE emails_fts.rowid = emails.rowid) LIMIT ?`
+		)
+		.bind(limit)
+		.all<Pick<EmailRow, 'id' | 'raw_r2_key' | 'subject' | 'sender' | 'ai_summary'>>();
+	return results;
+}
+
+// `match` must already be a safe FTS5 expression (see buildMatchQuery); best matches first
+export async function searchEmails(
+	db: D1Database,
+	username: string,
+	match: string,
+	options: { limit: number; offset: number; markers: [string, string] }
+) {
+	const { results } = await db
+		.prepare(
+			`SELECT ${summaryColumns('e')}, snippet(emails_fts, -1, ?, ?, '…', 16) AS highlight
+			 FROM emails_fts JOIN emails e ON e.rowid = emails_fts.rowid
+			 WHERE emails_fts MATCH ? AND e.username = ?
+			 ORDER BY rank, e.created_at DESC LIMIT ? OFFSET ?`
+		)
+		.bind(options.markers[0], options.markers[1], match, username, options.limit, options.offset)
+		.all<SummaryRecord<SearchResult>>();
+	return results.map(toSummary);
+}
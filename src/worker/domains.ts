@@ -0,0 +1,51 @@
+import * as db from './db';
+
+// One deployment can receive mail for several domains. The DOMAIN var is the default and is always
+// served; others are added (and disabled) through the admin endpoints. Addresses store NULL for the
+// default domain, so renaming it in the config carries existing addresses along.
+const DOMAIN_NAME = /^(?=.{1,253}$)(?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/;
+
+export function parseDomainName(value: unknown): string | { error: string } {
+	const name = typeof value === 'string' ? value.trim().toLowerCase() : '';
+	if (!DOMAIN_NAME.test(name)) return { error: 'name must be a domain name, e.g. "mail.example.com"' };
+	return name;
+}
+
+// The value stored on addresses for a domain name
+export function storedDomain(env: Env, name: string) {
+	return name === env.DOMAIN ? null : name;
+}
+
+export function formatAddress(env: Env, localPart: string, domain: string | null) {
+	return `${localPart}@${domain ?? env.DOMAIN}`;
+}
+
+// Where the app and its API are served, for links in webhooks. Mail can arrive on any served domain,
+// so this is its own setting (the APP_ORIGIN var) rather than a receiving domain; empty means the default domain.
+export function appOrigin(env: Env) {
+	return (env.APP_ORIGIN || `https://${env.DOMAIN}`).replace(/\/+$/, '');
+}
+
+// The default domain first, then the enabled extra ones
+export async function servedDomains(env: Env) {
+	const extra = (await db.listDomains(env.DB)).filter((d) => d.enabled && d.name !== env.DOMAIN).map((d) => d.name);
+	return [env.DOMAIN, ...extra];
+}
+
+export async function isServedDomain(env: Env, name: string) {
+	return name === env.DOMAIN || !!(await db.getDomain(env.DB, name))?.enabled;
+}
+
+// A domain picked by the client, checked against the served ones; missing means the default
+export async function resolveDomain(env: Env, value: unknown): Promise<string | { error: string }> {
+	if (value === undefined || value === null || value === '') return env.DOMAIN;
+	const name = parseDomainName(value);
+	if (typeof name !== 'string') return name;
+	return (await isServedDomain(env, name)) ? name : { error: `${name} is not a domain served here` };
+}
+
+// The account's primary address, e.g. for mail it composes from scratch
+export async function primaryAddress(env: Env, username: string) {
+	const address = await db.getAddress(env.DB, username);
+	return formatAddress(env, username, address?.domain ?? null);
+}
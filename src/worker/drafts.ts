@@ -0,0 +1,116 @@
+// AI help in the reply composer: drafting a reply to a message, and rewriting the current draft
+export const DRAFT_ACTIONS = ['draft', 'tone', 'shorten', 'translate'] as const;
+export const TONES = ['formal', 'friendly', 'casual', 'confident', 'apologetic'] as const;
+
+export type DraftAction = (typeof DRAFT_ACTIONS)[number];
+export type Tone = (typeof TONES)[number];
+
+export const MAX_INSTRUCTION_LENGTH = 500;
+export const MAX_DRAFT_LENGTH = 10_000;
+// How much of the original message goes into the prompt
+const MAX_SOURCE_CHARS = 4000;
+const LANGUAGE = /^[\p{L}][\p{L} ()'-]{0,39}$/u;
+
+export type DraftRequest =
+	| { action: 'draft'; emailId: string; instruction: string | null }
+	| { action: 'tone'; draft: string; tone: Tone }
+	| { action: 'shorten'; draft: string }
+	| { action: 'translate'; draft: string; language: string };
+
+// The message being replied to
+export interface DraftSource {
+	from: string;
+	subject: string;
+	text: string;
+}
+
+export function parseDraftRequest(body: Record<string, unknown>): DraftRequest | { error: string } {
+	const action = body.action ?? 'draft';
+	if (!DRAFT_ACTIONS.includes(action as DraftAction)) return { error: `action must be one of ${DRAFT_ACTIONS.join(', ')}` };
+
+	if (action === 'draft') {
+		if (typeof body.emailId !== 'string' || !body.emailId) return { error: 'emailId is required' };
+		const instruction = body.instruction ?? null;
+		if (instruction !== null && typeof instruction !== 'string') return { error: 'instruction must be a string' };
+		if (instruction && instruction.length > MAX_INSTRUCTION_LENGTH) return { error: `instruction must be at most ${MAX_INSTRUCTION_LENGTH} characters` };
+		return { action, emailId: body.emailId, instruction: instruction?.trim() || null };
+	}
+
+	// The rewrite actions work on the draft as it is in the composer
+	if (typeof body.draft !== 'string' || !body.draft.trim()) return { error: 'draft is required' };
+	if (body.draft.length > MAX_DRAFT_LENGTH) return { error: `draft must be at most ${MAX_DRAFT_LENGTH} characters` };
+	const draft = body.draft;
+
+	if (action === 'tone') {
+		if (!TONES.includes(body.tone as Tone)) return { error: `tone must be one of ${TONES.join(', ')}` };
+		return { action, draft, tone: body.tone as Tone };
+	}
+	if (action === 'translate') {
+		const language = typeof body.language === 'string' ? body.language.trim() : '';
+		if (!LANGUAGE.test(language)) return { error: 'language must be a language name, e.g. "German"' };
+		return { action, draft, language };
+	}
+	return { action: 'shorten', draft };
+}
+
+const ONLY_TEXT = 'Reply with the text of the email only: no subject line, no preamble, no notes.';
+
+export function buildDraftPrompt(request: DraftRequest, source?: DraftSource) {
+	switch (request.action) {
+		case 'draft':
+			return (
+				`Write a reply to the email below on behalf of its recipient. ${ONLY_TEXT}\n` +
+				(request.instruction ? `The reply should: ${request.instruction}\n` : '') +
+				`\nFrom: ${source?.from ?? ''}\nSubject: ${source?.subject ?? ''}\n\n${(source?.text ?? '').substring(0, MAX_SOURCE_CHARS)}`
+			);
+		case 'tone':
+			return `Rewrite this email in a ${request.tone} tone, keeping its meaning and language. ${ONLY_TEXT}\n\n${request.draft}`;
+		case 'shorten':
+			return `Shorten this email to the essentials, keeping its tone and language. ${ONLY_TEXT}\n\n${request.draft}`;
+		case 'translate':
+			return `Translate this email into ${request.language}. ${ONLY_TEXT}\n\n${request.draft}`;
+	}
+}
+
+// Workers AI streams server-sent events (`data: {"response": "..."}` ... `data: [DONE]`); clients
+// get just the generated text, so a plain fetch reader (or curl) can show it as it arrives
+function sseToText() {
+	const decoder = new TextDecoder();
+	const encoder = new TextEncoder();
+	let buffered = '';
+
+	const emit = (line: string, controller: TransformStreamDefaultController<Uint8Array>) => {
+		if (!line.startsWith('data:')) return;
+		const data = line.slice(5).trim();
+		if (!data || data === '[DONE]') return;
+		try {
+			const { response } = JSON.parse(data) as { response?: unknown };
+			if (typeof response === 'string' && response) controller.enqueue(encoder.encode(response));
+		} catch {
+			// A malformed event loses a token at worst
+		}
+	};
+
+	return new TransformStream<Uint8Array, Uint8Array>({
+		transform(chunk, controller) {
+			buffered += decoder.decode(chunk, { stream: true });
+			const lines = buffered.split('\n');
+			buffered = lines.pop() ?? '';
+			for (const line of lines) emit(line, controller);
+		},
+		flush(controller) {
+			emit(buffered + decoder.decode(), controller);
+		},
+	});
+}
+
+// Throws when the model can't be reached and returns an error when it answers without a stream;
+// once streaming, a failure just ends the text early
+export async function streamDraft(ai: Ai, prompt: string): Promise<ReadableStream<Uint8Array> | { error: string }> {
+	const result = await ai.run('@cf/meta/llama-3-8b-instruct', {
+		messages: [{ role: 'user', content: prompt }],
+		stream: true,
+	});
+	if (!(result instanceof ReadableStream)) return { error: 'The AI model did not return a stream' };
+	return result.pipeThrough(sseToText());
+}
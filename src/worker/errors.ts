@@ -0,0 +1,33 @@
+import type { Context } from 'hono';
+import type { ContentfulStatusCode } from 'hono/utils/http-status';
+
+// Stable, machine-readable codes for API failures. `error` stays a human-readable string so
+// existing clients that only read `error` keep working.
+export type ErrorCode =
+	| 'INVALID_REQUEST'
+	| 'NOT_FOUND'
+	| 'NO_RECIPIENTS'
+	| 'INVALID_RECIPIENT'
+	| 'TOO_MANY_RECIPIENTS'
+	| 'EMPTY_BODY'
+	| 'INVALID_ATTACHMENT'
+	| 'ATTACHMENTS_TOO_LARGE'
+	| 'SEND_FAILED'
+	| 'LABEL_EXISTS'
+	| 'WAIT_TIMEOUT'
+	| 'RATE_LIMITED'
+	| 'AI_UNAVAILABLE'
+	| 'INVALID_ADDRESS'
+	| 'ADDRESS_TAKEN'
+	| 'DOMAIN_EXISTS'
+	| 'ALREADY_BLOCKED';
+
+export function apiError(c: Context, status: ContentfulStatusCode, code: ErrorCode, message: string, details?: unknown) {
+	return c.json({ error: message, code, ...(details === undefined ? {} : { details }) }, status);
+}
+
+// 429 with a Retry-After header, for anything throttled by consumeRateLimit
+export function rateLimited(c: Context, retryAfter: number, message: string) {
+	c.header('Retry-After', String(retryAfter));
+	return apiError(c, 429, 'RATE_LIMITED', message, { retry_after: retryAfter });
+}
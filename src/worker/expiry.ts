@@ -0,0 +1,70 @@
+import * as db from './db';
+import { deleteStoredEmails } from './messages';
+import { mailbox } from './protocol';
+
+const HOUR = 60 * 60;
+
+export const DEFAULT_IDENTITY_TTL = 24 * HOUR;
+export const MAX_IDENTITY_TTL = 7 * 24 * HOUR;
+export const DEFAULT_MESSAGE_TTL = 24 * HOUR;
+export const MIN_TTL = HOUR;
+
+// D1 caps bound parameters per statement at 100, which also bounds the IN (...) deletes below
+const PURGE_BATCH_SIZE = 100;
+// Keep one cron invocation well inside the Workers CPU budget; leftovers go on the next tick
+const MAX_PURGE_BATCHES = 20;
+
+export function now() {
+	return Math.floor(Date.now() / 1000);
+}
+
+// Accepts a TTL in hours from a client and clamps it to the allowed range
+export function resolveTtl(hours: unknown, fallback: number, max = MAX_IDENTITY_TTL) {
+	if (typeof hours !== 'number' || !Number.isFinite(hours)) return fallback;
+	return Math.min(Math.max(Math.round(hours * HOUR), MIN_TTL), max);
+}
+
+// A message never outlives the identity it was delivered to
+export function messageExpiry(user: Pick<db.UserRow, 'expires_at' | 'message_ttl'>, at = now()) {
+	const ttl = user.message_ttl ?? DEFAULT_MESSAGE_TTL;
+	return user.expires_at === null ? at + ttl : Math.min(at + ttl, user.expires_at);
+}
+
+export async function purgeExpired(env: Env, at = now()) {
+	let emails = 0;
+	let users = 0;
+
+	for (let i = 0; i < MAX_PURGE_BATCHES; i++) {
+		const expired = await db.listExpiredEmails(env.DB, at, PURGE_BATCH_SIZE);
+		if (expired.length === 0) break;
+
+		await deleteStoredEmails(env, expired);
+		emails += expired.length;
+		if (expired.length < PURGE_BATCH_SIZE) break;
+	}
+
+	for (let i = 0; i < MAX_PURGE_BATCHES; i++) {
+		const expired = await db.listExpiredUsers(env.DB, at, PURGE_BATCH_SIZE);
+		if (expired.length === 0) break;
+
+		for (const username of expired) {
+			await deleteObjectsWithPrefix(env.MAIL_STORAGE, `${username}/`);
+			// The mailbox's event log would otherwise be replayed to the next owner of the name
+			await mailbox(env, username).reset();
+			await db.deleteUser(env.DB, username);
+		}
+		users += expired.length;
+		if (expired.length < PURGE_BATCH_SIZE) break;
+	}
+
+	return { emails, users };
+}
+
+async function deleteObjectsWithPrefix(bucket: R2Bucket, prefix: string) {
+	let cursor: string | undefined;
+	do {
+		const listing = await bucket.list({ prefix, cursor });
+		if (listing.objects.length > 0) await bucket.delete(listing.objects.map((o) => o.key));
+		cursor = listing.truncated ? listing.cursor : undefined;
+	} while (cursor);
+}
@@ -0,0 +1,162 @@
+// Pulls structured entities out of a message. Codes and verification links come from
+// deterministic patterns, which is all GET /api/wait needs ("what do I type / click next").
+// At ingest the model adds what patterns miss: tracking numbers, dates and action items.
+
+const MAX_RESULTS = 5;
+const MAX_ITEM_LENGTH = 200;
+
+// Words that usually sit next to a one-time code or label a verification link
+const CODE_HINT = /\b(code|otp|one[- ]time|passcode|pin|verification|verify|security|confirm(ation)?|token)\b/i;
+const LINK_HINT = /(verify|verification|confirm|activate|activation|magic|sign[-_ ]?in|log[-_ ]?in|auth|reset|token|invite|validate)/i;
+
+// 4-8 digits, optionally split once by a space or dash (123 456, 1234-5678), or 6-8 character
+// upper-case alphanumerics that contain at least one digit (e.g. 7GQ2KD)
+const CODE = /(?<![\w-])(\d{3,4}[ -]\d{3,4}|\d{4,8}|(?=[A-Z0-9]*\d)[A-Z0-9]{6,8})(?![\w-])/g;
+const URL_PATTERN = /https?:\/\/[^\s<>"')\]]+/g;
+const HREF = /<a\b[^>]*?href\s*=\s*["']([^"']+)["'][^>]*>([\s\S]*?)<\/a>/gi;
+
+// UPS (1Z...) and USPS (20-22 digits starting 92-95) have fixed shapes; anything else needs a
+// "tracking" hint on the line
+const CARRIER_TRACKING = /\b(1Z[0-9A-Z]{16}|9[2-5]\d{18,20})\b/g;
+const TRACKING_HINT = /\b(tracking|shipment|parcel|package|consignment|waybill)\b/i;
+const HINTED_TRACKING = /\b(?=[A-Z0-9]*\d)[A-Z0-9]{10,30}\b/g;
+
+const MONTH = '(?:jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\\.?';
+// 2025-03-14, March 14, 2025 and 14 March 2025; numeric d/m/y forms are ambiguous and left to the model
+const DATE = new RegExp(`\\b(\\d{4}-\\d{2}-\\d{2}|${MONTH} \\d{1,2}(?:st|nd|rd|th)?,? \\d{4}|\\d{1,2} ${MONTH} \\d{4})\\b`, 'gi');
+
+export interface Verification {
+	codes: string[];
+	links: string[];
+}
+
+export interface Entities extends Verification {
+	tracking_numbers: string[];
+	// `date` is YYYY-MM-DD when it could be resolved
+	dates: { text: string; date: string | null }[];
+	action_items: string[];
+}
+
+// The entity keys of the ingest analysis prompt (see analyze.ts)
+export const ENTITIES_PROMPT =
+	'"tracking_numbers": shipment tracking numbers exactly as written;\n' +
+	'"dates": deadlines, appointments and expiry dates as [{"text": "as written", "date": "YYYY-MM-DD or null"}];\n' +
+	`"action_items": up to ${MAX_RESULTS} short things the recipient is asked to do;\n`;
+
+function htmlToText(html: string) {
+	return html
+		.replace(/<(style|script)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+		.replace(/<br\s*\/?>|<\/(p|div|tr|li|h\d)>/gi, '\n')
+		.replace(/<[^>]+>/g, ' ')
+		.replace(/&nbsp;/g, ' ')
+		.replace(/&amp;/g, '&');
+}
+
+// Codes on a line (or the line before) that mentions a code come first; a bare 6-digit number
+// alone on its line is also a strong signal. Years and other lone numbers are left out.
+function findCodes(text: string, subject: string) {
+	const lines = [subject, ...text.split(/\r?\n/)];
+	const scored: { code: string; score: number }[] = [];
+	lines.forEach((line, i) => {
+		const hinted = CODE_HINT.test(line) || (i > 0 && CODE_HINT.test(lines[i - 1]));
+		for (const match of line.matchAll(CODE)) {
+			const code = match[1];
+			const alone = line.trim() === code;
+			if (!hinted && !alone) continue;
+			if (/^(19|20)\d{2}$/.test(code) && !alone) continue;
+			scored.push({ code, score: (hinted ? 2 : 0) + (alone ? 1 : 0) + (/^\d{6}$/.test(code) ? 1 : 0) });
+		}
+	});
+	scored.sort((a, b) => b.score - a.score);
+	return [...new Set(scored.map((s) => s.code))].slice(0, MAX_RESULTS);
+}
+
+function findLinks(text: string, html: string) {
+	const links: string[] = [];
+	for (const [, href, label] of html.matchAll(HREF)) {
+		if (/^https?:/i.test(href) && (LINK_HINT.test(href) || LINK_HINT.test(label))) links.push(href.replace(/&amp;/g, '&'));
+	}
+	for (const [url] of text.matchAll(URL_PATTERN)) {
+		if (LINK_HINT.test(url)) links.push(url.replace(/[.,;:!?]+$/, ''));
+	}
+	return [...new Set(links)].slice(0, MAX_RESULTS);
+}
+
+// The text part, or the HTML part with its tags stripped
+export function messageText(email: { text?: string; html?: string }) {
+	return email.text || htmlToText(email.html ?? '');
+}
+
+export function extractVerification(email: { subject?: string; text?: string; html?: string }): Verification {
+	const html = email.html ?? '';
+	const text = messageText(email);
+	return { codes: findCodes(text, email.subject ?? ''), links: findLinks(text, html) };
+}
+
+function findTracking(text: string) {
+	const numbers = [...text.matchAll(CARRIER_TRACKING)].map((m) => m[1]);
+	for (const line of text.split(/\r?\n/)) {
+		if (TRACKING_HINT.test(line)) numbers.push(...[...line.matchAll(HINTED_TRACKING)].map((m) => m[0]));
+	}
+	return [...new Set(numbers)].slice(0, MAX_RESULTS);
+}
+
+function toIsoDate(text: string) {
+	const time = Date.parse(text.replace(/(\d)(st|nd|rd|th)\b/i, '$1').replace(/\./g, ''));
+	return Number.isNaN(time) ? null : new Date(time).toISOString().substring(0, 10);
+}
+
+function findDates(text: string) {
+	const seen = new Set<string>();
+	const dates: Entities['dates'] = [];
+	for (const [match] of text.matchAll(DATE)) {
+		if (seen.has(match) || dates.length >= MAX_RESULTS) continue;
+		seen.add(match);
+		dates.push({ text: match, date: toIsoDate(match) });
+	}
+	return dates;
+}
+
+const strings = (value: unknown) =>
+	Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string' && !!v.trim()).map((v) => v.trim().substring(0, MAX_ITEM_LENGTH)) : [];
+
+// Merges the model's JSON into the pattern results. Tracking numbers the model reports must appear
+// in the message, so a hallucinated one never reaches the user.
+export function mergeModelEntities(entities: Entities, reply: string, text: string): Entities {
+	const block = reply.match(/\{[\s\S]*\}/);
+	let data: Record<string, unknown> = {};
+	try {
+		if (block) data = JSON.parse(block[0]);
+	} catch {
+		return entities;
+	}
+
+	const tracking = strings(data.tracking_numbers).map((t) => t.replace(/\s+/g, '')).filter((t) => text.replace(/\s+/g, '').includes(t));
+	const known = new Set(entities.dates.map((d) => d.text.toLowerCase()));
+	const dates = (Array.isArray(data.dates) ? data.dates : [])
+		.map((d) => (typeof d === 'string' ? { text: d } : d))
+		.filter((d): d is { text: string; date?: unknown } => !!d && typeof d.text === 'string' && !!d.text.trim())
+		.filter((d) => !known.has(d.text.trim().toLowerCase()))
+		.map((d) => ({
+			text: d.text.trim().substring(0, MAX_ITEM_LENGTH),
+			date: typeof d.date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(d.date) ? d.date : toIsoDate(d.text),
+		}));
+
+	return {
+		...entities,
+		tracking_numbers: [...new Set([...entities.tracking_numbers, ...tracking])].slice(0, MAX_RESULTS),
+		dates: [...entities.dates, ...dates].slice(0, MAX_RESULTS),
+		action_items: [...new Set([...entities.action_items, ...strings(data.action_items)])].slice(0, MAX_RESULTS),
+	};
+}
+
+// What the patterns find on their own; the model's additions are merged in with mergeModelEntities
+export function findEntities(email: { subject?: string; text?: string; html?: string }): Entities {
+	const text = messageText(email);
+	return {
+		...extractVerification(email),
+		tracking_numbers: findTracking(text),
+		dates: findDates(`${email.subject ?? ''}\n${text}`),
+		action_items: [],
+	};
+}
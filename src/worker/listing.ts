@@ -0,0 +1,63 @@
+import type { EmailListQuery, Folder } from './db';
+import { AUTH_STATUSES, isAuthStatus } from './senderauth';
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 100;
+
+// Cursors are opaque to clients: base64url of "<created_at>:<id>" for the last row of a page
+export function encodeCursor(row: { created_at: number; id: string }) {
+	return btoa(`${row.created_at}:${row.id}`).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function decodeCursor(cursor: string) {
+	try {
+		const [createdAt, ...rest] = atob(cursor.replace(/-/g, '+').replace(/_/g, '/')).split(':');
+		const created_at = Number(createdAt);
+		const id = rest.join(':');
+		return Number.isInteger(created_at) && id ? { created_at, id } : null;
+	} catch {
+		return null;
+	}
+}
+
+// Accepts unix seconds or anything Date.parse understands (e.g. 2024-05-01)
+export function parseTime(value: string) {
+	const seconds = /^\d+$/.test(value) ? Number(value) : Math.floor(Date.parse(value) / 1000);
+	return Number.isFinite(seconds) ? seconds : null;
+}
+
+const isSet = (value: string | undefined) => value === '1' || value === 'true';
+
+// Turns the listing query string into DB options; returns an error message for bad input
+export function parseListQuery(query: Record<string, string | undefined>): { options: EmailListQuery } | { error: string } {
+	// `folder=all` spans every folder, e.g. for the Starred and label views
+	const folder: Folder | null =
+		query.folder === 'all' ? null : query.folder === 'sent' || query.folder === 'archive' || query.folder === 'quarantine' ? query.folder : 'inbox';
+
+	const limit = query.limit === undefined ? DEFAULT_PAGE_SIZE : Number(query.limit);
+	if (!Number.isInteger(limit) || limit < 1) return { error: 'limit must be a positive integer' };
+
+	const cursor = query.cursor ? decodeCursor(query.cursor) : null;
+	if (query.cursor && !cursor) return { error: 'Invalid cursor' };
+
+	const since = query.since ? parseTime(query.since) : null;
+	const until = query.until ? parseTime(query.until) : null;
+	if ((query.since && since === null) || (query.until && until === null)) return { error: 'since/until must be unix seconds or a date' };
+	if (query.auth && !isAuthStatus(query.auth)) return { error: `auth must be one of ${AUTH_STATUSES.join(', ')}` };
+
+	return {
+		options: {
+			folder,
+			limit: Math.min(limit, MAX_PAGE_SIZE),
+			cursor,
+			unread: isSet(query.unread),
+			hasAttachments: isSet(query.has_attachments),
+			starred: isSet(query.starred),
+			labelId: query.label || null,
+			sender: query.sender?.trim() || null,
+			auth: query.auth || null,
+			since,
+			until,
+		},
+	};
+}
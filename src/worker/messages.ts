@@ -0,0 +1,76 @@
+import * as db from './db';
+
+// Keeps each bulk statement well under D1's 100 bound-parameter limit
+export const MAX_BULK_IDS = 50;
+
+export const LABEL_COLORS = ['slate', 'red', 'amber', 'green', 'blue', 'violet', 'pink'] as const;
+const MAX_LABEL_NAME = 40;
+
+export interface MessageUpdate {
+	changes: db.EmailChanges;
+	addLabels: string[];
+	removeLabels: string[];
+}
+
+const stringList = (value: unknown) => (Array.isArray(value) && value.every((v) => typeof v === 'string') ? (value as string[]) : null);
+
+// Validates a PATCH body; unknown keys are ignored so clients can send the whole summary back
+export function parseMessageUpdate(body: Record<string, unknown>): MessageUpdate | { error: string } {
+	const changes: db.EmailChanges = {};
+	for (const flag of ['is_read', 'is_starred'] as const) {
+		if (body[flag] === undefined) continue;
+		if (typeof body[flag] !== 'boolean' && body[flag] !== 0 && body[flag] !== 1) return { error: `${flag} must be a boolean` };
+		changes[flag] = body[flag] ? 1 : 0;
+	}
+	if (body.folder !== undefined) {
+		if (body.folder !== 'inbox' && body.folder !== 'archive') return { error: "folder must be 'inbox' or 'archive'" };
+		changes.folder = body.folder;
+	}
+
+	const addLabels = body.add_labels === undefined ? [] : stringList(body.add_labels);
+	const removeLabels = body.remove_labels === undefined ? [] : stringList(body.remove_labels);
+	if (!addLabels || !removeLabels) return { error: 'add_labels/remove_labels must be arrays of label ids' };
+
+	if (Object.keys(changes).length === 0 && addLabels.length === 0 && removeLabels.length === 0) return { error: 'Nothing to update' };
+	return { changes, addLabels, removeLabels };
+}
+
+export function parseIds(value: unknown): string[] | { error: string } {
+	const ids = stringList(value);
+	if (!ids || ids.length === 0) return { error: 'ids must be a non-empty array' };
+	if (ids.length > MAX_BULK_IDS) return { error: `At most ${MAX_BULK_IDS} ids per request` };
+	return [...new Set(ids)];
+}
+
+export async function applyMessageUpdate(database: D1Database, username: string, ids: string[], update: MessageUpdate) {
+	await db.updateEmails(database, username, ids, update.changes);
+	await db.addLabels(database, username, ids, update.addLabels);
+	await db.removeLabels(database, username, ids, update.removeLabels);
+}
+
+export function parseLabelInput(body: Record<string, unknown>, partial = false): { name?: string; color?: string } | { error: string } {
+	const name = typeof body.name === 'string' ? body.name.trim() : undefined;
+	if (name !== undefined && (!name || name.length > MAX_LABEL_NAME || /[\u0000-\u001f]/.test(name))) {
+		return { error: `Label names must be 1-${MAX_LABEL_NAME} characters` };
+	}
+	if (!partial && name === undefined) return { error: 'Label name is required' };
+
+	const color = body.color === undefined ? undefined : body.color;
+	if (color !== undefined && !LABEL_COLORS.includes(color as (typeof LABEL_COLORS)[number])) {
+		return { error: `color must be one of ${LABEL_COLORS.join(', ')}` };
+	}
+	return { name, color: color as string | undefined };
+}
+
+// Removes messages together with their R2 blobs, raw .eml copies and attachment objects
+export async function deleteStoredEmails(env: Env, emails: db.StoredEmailKeys[]) {
+	if (emails.length === 0) return;
+	const ids = emails.map((e) => e.id);
+	const keys = emails.flatMap((e) => [e.raw_r2_key, e.eml_r2_key]).filter((key): key is string => !!key);
+	keys.push(...(await db.listAttachmentKeys(env.DB, ids)));
+	// R2 deletes take at most 1000 keys per call
+	for (let start = 0; start < keys.length; start += 1000) {
+		await env.MAIL_STORAGE.delete(keys.slice(start, start + 1000));
+	}
+	await db.deleteEmails(env.DB, ids);
+}
@@ -0,0 +1,162 @@
+import type { Attachment, Email } from 'postal-mime';
+import { EmailMessage } from 'cloudflare:email';
+import { createMimeMessage } from 'mimetext';
+import * as db from './db';
+import { type StoredEmail, storeAttachments, stripAttachmentContent } from './attachments';
+import { messageExpiry, now } from './expiry';
+import { indexEmail } from './search';
+import { mailbox } from './protocol';
+
+// Envelope recipients across To, Cc and Bcc for a single message
+export const MAX_RECIPIENTS = 50;
+// Total attachment bytes before base64; keeps the encoded message under the send_email size limit
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+const ADDRESS = /^[^\s@<>(),;:"]+@[^\s@<>(),;:"]+\.[^\s@<>(),;:"]+$/;
+
+export interface OutgoingAttachment {
+	filename: string;
+	contentType: string;
+	content: ArrayBuffer;
+}
+
+export interface SentEmail {
+	username: string;
+	from: string;
+	to: string[];
+	cc?: string[];
+	bcc?: string[];
+	subject: string;
+	text: string;
+	html?: string;
+	attachments?: OutgoingAttachment[];
+	messageId: string;
+	inReplyTo?: string;
+	references?: string;
+	threadId?: string;
+}
+
+export function isValidAddress(address: string) {
+	return address.length <= 254 && ADDRESS.test(address);
+}
+
+// Accepts a comma/semicolon separated string or a list of them (repeated form fields)
+export function parseAddressList(value: unknown): string[] {
+	const parts = (Array.isArray(value) ? value : [value]).filter((v): v is string => typeof v === 'string');
+	const addresses = parts.flatMap((part) => part.split(/[,;]/)).map((a) => a.trim()).filter(Boolean);
+	return [...new Set(addresses)];
+}
+
+// Builds the RFC 5322 message. Bcc recipients are deliberately left out of the headers;
+// they only receive a copy through the envelope in deliverMessage.
+export function buildMimeMessage(sent: SentEmail) {
+	const msg = createMimeMessage();
+	msg.setSender({ name: sent.username, addr: sent.from });
+	if (sent.to.length) msg.setRecipients(sent.to);
+	if (sent.cc?.length) msg.setCc(sent.cc);
+	msg.setSubject(sent.subject);
+	msg.setHeader('Message-ID', sent.messageId);
+	if (sent.inReplyTo) msg.setHeader('In-Reply-To', sent.inReplyTo);
+	if (sent.references) msg.setHeader('References', sent.references);
+	msg.addMessage({ contentType: 'text/plain', data: sent.text });
+	if (sent.html) msg.addMessage({ contentType: 'text/html', data: sent.html });
+	for (const att of sent.attachments ?? []) {
+		msg.addAttachment({
+			// The filename is quoted verbatim in the part headers
+			filename: att.filename.replace(/["\\\r\n]/g, '_'),
+			contentType: att.contentType || 'application/octet-stream',
+			data: toBase64Lines(att.content),
+		});
+	}
+	return msg.asRaw();
+}
+
+// send_email takes one envelope recipient per EmailMessage, so every address gets its own copy
+// of the same raw message. Returns the recipients the binding refused.
+export async function deliverMessage(sender: SendEmail, from: string, recipients: string[], raw: string) {
+	const failed: string[] = [];
+	for (const to of recipients) {
+		try {
+			await sender.send(new EmailMessage(from, to, raw));
+		} catch (e) {
+			console.error(`Send to ${to} failed:`, e);
+			failed.push(to);
+		}
+	}
+	return failed;
+}
+
+// Keeps a copy of an outgoing message in the Sent folder. The R2 blob mirrors the PostalMime
+// shape used for inbound mail so the same detail view can render it; `raw` is the MIME that went out.
+export async function saveSentEmail(env: Env, sent: SentEmail, raw: string) {
+	const id = crypto.randomUUID();
+	const r2Key = `${sent.username}/${id}.json`;
+	const emlKey = `${sent.username}/${id}.eml`;
+	const user = await db.getActiveUser(env.DB, sent.username, now());
+
+	const attachments: Attachment[] = (sent.attachments ?? []).map((att) => ({
+		filename: att.filename,
+		mimeType: att.contentType || 'application/octet-stream',
+		disposition: 'attachment',
+		content: att.content,
+	}));
+	const toAddresses = (list: string[] = []) => list.map((address) => ({ name: '', address }));
+	const parsed: Email = {
+		headers: [],
+		headerLines: [],
+		from: { name: sent.username, address: sent.from },
+		to: toAddresses(sent.to),
+		cc: sent.cc?.length ? toAddresses(sent.cc) : undefined,
+		bcc: sent.bcc?.length ? toAddresses(sent.bcc) : undefined,
+		subject: sent.subject,
+		messageId: sent.messageId,
+		inReplyTo: sent.inReplyTo,
+		references: sent.references,
+		date: new Date().toISOString(),
+		text: sent.text,
+		html: sent.html,
+		attachments,
+	};
+	const rows = await storeAttachments(env.MAIL_STORAGE, sent.username, id, attachments);
+	const stored: StoredEmail = stripAttachmentContent(parsed);
+	await env.MAIL_STORAGE.put(r2Key, JSON.stringify(stored));
+	await env.MAIL_STORAGE.put(emlKey, raw, { httpMetadata: { contentType: 'message/rfc822' } });
+
+	await db.insertEmail(env.DB, {
+		id,
+		username: sent.username,
+		sender: sent.from,
+		recipient: [...sent.to, ...(sent.cc ?? [])].join(', '),
+		delivered_to: sent.from,
+		subject: sent.subject,
+		snippet: sent.text.substring(0, 150),
+		raw_r2_key: r2Key,
+		eml_r2_key: emlKey,
+		has_attachments: rows.length > 0 ? 1 : 0,
+		ai_summary: null,
+		expires_at: user ? messageExpiry(user) : null,
+		message_id: sent.messageId,
+		thread_id: sent.threadId ?? id,
+		folder: 'sent',
+		is_read: 1,
+	});
+	await db.insertAttachments(env.DB, rows);
+	// Recipients go in the sender column too, so sent mail can be found by who it went to
+	const addresses = [sent.from, ...sent.to, ...(sent.cc ?? [])].join(' ');
+	await indexEmail(env.DB, id, sent, { subject: sent.subject, sender: addresses, ai_summary: null });
+
+	// The user's other sessions show the new Sent copy without reloading
+	const summary = await db.getEmailSummary(env.DB, id);
+	if (summary) await mailbox(env, sent.username).broadcastEmail(summary);
+	return id;
+}
+
+// Base64 wrapped at 76 columns (RFC 2045); mimetext inserts the data as-is
+function toBase64Lines(content: ArrayBuffer) {
+	const bytes = new Uint8Array(content);
+	let binary = '';
+	for (let i = 0; i < bytes.length; i += 0x8000) {
+		binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+	}
+	return btoa(binary).replace(/.{76}(?=.)/g, '$&\n');
+}
@@ -0,0 +1,59 @@
+// Stored format: pbkdf2$<iterations>$<base64 salt>$<base64 hash>
+// 100k is the highest PBKDF2 iteration count the Workers runtime accepts.
+const HASH_PREFIX = 'pbkdf2';
+const ITERATIONS = 100_000;
+const SALT_BYTES = 16;
+const HASH_BITS = 256;
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+// Checked against when a login names an unknown user, so that answer costs the same full PBKDF2 run
+// as a wrong password and response times don't reveal which identities exist. Nothing derives to it.
+export const DUMMY_PASSWORD_HASH = [HASH_PREFIX, ITERATIONS, toBase64(new Uint8Array(SALT_BYTES)), toBase64(new Uint8Array(HASH_BITS / 8))].join('$');
+
+export function generatePassword() {
+	return crypto.randomUUID().substring(0, 12);
+}
+
+export async function hashPassword(password: string) {
+	const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+	const hash = await derive(password, salt, ITERATIONS);
+	return [HASH_PREFIX, ITERATIONS, toBase64(salt), toBase64(hash)].join('$');
+}
+
+// `needsRehash` is set when the row still holds a legacy plaintext password (or weaker parameters),
+// so the caller can upgrade it in place after a successful login.
+export async function verifyPassword(stored: string, candidate: string): Promise<{ valid: boolean; needsRehash: boolean }> {
+	const [prefix, iterations, salt, hash] = stored.split('$');
+	if (prefix !== HASH_PREFIX || !iterations || !salt || !hash) {
+		const encoder = new TextEncoder();
+		return { valid: constantTimeEqual(encoder.encode(stored), encoder.encode(candidate)), needsRehash: true };
+	}
+
+	const expected = fromBase64(hash);
+	const actual = await derive(candidate, fromBase64(salt), Number(iterations));
+	return { valid: constantTimeEqual(actual, expected), needsRehash: Number(iterations) < ITERATIONS };
+}
+
+async function derive(password: string, salt: BufferSource, iterations: number) {
+	const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+	const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, HASH_BITS);
+	return new Uint8Array(bits);
+}
+
+function constantTimeEqual(a: Uint8Array, b: Uint8Array) {
+	// Length is not secret here (hashes are fixed-size), but every byte still gets compared
+	let diff = a.length ^ b.length;
+	for (let i = 0; i < Math.max(a.length, b.length); i++) {
+		diff |= (a[i] ?? 0) ^ (b[i] ?? 0);
+	}
+	return diff === 0;
+}
+
+function toBase64(bytes: Uint8Array) {
+	return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(value: string) {
+	return Uint8Array.from(atob(value), (ch) => ch.charCodeAt(0));
+}
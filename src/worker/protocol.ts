@@ -0,0 +1,84 @@
+import type { EmailChanges, EmailSummary } from './db';
+import type { MessageUpdate } from './messages';
+
+// Wire protocol of the Mailbox socket (/api/ws). Every frame is JSON carrying `v`; clients that
+// never send `subscribe` are treated as legacy and only receive `{ type: 'NEW_EMAIL', data }`.
+//
+//   client -> server: subscribe { cursor }   replay events after `cursor` (null: just the latest cursor)
+//                     ping { id? }           heartbeat; answered with pong
+//   server -> client: subscribed { cursor, replayed }
+//                     resync { cursor }      `cursor` fell out of the retained log; reload, then carry on
+//                     event { seq, at, event }
+//                     pong { id? }
+//                     error { message }
+//
+// The server closes every socket with SESSION_ENDED_CLOSE when the user's sessions are ended (a password
+// change); clients reconnect with their current token.
+export const PROTOCOL_VERSION = 1;
+export const SESSION_ENDED_CLOSE = 4001;
+
+// The exact frame clients send as a heartbeat, answered by the runtime without waking the object
+export const PING_FRAME = JSON.stringify({ v: PROTOCOL_VERSION, type: 'ping' });
+export const PONG_FRAME = JSON.stringify({ v: PROTOCOL_VERSION, type: 'pong' });
+
+// How much history a reconnecting client can catch up on
+export const MAX_RETAINED_EVENTS = 500;
+export const EVENT_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+export type MailboxEvent =
+	| { type: 'email.created'; email: EmailSummary }
+	| { type: 'email.updated'; ids: string[]; changes: EmailChanges; add_labels: string[]; remove_labels: string[] }
+	| { type: 'email.deleted'; ids: string[] };
+
+export type ClientFrame = { v: number; type: 'subscribe'; cursor: number | null } | { v: number; type: 'ping'; id?: string | number };
+
+export type ServerFrame =
+	| { v: number; type: 'subscribed'; cursor: number; replayed: number }
+	| { v: number; type: 'resync'; cursor: number }
+	| { v: number; type: 'event'; seq: number; at: number; event: MailboxEvent }
+	| { v: number; type: 'pong'; id?: string | number }
+	| { v: number; type: 'error'; message: string };
+
+// Per-socket state, kept with ws.serializeAttachment so it survives hibernation
+export interface SocketState {
+	subscribed: boolean;
+}
+
+export function parseClientFrame(message: string | ArrayBuffer): ClientFrame | { error: string } {
+	let frame: Record<string, unknown>;
+	try {
+		frame = JSON.parse(typeof message === 'string' ? message : new TextDecoder().decode(message));
+	} catch {
+		return { error: 'Frames must be JSON' };
+	}
+	if (!frame || typeof frame !== 'object') return { error: 'Frames must be JSON objects' };
+	if (frame.v !== PROTOCOL_VERSION) return { error: `Unsupported protocol version; expected v${PROTOCOL_VERSION}` };
+
+	if (frame.type === 'ping') {
+		const id = typeof frame.id === 'string' || typeof frame.id === 'number' ? frame.id : undefined;
+		return { v: PROTOCOL_VERSION, type: 'ping', id };
+	}
+	if (frame.type === 'subscribe') {
+		const cursor = frame.cursor ?? null;
+		if (cursor !== null && (!Number.isInteger(cursor) || (cursor as number) < 0)) return { error: 'cursor must be a non-negative integer or null' };
+		return { v: PROTOCOL_VERSION, type: 'subscribe', cursor: cursor as number | null };
+	}
+	return { error: `Unknown frame type: ${String(frame.type)}` };
+}
+
+export function frame(message: DistributiveOmit<ServerFrame, 'v'>) {
+	return JSON.stringify({ v: PROTOCOL_VERSION, ...message });
+}
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+// Stub of the mailbox's Mailbox Durable Object (src/index.ts), typed from the class's RPC methods. Message
+// state changes go through it so they're applied one at a time per mailbox and every session hears about
+// them in that order.
+export function mailbox(env: Env, username: string) {
+	return env.MAILBOX_DO.get(env.MAILBOX_DO.idFromName(username));
+}
+
+export function updateEvent(ids: string[], update: MessageUpdate): MailboxEvent {
+	return { type: 'email.updated', ids, changes: update.changes, add_labels: update.addLabels, remove_labels: update.removeLabels };
+}
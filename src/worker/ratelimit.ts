@@ -0,0 +1,45 @@
+import * as db from './db';
+import { now } from './expiry';
+
+export interface RateLimit {
+	limit: number;
+	// Window length in seconds
+	window: number;
+}
+
+// Every AI call a user triggers (drafting and rewriting replies) counts against this
+export const AI_RATE_LIMIT: RateLimit = { limit: 30, window: 60 * 60 };
+
+// Incoming mail, per receiving mailbox and per envelope sender into one mailbox
+export const RECIPIENT_RATE_LIMIT: RateLimit = { limit: 100, window: 60 * 60 };
+export const SENDER_RATE_LIMIT: RateLimit = { limit: 30, window: 60 * 60 };
+
+// Per client IP; login attempts count whether or not they succeed
+export const GENERATE_RATE_LIMIT: RateLimit = { limit: 10, window: 60 * 60 };
+export const LOGIN_RATE_LIMIT: RateLimit = { limit: 20, window: 15 * 60 };
+
+// Counters older than this are pruned by the cron; no limit uses a longer window
+export const RATE_LIMIT_RETENTION = 24 * 60 * 60;
+
+// Fixed-window counter: records the hit and returns how many seconds to wait when it went over
+// the limit, or 0 when it's allowed. Rejected hits still count, so hammering doesn't help.
+export async function consumeRateLimit(database: D1Database, key: string, { limit, window }: RateLimit, at = now()) {
+	const windowStart = at - (at % window);
+	const count = await db.incrementRateLimit(database, key, windowStart);
+	return count > limit ? windowStart + window - at : 0;
+}
+
+// The sender limit is counted per mailbox, so a shared sender (a SaaS noreply address, a mailing
+// list) that is busy across many mailboxes doesn't get refused by all of them. Bounces have an empty
+// envelope sender (`<>`); they get a bucket of their own per mailbox rather than one shared by every
+// bounce the service receives.
+export function senderRateLimitKey(from: string, username: string) {
+	const sender = from.trim().replace(/^<(.*)>$/, '$1').trim().toLowerCase();
+	return sender ? `ingest:from:${sender}:to:${username}` : `ingest:bounce:to:${username}`;
+}
+
+// Cloudflare sets CF-Connecting-IP on every request it proxies. Without it (local dev, tests) there
+// is no client to attribute the request to, and per-IP limits are skipped.
+export function clientIp(request: Request) {
+	return request.headers.get('CF-Connecting-IP');
+}
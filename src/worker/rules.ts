@@ -0,0 +1,277 @@
+import type * as db from './db';
+import { type Category, CATEGORIES, isCategory } from './classify';
+import { isValidAddress } from './outbound';
+import { type AuthStatus, AUTH_STATUSES, isAuthStatus } from './senderauth';
+
+export const MAX_RULES = 50;
+// Newest received messages a dry run looks at, and how many of the matches it returns
+export const DRY_RUN_SCAN = 500;
+export const DRY_RUN_RESULTS = 50;
+
+const MAX_RULE_NAME = 60;
+const MAX_PATTERN = 200;
+// Backtracking grows with the subject length to the power of the repeats in a pattern (see subjectPatternProblem),
+// so only the start of the subject is matched
+const MAX_SUBJECT_MATCH = 200;
+// Repeats (*, +, {n,m}) and optional or alternative branches (?, |) allowed in one subject pattern
+const MAX_PATTERN_REPEATS = 2;
+const MAX_PATTERN_BRANCHES = 4;
+
+// Every condition that is set must match
+export interface RuleConditions {
+	// Glob on the sender address: `*` is any run of characters, `?` one character
+	sender?: string;
+	// Case-insensitive regular expression on the subject
+	subject?: string;
+	has_attachments?: boolean;
+	category?: Category;
+	// Sender authentication verdict; sent mail and mail stored before it was recorded never match
+	auth?: AuthStatus;
+}
+
+export interface RuleActions {
+	label?: string;
+	mark_read?: boolean;
+	delete?: boolean;
+	forward?: string;
+	// Id of one of the mailbox's webhooks, which gets a signed rule.matched event
+	webhook?: string;
+}
+
+export interface Rule {
+	id: string;
+	name: string;
+	enabled: boolean;
+	conditions: RuleConditions;
+	actions: RuleActions;
+	created_at: number;
+}
+
+export type RuleInput = Partial<Pick<Rule, 'name' | 'enabled' | 'conditions' | 'actions'>>;
+
+// What the conditions are matched against, for both incoming and stored mail
+export interface RuleSubject {
+	sender: string;
+	subject: string;
+	has_attachments: boolean;
+	category: string | null;
+	auth: string | null;
+}
+
+// All actions of the matching rules, merged; `delete` drops the message before it's stored
+export interface RuleOutcome {
+	labels: string[];
+	markRead: boolean;
+	delete: boolean;
+	forward: string[];
+	webhooks: { webhook: string; rule: Pick<Rule, 'id' | 'name'> }[];
+}
+
+export function toRule(row: db.RuleRow): Rule {
+	return {
+		id: row.id,
+		name: row.name,
+		enabled: !!row.enabled,
+		conditions: JSON.parse(row.conditions),
+		actions: JSON.parse(row.actions),
+		created_at: row.created_at,
+	};
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export function parseRuleConditions(value: unknown): RuleConditions | { error: string } {
+	if (!isObject(value)) return { error: 'conditions must be an object' };
+	const conditions: RuleConditions = {};
+
+	if (value.sender !== undefined) {
+		if (typeof value.sender !== 'string' || !value.sender.trim() || value.sender.length > MAX_PATTERN) {
+			return { error: `conditions.sender must be a glob of 1-${MAX_PATTERN} characters` };
+		}
+		conditions.sender = value.sender.trim();
+	}
+	if (value.subject !== undefined) {
+		if (typeof value.subject !== 'string' || !value.subject || value.subject.length > MAX_PATTERN) {
+			return { error: `conditions.subject must be a regular expression of 1-${MAX_PATTERN} characters` };
+		}
+		try {
+			new RegExp(value.subject, 'i');
+		} catch {
+			return { error: 'conditions.subject is not a valid regular expression' };
+		}
+		const problem = subjectPatternProblem(value.subject);
+		if (problem) return { error: `conditions.subject ${problem}` };
+		conditions.subject = value.subject;
+	}
+	if (value.has_attachments !== undefined) {
+		if (typeof value.has_attachments !== 'boolean') return { error: 'conditions.has_attachments must be a boolean' };
+		conditions.has_attachments = value.has_attachments;
+	}
+	if (value.category !== undefined) {
+		if (!isCategory(value.category)) return { error: `conditions.category must be one of ${CATEGORIES.join(', ')}` };
+		conditions.category = value.category;
+	}
+	if (value.auth !== undefined) {
+		if (!isAuthStatus(value.auth)) return { error: `conditions.auth must be one of ${AUTH_STATUSES.join(', ')}` };
+		conditions.auth = value.auth;
+	}
+
+	if (Object.keys(conditions).length === 0) return { error: 'A rule needs at least one condition' };
+	return conditions;
+}
+
+function parseActions(value: unknown): RuleActions | { error: string } {
+	if (!isObject(value)) return { error: 'actions must be an object' };
+	const actions: RuleActions = {};
+
+	if (value.label !== undefined) {
+		if (typeof value.label !== 'string' || !value.label) return { error: 'actions.label must be a label id' };
+		actions.label = value.label;
+	}
+	for (const flag of ['mark_read', 'delete'] as const) {
+		if (value[flag] === undefined || value[flag] === false) continue;
+		if (value[flag] !== true) return { error: `actions.${flag} must be a boolean` };
+		actions[flag] = true;
+	}
+	if (value.forward !== undefined) {
+		if (typeof value.forward !== 'string' || !isValidAddress(value.forward.trim())) return { error: 'actions.forward must be an email address' };
+		actions.forward = value.forward.trim();
+	}
+	if (value.webhook !== undefined) {
+		if (typeof value.webhook !== 'string' || !value.webhook) return { error: 'actions.webhook must be a webhook id' };
+		actions.webhook = value.webhook;
+	}
+
+	if (Object.keys(actions).length === 0) return { error: 'A rule needs at least one action' };
+	return actions;
+}
+
+// Validates a create (all of name, conditions and actions) or a partial update
+export function parseRuleInput(body: Record<string, unknown>, partial = false): RuleInput | { error: string } {
+	const input: RuleInput = {};
+
+	if (body.name !== undefined || !partial) {
+		const name = typeof body.name === 'string' ? body.name.trim() : '';
+		if (!name || name.length > MAX_RULE_NAME) return { error: `Rule names must be 1-${MAX_RULE_NAME} characters` };
+		input.name = name;
+	}
+	if (body.enabled !== undefined) {
+		if (typeof body.enabled !== 'boolean') return { error: 'enabled must be a boolean' };
+		input.enabled = body.enabled;
+	}
+	if (body.conditions !== undefined || !partial) {
+		const conditions = parseRuleConditions(body.conditions);
+		if ('error' in conditions) return conditions;
+		input.conditions = conditions;
+	}
+	if (body.actions !== undefined || !partial) {
+		const actions = parseActions(body.actions);
+		if ('error' in actions) return actions;
+		input.actions = actions;
+	}
+	return input;
+}
+
+// Why a subject pattern could backtrack for too long, or null when it's fine. V8's regex engine backtracks:
+// a repeated group that can match the same text in several ways (`(a+)+`, `(a|aa)*`) is exponential in the
+// subject length, and every further repeat or branch multiplies the work. So repeated groups must be plain
+// sequences, backreferences are out, and repeats and branches are counted against small limits.
+function subjectPatternProblem(pattern: string): string | null {
+	// Per open group: whether its body contains a quantifier or an alternation
+	const groups: { quantified: boolean; alternation: boolean }[] = [{ quantified: false, alternation: false }];
+	let repeats = 0;
+	let branches = 0;
+	// What the next quantifier applies to: a closed group's flags, or an atom (no flags)
+	let previous: { quantified: boolean; alternation: boolean } | null = null;
+
+	for (let i = 0; i < pattern.length; i++) {
+		const char = pattern[i];
+		const quantifier = /^(?:[*+?]|\{\d+(?:,\d*)?\})/.exec(pattern.slice(i));
+
+		if (quantifier && previous) {
+			const [min, max] = quantifierBounds(quantifier[0]);
+			if (max > 1 && (previous.quantified || previous.alternation)) return 'repeats a group that contains a quantifier or |';
+			// Fixed counts like {4} make no choices to backtrack over
+			if (max > 1 && min !== max) repeats++;
+			if (max === 1 && min === 0) branches++;
+			groups[groups.length - 1].quantified = true;
+			i += quantifier[0].length - 1;
+			// A lazy marker belongs to this quantifier
+			if (pattern[i + 1] === '?') i++;
+			previous = null;
+			continue;
+		}
+
+		previous = { quantified: false, alternation: false };
+		if (char === '\\') {
+			if (/[1-9k]/.test(pattern[i + 1] ?? '')) return 'must not use backreferences';
+			i++;
+		} else if (char === '[') {
+			// A character class is one atom; `]` right after `[` or `[^` is a literal
+			i += pattern[i + 1] === '^' ? 2 : 1;
+			if (pattern[i] === ']') i++;
+			while (i < pattern.length && pattern[i] !== ']') i += pattern[i] === '\\' ? 2 : 1;
+		} else if (char === '(') {
+			groups.push({ quantified: false, alternation: false });
+			previous = null;
+			// Skip the (?:, (?=, (?!, (?<=, (?<! and (?<name> prefixes
+			const prefix = /^\?(?:[:=!]|<[=!]|<[^>]*>)/.exec(pattern.slice(i + 1));
+			if (prefix) i += prefix[0].length;
+		} else if (char === ')') {
+			const group = groups.pop()!;
+			const parent = groups[groups.length - 1];
+			parent.quantified ||= group.quantified;
+			parent.alternation ||= group.alternation;
+			previous = group;
+		} else if (char === '|') {
+			groups[groups.length - 1].alternation = true;
+			branches++;
+			previous = null;
+		}
+	}
+
+	if (repeats > MAX_PATTERN_REPEATS) return `may use at most ${MAX_PATTERN_REPEATS} repeats (*, + or {n,m})`;
+	if (branches > MAX_PATTERN_BRANCHES) return `may use at most ${MAX_PATTERN_BRANCHES} optional parts and alternatives (? or |)`;
+	return null;
+}
+
+// The [min, max] count of a *, +, ? or {n,m} quantifier
+function quantifierBounds(token: string): [number, number] {
+	if (token === '?') return [0, 1];
+	if (token === '*') return [0, Infinity];
+	if (token === '+') return [1, Infinity];
+	const [min, max] = token.slice(1, -1).split(',');
+	return [Number(min), max === undefined ? Number(min) : max === '' ? Infinity : Number(max)];
+}
+
+function globToRegExp(glob: string) {
+	const pattern = glob.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+	return new RegExp(`^${pattern}$`, 'i');
+}
+
+export function matchesRule(conditions: RuleConditions, subject: RuleSubject) {
+	if (conditions.sender !== undefined && !globToRegExp(conditions.sender).test(subject.sender)) return false;
+	if (conditions.subject !== undefined) {
+		// Rules saved before patterns were checked are never run if they fail the check now
+		if (subjectPatternProblem(conditions.subject)) return false;
+		if (!new RegExp(conditions.subject, 'i').test(subject.subject.substring(0, MAX_SUBJECT_MATCH))) return false;
+	}
+	if (conditions.has_attachments !== undefined && conditions.has_attachments !== subject.has_attachments) return false;
+	if (conditions.category !== undefined && conditions.category !== subject.category) return false;
+	if (conditions.auth !== undefined && conditions.auth !== subject.auth) return false;
+	return true;
+}
+
+export function evaluateRules(rules: Rule[], subject: RuleSubject): RuleOutcome {
+	const outcome: RuleOutcome = { labels: [], markRead: false, delete: false, forward: [], webhooks: [] };
+	for (const rule of rules) {
+		if (!rule.enabled || !matchesRule(rule.conditions, subject)) continue;
+		const { actions } = rule;
+		if (actions.label && !outcome.labels.includes(actions.label)) outcome.labels.push(actions.label);
+		if (actions.mark_read) outcome.markRead = true;
+		if (actions.delete) outcome.delete = true;
+		if (actions.forward && !outcome.forward.includes(actions.forward)) outcome.forward.push(actions.forward);
+		if (actions.webhook) outcome.webhooks.push({ webhook: actions.webhook, rule: { id: rule.id, name: rule.name } });
+	}
+	return outcome;
+}
@@ -0,0 +1,50 @@
+import type { StoredEmail } from './attachments';
+import * as db from './db';
+
+// Enough to find a message by its content without bloating the index with long newsletters
+const MAX_BODY_CHARS = 20_000;
+const BACKFILL_BATCH_SIZE = 50;
+
+export const DEFAULT_SEARCH_LIMIT = 20;
+export const MAX_SEARCH_LIMIT = 50;
+
+// Highlight markers returned by snippet(); control characters can't occur in indexed text,
+// so clients can split on them without the snippet ever being treated as HTML
+export const HIGHLIGHT_START = '\u0002';
+export const HIGHLIGHT_END = '\u0003';
+
+// Plain text for the index; HTML-only mail is stripped down to its visible text
+export function searchableBody(parsed: Pick<StoredEmail, 'text' | 'html'>) {
+	const text =
+		parsed.text ||
+		(parsed.html || '')
+			.replace(/<(style|script|head)\b[\s\S]*?<\/\1>/gi, ' ')
+			.replace(/<[^>]+>/g, ' ')
+			.replace(/&nbsp;/g, ' ')
+			.replace(/&amp;/g, '&')
+			.replace(/&lt;/g, '<')
+			.replace(/&gt;/g, '>');
+	return text.replace(/[\u0000-\u0008\u000b-\u001f]/g, ' ').replace(/\s+/g, ' ').trim().slice(0, MAX_BODY_CHARS);
+}
+
+// Turns free text into an FTS5 query: every word must match, each as a prefix. Quoting each
+// term keeps FTS5 operators and column filters in user input from being interpreted.
+export function buildMatchQuery(input: string) {
+	const terms = input.match(/[\p{L}\p{N}]+/gu) ?? [];
+	return terms.length > 0 ? terms.slice(0, 10).map((term) => `"${term}"*`).join(' ') : null;
+}
+
+export async function indexEmail(database: D1Database, emailId: string, parsed: Pick<StoredEmail, 'text' | 'html'>, fields: db.SearchFields) {
+	await db.insertSearchEntry(database, emailId, { ...fields, body: searchableBody(parsed) });
+}
+
+// Indexes emails stored before search existed (or whose ingest-time indexing failed) from their R2 blobs
+export async function backfillSearchIndex(env: Env, limit = BACKFILL_BATCH_SIZE) {
+	const pending = await db.listUnindexedEmails(env.DB, limit);
+	for (const email of pending) {
+		const obj = email.raw_r2_key ? await env.MAIL_STORAGE.get(email.raw_r2_key) : null;
+		const parsed = obj ? await obj.json<StoredEmail>() : {};
+		await indexEmail(env.DB, email.id, parsed, { subject: email.subject, sender: email.sender, ai_summary: email.ai_summary });
+	}
+	return pending.length;
+}
@@ -0,0 +1,112 @@
+import type { Header } from 'postal-mime';
+
+// Overall verdict stored on emails.auth_status, for the badge, rules and the listing filter.
+// 'verified' means the From domain is vouched for (DMARC pass, or SPF/DKIM pass from the same
+// domain as the envelope sender); 'failed' means a check explicitly failed; anything else is
+// 'unverified'.
+export const AUTH_STATUSES = ['verified', 'unverified', 'failed'] as const;
+
+export type AuthStatus = (typeof AUTH_STATUSES)[number];
+
+// Stored as JSON on emails.auth_results. Results are the keyword the receiving server reported
+// (pass, fail, softfail, neutral, none, temperror, permerror...), or null when it didn't check.
+export interface AuthResults {
+	spf: string | null;
+	dkim: string | null;
+	dmarc: string | null;
+	envelope_domain: string | null;
+	from_domain: string | null;
+	// The From header names a different domain than the envelope sender
+	from_mismatch: boolean;
+}
+
+export interface AuthVerdict {
+	status: AuthStatus;
+	results: AuthResults;
+}
+
+type Method = 'spf' | 'dkim' | 'dmarc';
+
+export function isAuthStatus(value: unknown): value is AuthStatus {
+	return AUTH_STATUSES.includes(value as AuthStatus);
+}
+
+export function domainOf(address: string | null | undefined) {
+	const at = address ? address.lastIndexOf('@') : -1;
+	return at === -1 ? null : address!.substring(at + 1).trim().toLowerCase() || null;
+}
+
+// Same domain, or one a subdomain of the other (bounces.example.com sending for example.com)
+function sameOrganization(a: string, b: string) {
+	return a === b || a.endsWith(`.${b}`) || b.endsWith(`.${a}`);
+}
+
+// "mx.example.net; spf=pass (comment) smtp.mailfrom=a@b; dkim=fail header.d=b; dkim=pass ..." -> the
+// result per method; a method reported several times (one per DKIM signature) counts as passed
+// when any of them passed, otherwise the first result is kept
+export function parseAuthenticationResults(value: string) {
+	const results: Partial<Record<Method, string>> = {};
+	const [, ...entries] = value.replace(/\([^)]*\)/g, ' ').split(';');
+	for (const entry of entries) {
+		const match = entry.trim().match(/^(spf|dkim|dmarc)\s*=\s*([a-z]+)/i);
+		if (!match) continue;
+		const method = match[1].toLowerCase() as Method;
+		const result = match[2].toLowerCase();
+		if (!results[method] || result === 'pass') results[method] = result;
+	}
+	return results;
+}
+
+// "Pass (mailfrom) identity=mailfrom; client-ip=..." -> "pass"
+export function parseReceivedSpf(value: string) {
+	return value.trim().match(/^([a-z]+)/i)?.[1].toLowerCase() ?? null;
+}
+
+// Cloudflare Email Routing stamps its Authentication-Results with this authserv-id
+export const DEFAULT_AUTHSERV_ID = 'mx.cloudflare.net';
+
+// The AUTHSERV_IDS var: a comma-separated list of the receiving hosts whose results are trusted
+export function parseAuthservIds(value: string | undefined) {
+	const ids = (value ?? '')
+		.split(',')
+		.map((id) => id.trim().toLowerCase())
+		.filter(Boolean);
+	return ids.length ? ids : [DEFAULT_AUTHSERV_ID];
+}
+
+// "mx.cloudflare.net 1; spf=pass ..." -> "mx.cloudflare.net"
+export function authservIdOf(value: string) {
+	return value.replace(/\([^)]*\)/g, ' ').split(';')[0].trim().split(/\s+/)[0].toLowerCase();
+}
+
+// Anyone can write an Authentication-Results header into the message they send, so only ones stamped
+// with a trusted authserv-id are read, and of those only the topmost: the receiving server adds its
+// own above anything the sender wrote. Received-SPF names no host, so it's only read when it sits
+// above that trusted header, where the sender can't have put it.
+export function authenticate(headers: Header[], envelopeFrom: string, fromHeader: string | null | undefined, trustedIds: string[]): AuthVerdict {
+	const authIndex = headers.findIndex((h) => h.key === 'authentication-results' && trustedIds.includes(authservIdOf(h.value)));
+	const spfHeader = authIndex === -1 ? undefined : headers.slice(0, authIndex).find((h) => h.key === 'received-spf');
+	const reported = authIndex === -1 ? {} : parseAuthenticationResults(headers[authIndex].value);
+
+	const envelopeDomain = domainOf(envelopeFrom);
+	const fromDomain = domainOf(fromHeader) ?? envelopeDomain;
+	const results: AuthResults = {
+		spf: reported.spf ?? (spfHeader ? parseReceivedSpf(spfHeader.value) : null),
+		dkim: reported.dkim ?? null,
+		dmarc: reported.dmarc ?? null,
+		envelope_domain: envelopeDomain,
+		from_domain: fromDomain,
+		from_mismatch: !!envelopeDomain && !!fromDomain && !sameOrganization(envelopeDomain, fromDomain),
+	};
+	return { status: authStatus(results), results };
+}
+
+function authStatus(r: AuthResults): AuthStatus {
+	// DMARC already ties SPF/DKIM to the From domain, so its verdict wins
+	if (r.dmarc === 'pass') return 'verified';
+	if (r.dmarc === 'fail') return 'failed';
+
+	const passed = r.spf === 'pass' || r.dkim === 'pass';
+	if (passed) return r.from_mismatch ? 'unverified' : 'verified';
+	return r.spf === 'fail' || r.dkim === 'fail' ? 'failed' : 'unverified';
+}
@@ -0,0 +1,33 @@
+import type { StoredEmail } from './attachments';
+
+// References chains can grow long; only the most recent ids matter for finding the thread
+const MAX_REFERENCES = 20;
+
+export function newMessageId(domain: string) {
+	return `<${crypto.randomUUID()}@${domain}>`;
+}
+
+// Pulls every <id> out of a Message-ID / In-Reply-To / References header value
+export function parseMessageIds(value: string | undefined) {
+	return value?.match(/<[^<>\s]+>/g) ?? [];
+}
+
+// Ids an incoming message points at, most specific first
+export function referencedIds(parsed: Pick<StoredEmail, 'inReplyTo' | 'references'>) {
+	const ids = [...parseMessageIds(parsed.inReplyTo), ...parseMessageIds(parsed.references).reverse()];
+	return [...new Set(ids)].slice(0, MAX_REFERENCES);
+}
+
+// In-Reply-To/References for a reply to `original`, per RFC 5322 section 3.6.4
+export function replyHeaders(original: Pick<StoredEmail, 'messageId' | 'references' | 'inReplyTo'>) {
+	const parentId = parseMessageIds(original.messageId)[0];
+	if (!parentId) return {};
+
+	const ancestors = parseMessageIds(original.references);
+	const chain = ancestors.length > 0 ? ancestors : parseMessageIds(original.inReplyTo);
+	return { inReplyTo: parentId, references: [...chain, parentId].join(' ') };
+}
+
+export function replySubject(subject: string) {
+	return /^re:/i.test(subject.trim()) ? subject : `Re: ${subject}`;
+}
@@ -0,0 +1,34 @@
+import type { EmailSummary, WaitFilter } from './db';
+import { parseTime } from './listing';
+
+export const DEFAULT_WAIT_SECONDS = 30;
+// Kept under the platform's idle-request limits so the long poll always answers itself
+export const MAX_WAIT_SECONDS = 120;
+// Without `since`, mail that landed just before the call still counts: signup flows often
+// trigger the message before the test gets round to waiting for it
+export const DEFAULT_LOOKBACK_SECONDS = 60;
+
+export interface WaitQuery {
+	filter: WaitFilter;
+	timeoutMs: number;
+}
+
+export function parseWaitQuery(query: Record<string, string | undefined>, now: number): WaitQuery | { error: string } {
+	const timeout = query.timeout === undefined ? DEFAULT_WAIT_SECONDS : Number(query.timeout);
+	if (!Number.isFinite(timeout) || timeout < 0) return { error: 'timeout must be a non-negative number of seconds' };
+	if (timeout > MAX_WAIT_SECONDS) return { error: `timeout must be at most ${MAX_WAIT_SECONDS} seconds` };
+
+	const since = query.since ? parseTime(query.since) : now - DEFAULT_LOOKBACK_SECONDS;
+	if (since === null) return { error: 'since must be unix seconds or a date' };
+
+	return {
+		filter: { from: query.from?.trim() || null, subject: query.subject?.trim() || null, since },
+		timeoutMs: timeout * 1000,
+	};
+}
+
+// Same test as db.findWaitMatch, for messages pushed through the Mailbox broadcast
+export function matchesWait(filter: WaitFilter, email: EmailSummary) {
+	const contains = (value: string, part: string | null) => part === null || value.toLowerCase().includes(part.toLowerCase());
+	return email.folder !== 'sent' && email.created_at >= filter.since && contains(email.sender, filter.from) && contains(email.subject, filter.subject);
+}
@@ -0,0 +1,200 @@
+import * as db from './db';
+import { appOrigin } from './domains';
+import type { RuleOutcome } from './rules';
+import { now } from './expiry';
+
+export const MAX_WEBHOOKS = 5;
+// Attempts per delivery before it is marked failed; the queue's own max_retries sits above this
+export const MAX_DELIVERY_ATTEMPTS = 8;
+export const DEFAULT_DELIVERY_LIMIT = 20;
+export const MAX_DELIVERY_LIMIT = 100;
+// Delivery log entries are pruned by the cron after a week
+export const DELIVERY_LOG_TTL = 7 * 24 * 60 * 60;
+
+// Backoff between attempts: 30s, 1m, 2m, 4m ... capped at an hour
+const BASE_RETRY_DELAY = 30;
+const MAX_RETRY_DELAY = 60 * 60;
+const DELIVERY_TIMEOUT_MS = 10_000;
+// Enough of a failing response body to debug from the delivery log
+const MAX_ERROR_LENGTH = 500;
+
+export const SIGNATURE_HEADER = 'X-Webhook-Signature';
+
+export type WebhookEvent = 'email.received' | 'rule.matched' | 'webhook.test';
+
+export interface WebhookJob {
+	deliveryId: string;
+}
+
+export interface WebhookPayload {
+	id: string;
+	event: WebhookEvent;
+	created_at: number;
+	mailbox: string;
+	email?: WebhookEmail;
+	// rule.matched only: the rule that fired
+	rule?: { id: string; name: string };
+}
+
+// `id` and `link` are null when a rule deleted the message, since it was never stored
+export interface WebhookEmail {
+	id: string | null;
+	from: string;
+	subject: string;
+	snippet: string;
+	ai_summary: string | null;
+	received_at: number;
+	link: string | null;
+}
+
+// https only, except plain http to the local machine so a stand-in receiver works under `wrangler dev`
+export function parseWebhookUrl(value: unknown): string | { error: string } {
+	if (typeof value !== 'string') return { error: 'url is required' };
+	let url: URL;
+	try {
+		url = new URL(value.trim());
+	} catch {
+		return { error: 'url is not a valid URL' };
+	}
+	const local = url.hostname === 'localhost' || url.hostname === '127.0.0.1';
+	if (url.protocol !== 'https:' && !(url.protocol === 'http:' && local)) return { error: 'url must use https://' };
+	if (url.username || url.password) return { error: 'url must not contain credentials' };
+	return url.toString();
+}
+
+export function generateSecret() {
+	const bytes = crypto.getRandomValues(new Uint8Array(32));
+	return `whsec_${btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')}`;
+}
+
+// Hex HMAC-SHA256 over `${timestamp}.${body}`. Receivers recompute it and compare, and can reject
+// stale timestamps to stop replays; the header reads `t=<unix seconds>,v1=<hex>`.
+export async function signPayload(secret: string, timestamp: number, body: string) {
+	const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+	const mac = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(`${timestamp}.${body}`));
+	return [...new Uint8Array(mac)].map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Seconds to wait after the given (1-based) attempt failed
+export function retryDelay(attempt: number) {
+	return Math.min(BASE_RETRY_DELAY * 2 ** (attempt - 1), MAX_RETRY_DELAY);
+}
+
+// Logs one delivery per webhook and queues them. The payload is stored so retries resend it verbatim.
+export async function enqueueDeliveries(env: Env, webhooks: Pick<db.WebhookRow, 'id'>[], build: (deliveryId: string) => WebhookPayload) {
+	const deliveries = webhooks.map((webhook) => {
+		const id = crypto.randomUUID();
+		const payload = build(id);
+		return { id, webhook_id: webhook.id, event: payload.event, payload: JSON.stringify(payload) };
+	});
+	if (deliveries.length === 0) return;
+
+	await db.insertDeliveries(env.DB, deliveries);
+	await env.WEBHOOK_QUEUE.sendBatch(deliveries.map((d) => ({ body: { deliveryId: d.id } satisfies WebhookJob })));
+}
+
+export function webhookEmail(env: Env, email: db.EmailSummary): WebhookEmail {
+	return {
+		id: email.id,
+		from: email.sender,
+		subject: email.subject,
+		snippet: email.snippet,
+		ai_summary: email.ai_summary,
+		received_at: email.created_at,
+		link: `${appOrigin(env)}/api/email/${email.id}`,
+	};
+}
+
+// `mailbox` is the address the message arrived on
+export async function enqueueEmailWebhooks(env: Env, username: string, mailbox: string, email: WebhookEmail) {
+	const webhooks = await db.listMailWebhooks(env.DB, username);
+	await enqueueDeliveries(env, webhooks, (id) => ({ id, event: 'email.received', created_at: now(), mailbox, email }));
+}
+
+// One rule.matched delivery per matching rule with a webhook action. Called once the message is
+// stored, or once a rule has deleted it; webhooks that were deleted or disabled since are skipped.
+export async function enqueueRuleWebhooks(env: Env, username: string, mailbox: string, matches: RuleOutcome['webhooks'], email: WebhookEmail) {
+	for (const { webhook: webhookId, rule } of matches) {
+		const webhook = await db.getWebhook(env.DB, username, webhookId);
+		if (!webhook?.enabled) continue;
+		await enqueueDeliveries(env, [webhook], (id) => ({ id, event: 'rule.matched', created_at: now(), mailbox, email, rule }));
+	}
+}
+
+// Queue consumer. Every message is acked or explicitly retried, so one bad receiver never
+// holds up the rest of the batch.
+export async function handleWebhookBatch(batch: MessageBatch<WebhookJob>, env: Env) {
+	for (const message of batch.messages) {
+		const delivery = await db.getDeliveryTarget(env.DB, message.body.deliveryId);
+		// Deleted since it was queued, or already settled by an earlier redelivery
+		if (!delivery || delivery.status === 'delivered' || delivery.status === 'failed') {
+			message.ack();
+			continue;
+		}
+
+		const attempts = delivery.attempts + 1;
+		const attemptedAt = now();
+		if (!delivery.enabled) {
+			await db.recordDeliveryAttempt(env.DB, delivery.id, {
+				status: 'failed',
+				attempts: delivery.attempts,
+				response_status: null,
+				error: 'Webhook disabled',
+				last_attempt_at: delivery.last_attempt_at,
+				next_attempt_at: null,
+			});
+			message.ack();
+			continue;
+		}
+
+		const result = await postDelivery(delivery.url, delivery.secret, delivery.id, delivery.event, delivery.payload, attemptedAt);
+		if (result.ok) {
+			await db.recordDeliveryAttempt(env.DB, delivery.id, {
+				status: 'delivered',
+				attempts,
+				response_status: result.status,
+				error: null,
+				last_attempt_at: attemptedAt,
+				next_attempt_at: null,
+			});
+			message.ack();
+			continue;
+		}
+
+		const giveUp = attempts >= MAX_DELIVERY_ATTEMPTS;
+		const delay = retryDelay(attempts);
+		await db.recordDeliveryAttempt(env.DB, delivery.id, {
+			status: giveUp ? 'failed' : 'retrying',
+			attempts,
+			response_status: result.status,
+			error: result.error,
+			last_attempt_at: attemptedAt,
+			next_attempt_at: giveUp ? null : attemptedAt + delay,
+		});
+		if (giveUp) message.ack();
+		else message.retry({ delaySeconds: delay });
+	}
+}
+
+async function postDelivery(url: string, secret: string, deliveryId: string, event: string, body: string, timestamp: number) {
+	try {
+		const res = await fetch(url, {
+			method: 'POST',
+			headers: {
+				'Content-Type': 'application/json',
+				'User-Agent': 'ai-mail-webhooks/1',
+				'X-Webhook-Id': deliveryId,
+				'X-Webhook-Event': event,
+				[SIGNATURE_HEADER]: `t=${timestamp},v1=${await signPayload(secret, timestamp, body)}`,
+			},
+			body,
+			redirect: 'manual',
+			signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+		});
+		if (res.ok) return { ok: true, status: res.status, error: null };
+		const text = await res.text().catch(() => '');
+		return { ok: false, status: res.status, error: `HTTP ${res.status}${text ? `: ${text.substring(0, MAX_ERROR_LENGTH)}` : ''}` };
+	} catch (e) {
+		return { ok: false, status: null, error: e instanceof Error ? e.message : String(e) };
+	}
+}
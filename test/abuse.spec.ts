@@ -0,0 +1,155 @@
+import { SELF, env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { MAX_MESSAGE_BYTES } from '../src/worker/abuse';
+import { GENERATE_RATE_LIMIT, LOGIN_RATE_LIMIT, RECIPIENT_RATE_LIMIT, SENDER_RATE_LIMIT, type RateLimit } from '../src/worker/ratelimit';
+import { BASE_URL, authed, createEmailMessage, deliver, generateIdentity } from './helpers';
+
+async function api<T = Record<string, any>>(token: string, method: string, path: string, body?: unknown) {
+	const res = await SELF.fetch(`${BASE_URL}${path}`, authed(token, { method, body: body === undefined ? undefined : JSON.stringify(body) }));
+	return { status: res.status, body: await res.json<T>() };
+}
+
+async function stored(username: string) {
+	return (await env.DB.prepare('SELECT COUNT(*) AS n FROM emails WHERE username = ?').bind(username).first<number>('n')) ?? 0;
+}
+
+// Uses up a limit without making `limit` real requests; the next window is filled too in case the
+// test runs across a window boundary
+async function exhaust(key: string, { limit, window }: RateLimit) {
+	const now = Math.floor(Date.now() / 1000);
+	const start = now - (now % window);
+	for (const windowStart of [start, start + window]) {
+		await env.DB.prepare('INSERT INTO rate_limits (key, window_start, count) VALUES (?, ?, ?)').bind(key, windowStart, limit).run();
+	}
+}
+
+const uniqueIp = () => `203.0.113.${Math.floor(Math.random() * 254) + 1}-${crypto.randomUUID().substring(0, 4)}`;
+
+describe('ingest checks', () => {
+	it('refuses oversized mail before reading it', async () => {
+		const { username, address } = await generateIdentity();
+		const message = Object.assign(createEmailMessage({ to: address }), { rawSize: MAX_MESSAGE_BYTES + 1 });
+
+		await deliver(message);
+		expect(message.setReject).toHaveBeenCalledWith('Message exceeds the 10 MB size limit');
+		expect(await stored(username)).toBe(0);
+	});
+
+	it('refuses mail from senders on the mailbox or global blocklist', async () => {
+		const { username, address, token } = await generateIdentity();
+		const other = await generateIdentity();
+
+		expect((await api(token, 'POST', '/api/blocked-senders', { sender: 'Pest@Example.org' })).status).toBe(201);
+		expect((await api(token, 'POST', '/api/blocked-senders', { sender: 'example.org' })).body.blocked.pattern).toBe('@example.org');
+		expect((await api(token, 'POST', '/api/blocked-senders', { sender: 'pest@example.org' })).body.code).toBe('ALREADY_BLOCKED');
+		expect((await api(token, 'GET', '/api/blocked-senders')).body.blocked.map((b: { pattern: string }) => b.pattern).sort()).toEqual([
+			'@example.org',
+			'pest@example.org',
+		]);
+
+		const fromDomain = createEmailMessage({ to: address, from: 'anyone@example.org' });
+		await deliver(fromDomain);
+		expect(fromDomain.setReject).toHaveBeenCalledWith('Sender is blocked by the recipient');
+
+		// A blocked From header counts even when the envelope sender is different
+		const relayed = Object.assign(createEmailMessage({ to: address, from: 'pest@example.org' }), { from: 'bounces@relay.example' });
+		await deliver(relayed);
+		expect(relayed.setReject).toHaveBeenCalledWith('Sender is blocked by the recipient');
+		expect(await stored(username)).toBe(0);
+		// Neither refusal used up the mailbox's or the relay's hourly allowance
+		const charged = await env.DB.prepare("SELECT COUNT(*) AS n FROM rate_limits WHERE key LIKE 'ingest:%' AND key LIKE ?").bind(`%${username}`).first<number>('n');
+		expect(charged).toBe(0);
+
+		// Other mailboxes still get it, until an operator blocks it for everyone
+		await deliver(createEmailMessage({ to: other.address, from: 'anyone@example.org' }));
+		expect(await stored(other.username)).toBe(1);
+
+		const block = await SELF.fetch(`${BASE_URL}/api/admin/blocked-senders`, authed('test-admin-token', { method: 'POST', body: JSON.stringify({ sender: '@example.org' }) }));
+		expect(block.status).toBe(201);
+		const global = createEmailMessage({ to: other.address, from: 'anyone@example.org' });
+		await deliver(global);
+		expect(global.setReject).toHaveBeenCalledWith('Sender is blocked');
+		await SELF.fetch(`${BASE_URL}/api/admin/blocked-senders/%40example.org`, authed('test-admin-token', { method: 'DELETE' }));
+
+		expect((await api(token, 'DELETE', '/api/blocked-senders/%40example.org')).status).toBe(200);
+		expect((await api(token, 'DELETE', '/api/blocked-senders/pest%40example.org')).status).toBe(200);
+		await deliver(createEmailMessage({ to: address, from: 'pest@example.org' }));
+		expect(await stored(username)).toBe(1);
+	});
+
+	it('rate limits mail per recipient and per sender', async () => {
+		const { username, address } = await generateIdentity();
+		await exhaust(`ingest:to:${username}`, RECIPIENT_RATE_LIMIT);
+		const flood = createEmailMessage({ to: address });
+		await deliver(flood);
+		expect(flood.setReject).toHaveBeenCalledWith('Recipient is receiving too much mail, try again later');
+
+		const other = await generateIdentity();
+		const sender = `bulk-${crypto.randomUUID().substring(0, 8)}@example.org`;
+		await exhaust(`ingest:from:${sender}:to:${other.username}`, SENDER_RATE_LIMIT);
+		const bulk = createEmailMessage({ to: other.address, from: sender });
+		await deliver(bulk);
+		expect(bulk.setReject).toHaveBeenCalledWith('Too many messages from this sender, try again later');
+		expect(await stored(other.username)).toBe(0);
+	});
+
+	it('counts the sender limit per mailbox, so a busy sender still reaches everyone else', async () => {
+		const flooded = await generateIdentity();
+		const another = await generateIdentity();
+		const sender = `noreply-${crypto.randomUUID().substring(0, 8)}@saas.example`;
+		await exhaust(`ingest:from:${sender}:to:${flooded.username}`, SENDER_RATE_LIMIT);
+
+		const refused = createEmailMessage({ to: flooded.address, from: sender.toUpperCase() });
+		await deliver(refused);
+		expect(refused.setReject).toHaveBeenCalledWith('Too many messages from this sender, try again later');
+
+		const delivered = createEmailMessage({ to: another.address, from: sender });
+		await deliver(delivered);
+		expect(delivered.setReject).not.toHaveBeenCalled();
+		expect(await stored(another.username)).toBe(1);
+	});
+
+	it('gives bounces with an empty envelope sender a bucket of their own per mailbox', async () => {
+		const flooded = await generateIdentity();
+		const another = await generateIdentity();
+		await exhaust(`ingest:bounce:to:${flooded.username}`, SENDER_RATE_LIMIT);
+
+		for (const from of ['', '<>']) {
+			const bounce = Object.assign(createEmailMessage({ to: flooded.address, from: 'mailer-daemon@relay.example' }), { from });
+			await deliver(bounce);
+			expect(bounce.setReject).toHaveBeenCalledWith('Too many messages from this sender, try again later');
+		}
+
+		// Other senders to the same mailbox, and bounces to other mailboxes, aren't affected
+		await deliver(createEmailMessage({ to: flooded.address, from: 'friend@example.org' }));
+		expect(await stored(flooded.username)).toBe(1);
+		const bounce = Object.assign(createEmailMessage({ to: another.address, from: 'mailer-daemon@relay.example' }), { from: '<>' });
+		await deliver(bounce);
+		expect(bounce.setReject).not.toHaveBeenCalled();
+		expect(await stored(another.username)).toBe(1);
+	});
+});
+
+describe('per-IP throttling', () => {
+	const post = (path: string, ip: string, body: unknown = {}) =>
+		SELF.fetch(`${BASE_URL}${path}`, { method: 'POST', headers: { 'CF-Connecting-IP': ip }, body: JSON.stringify(body) });
+
+	it('throttles identity generation and login attempts per client IP', async () => {
+		const ip = uniqueIp();
+		await exhaust(`generate:${ip}`, GENERATE_RATE_LIMIT);
+		await exhaust(`login:${ip}`, LOGIN_RATE_LIMIT);
+
+		const generate = await post('/api/generate', ip);
+		expect(generate.status).toBe(429);
+		expect(Number(generate.headers.get('Retry-After'))).toBeGreaterThan(0);
+		expect(await generate.json()).toMatchObject({ code: 'RATE_LIMITED', error: 'Too many identities created from your network, try again later' });
+
+		const { username, password } = await generateIdentity();
+		const login = await post('/api/login', ip, { username, password });
+		expect(login.status).toBe(429);
+		expect(await login.json()).toMatchObject({ error: 'Too many login attempts, try again later' });
+
+		expect((await post('/api/generate', uniqueIp())).status).toBe(200);
+		expect((await post('/api/login', uniqueIp(), { username, password })).status).toBe(200);
+	});
+});
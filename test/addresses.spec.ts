@@ -0,0 +1,109 @@
+import { SELF, env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { parseLocalPart, parseRecipient } from '../src/worker/addresses';
+import * as db from '../src/worker/db';
+import { BASE_URL, authed, createEmailMessage, deliver, generateIdentity, latestEmailId } from './helpers';
+
+async function api<T = Record<string, any>>(token: string, method: string, path: string, body?: unknown) {
+	const res = await SELF.fetch(`${BASE_URL}${path}`, authed(token, { method, body: body === undefined ? undefined : JSON.stringify(body) }));
+	return { status: res.status, body: await res.json<T>() };
+}
+
+async function generate(body: Record<string, unknown>) {
+	const res = await SELF.fetch(`${BASE_URL}/api/generate`, { method: 'POST', body: JSON.stringify(body) });
+	return { status: res.status, body: await res.json<Record<string, any>>() };
+}
+
+async function availability(localPart: string) {
+	const res = await SELF.fetch(`${BASE_URL}/api/addresses/available?local_part=${encodeURIComponent(localPart)}`);
+	return res.json<Record<string, any>>();
+}
+
+const unique = (name: string) => `${name}.${crypto.randomUUID().substring(0, 8)}`;
+
+describe('claiming an address', () => {
+	it('generates an identity with the chosen name once it is free', async () => {
+		const name = unique('Jane.Doe');
+		expect(await availability(name)).toMatchObject({ local_part: name.toLowerCase(), available: true });
+
+		const first = await generate({ username: name });
+		expect(first.status).toBe(200);
+		expect(first.body).toMatchObject({ username: name.toLowerCase(), address: expect.stringMatching(new RegExp(`^${name.toLowerCase()}@`)) });
+
+		expect(await availability(name)).toMatchObject({ available: false, reason: 'That address is already taken' });
+		expect(await generate({ username: name })).toMatchObject({ status: 409, body: { code: 'ADDRESS_TAKEN' } });
+	});
+
+	it('answers 409 when the name is taken between the availability check and the insert', async () => {
+		// What a concurrent claim leaves behind: the name is in use, but the check on addresses can't see it yet
+		const name = unique('race');
+		await env.DB.prepare('INSERT INTO users (username, password) VALUES (?, ?)').bind(name, 'x').run();
+
+		expect(await generate({ username: name })).toMatchObject({ status: 409, body: { code: 'ADDRESS_TAKEN', error: 'That address is already taken' } });
+		const user = { username: name, password: 'y', expires_at: null, message_ttl: null, session_key: null };
+		expect(await db.createUser(env.DB, user, null)).toBe(false);
+		// Nothing of the failed claim is left behind
+		expect(await db.getAddress(env.DB, name)).toBeNull();
+	});
+
+	it('rejects reserved and malformed names', async () => {
+		expect(await generate({ username: 'postmaster' })).toMatchObject({ status: 400, body: { code: 'INVALID_ADDRESS', error: 'That address is reserved' } });
+		expect(await generate({ username: 'a+b' })).toMatchObject({ status: 400, body: { code: 'INVALID_ADDRESS' } });
+		expect(await availability('admin')).toMatchObject({ available: false, reason: 'That address is reserved' });
+	});
+});
+
+describe('aliases and plus-addressing', () => {
+	it('delivers mail for every alias to the same mailbox until the alias is removed', async () => {
+		const { username, token } = await generateIdentity();
+		const alias = unique('shop');
+
+		expect((await api(token, 'POST', '/api/addresses', { local_part: alias })).status).toBe(201);
+		const list = await api(token, 'GET', '/api/addresses');
+		expect(list.body.addresses).toMatchObject([
+			{ local_part: username, primary: true },
+			{ local_part: alias, primary: false },
+		]);
+
+		await deliver(createEmailMessage({ to: `${alias}@${env.DOMAIN}`, subject: 'Via alias' }));
+		expect((await api(token, 'GET', `/api/emails/${username}`)).body).toMatchObject([{ subject: 'Via alias' }]);
+
+		// Names are shared between usernames and aliases
+		const other = await generateIdentity();
+		expect((await api(other.token, 'POST', '/api/addresses', { local_part: alias })).body.code).toBe('ADDRESS_TAKEN');
+		expect((await api(other.token, 'POST', '/api/addresses', { local_part: username })).body.code).toBe('ADDRESS_TAKEN');
+
+		expect((await api(token, 'DELETE', `/api/addresses/${username}`)).status).toBe(400);
+		expect((await api(token, 'DELETE', `/api/addresses/${alias}`)).status).toBe(200);
+		const message = createEmailMessage({ to: `${alias}@${env.DOMAIN}` });
+		await deliver(message);
+		expect(message.setReject).toHaveBeenCalledWith('User does not exist');
+	});
+
+	it('routes name+tag to the base mailbox and labels it with the tag', async () => {
+		const { username, address, token } = await generateIdentity();
+		await deliver(createEmailMessage({ to: address.replace('@', '+Newsletters@'), subject: 'Tagged' }));
+		const id = await latestEmailId(username);
+
+		const counts = await api(token, 'GET', '/api/counts');
+		const label = counts.body.labels.find((l: { name: string }) => l.name === 'newsletters');
+		expect(label).toBeDefined();
+		expect((await api(token, 'GET', `/api/emails/${username}?label=${label.id}`)).body).toMatchObject([{ id, subject: 'Tagged' }]);
+
+		// The same tag again reuses the label
+		await deliver(createEmailMessage({ to: address.replace('@', '+newsletters@') }));
+		expect((await api(token, 'GET', '/api/counts')).body.labels.filter((l: { name: string }) => l.name === 'newsletters')).toHaveLength(1);
+	});
+});
+
+describe('address parsing', () => {
+	it('normalizes local parts and splits tags', () => {
+		expect(parseLocalPart('  Mixed.Case ')).toBe('mixed.case');
+		expect(parseLocalPart('ab')).toHaveProperty('error');
+		expect(parseLocalPart('dots..twice')).toHaveProperty('error');
+		expect(parseLocalPart('-dash')).toHaveProperty('error');
+		expect(parseRecipient('Jane+Work@Example.com')).toEqual({ local: 'jane', tag: 'work', domain: 'example.com' });
+		expect(parseRecipient('jane+@example.com')).toEqual({ local: 'jane', tag: null, domain: 'example.com' });
+		expect(parseRecipient('jane+a/b@example.com')).toEqual({ local: 'jane', tag: null, domain: 'example.com' });
+	});
+});
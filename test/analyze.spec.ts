@@ -0,0 +1,66 @@
+import { env, SELF } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { SUMMARY_UNAVAILABLE, analyzeEmail, parseSummary } from '../src/worker/analyze';
+import { BASE_URL, authed, createEmailMessage, deliver, generateIdentity, latestEmailId, mockAI } from './helpers';
+
+describe('AI analysis at ingest', () => {
+	it('gets the summary, classification and entities from one model call', async () => {
+		const { username, address, token } = await generateIdentity();
+		const ai = mockAI(
+			JSON.stringify({
+				summary: 'The landlord asks for the March rent.',
+				category: 'personal',
+				spam_score: 3,
+				phishing_score: 5,
+				reasons: [],
+				tracking_numbers: [],
+				dates: [{ text: 'Friday', date: null }],
+				action_items: ['Pay the rent'],
+			})
+		);
+
+		await deliver(createEmailMessage({ to: address, subject: 'Rent', text: 'Hi, please pay the March rent by Friday.' }), { AI: ai });
+
+		expect(ai.run).toHaveBeenCalledTimes(1);
+		const prompt: string = ai.run.mock.calls[0][1].messages[0].content;
+		for (const key of ['"summary"', '"category"', '"spam_score"', '"action_items"']) expect(prompt).toContain(key);
+
+		const id = await latestEmailId(username);
+		const row = await env.DB.prepare('SELECT ai_summary, ai_category, spam_score FROM emails WHERE id = ?').bind(id).first();
+		expect(row).toEqual({ ai_summary: 'The landlord asks for the March rent.', ai_category: 'personal', spam_score: 3 });
+		const detail = await (await SELF.fetch(`${BASE_URL}/api/email/${id}`, authed(token))).json<Record<string, any>>();
+		expect(detail.ai_entities).toMatchObject({ dates: [{ text: 'Friday', date: null }], action_items: ['Pay the rent'] });
+	});
+});
+
+describe('analyzeEmail', () => {
+	const email = { from: 'a@example.org', subject: 'Code', text: 'Your verification code is 482913' };
+
+	it('reads every field on its own, so one bad field leaves the others', async () => {
+		const reply = '{"summary": 42, "category": "security", "phishing_score": "high", "action_items": ["Enter the code"]}';
+		const analysis = await analyzeEmail(mockAI(reply), email);
+		expect(analysis.summary).toBe(SUMMARY_UNAVAILABLE);
+		expect(analysis.classification).toMatchObject({ category: 'security', phishing_score: null });
+		expect(analysis.entities).toMatchObject({ codes: ['482913'], action_items: ['Enter the code'] });
+	});
+
+	it('keeps the pattern entities and leaves the message unclassified when the call fails', async () => {
+		const ai = mockAI();
+		ai.run.mockRejectedValueOnce(new Error('model unavailable'));
+		const analysis = await analyzeEmail(ai, email);
+		expect(analysis).toEqual({
+			summary: SUMMARY_UNAVAILABLE,
+			classification: { category: null, spam_score: null, phishing_score: null, reasons: [] },
+			entities: { codes: ['482913'], links: [], tracking_numbers: [], dates: [], action_items: [] },
+		});
+	});
+});
+
+describe('parseSummary', () => {
+	it('takes the summary key, or a plain prose reply as a whole', () => {
+		expect(parseSummary('Sure: {"summary": " Two lines. ", "category": "work"}')).toBe('Two lines.');
+		expect(parseSummary('A short note about lunch.')).toBe('A short note about lunch.');
+		expect(parseSummary('{"summary": "The landlord asks')).toBe(SUMMARY_UNAVAILABLE);
+		expect(parseSummary('')).toBe(SUMMARY_UNAVAILABLE);
+	});
+});
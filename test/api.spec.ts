@@ -0,0 +1,235 @@
+import { env, SELF } from 'cloudflare:test';
+import { describe, it, expect, vi } from 'vitest';
+import { BASE_URL, authed, deliver, createEmailMessage, fetchWith, generateIdentity, latestEmailId, runCron } from './helpers';
+
+describe('POST /api/generate', () => {
+	it('creates a user with a hashed password and returns a session token', async () => {
+		const identity = await generateIdentity();
+
+		expect(identity.username).toMatch(/^[a-z0-9]+$/);
+		expect(identity.address).toBe(`${identity.username}@${env.DOMAIN}`);
+		expect(identity.token).toBeTruthy();
+
+		const row = await env.DB.prepare('SELECT password FROM users WHERE username = ?').bind(identity.username).first<{ password: string }>();
+		expect(row?.password).toMatch(/^pbkdf2\$/);
+		expect(row?.password).not.toContain(identity.password);
+	});
+});
+
+describe('POST /api/login', () => {
+	it('issues a token for valid credentials', async () => {
+		const { username, password } = await generateIdentity();
+		const res = await SELF.fetch(`${BASE_URL}/api/login`, { method: 'POST', body: JSON.stringify({ username, password }) });
+
+		expect(res.status).toBe(200);
+		const body = await res.json<{ username: string; token: string }>();
+		expect(body.username).toBe(username);
+		expect(body.token).toBeTruthy();
+	});
+
+	it('rejects a wrong password', async () => {
+		const { username } = await generateIdentity();
+		const res = await SELF.fetch(`${BASE_URL}/api/login`, { method: 'POST', body: JSON.stringify({ username, password: 'nope' }) });
+		expect(res.status).toBe(401);
+	});
+
+	it('upgrades a legacy plaintext password on login', async () => {
+		await env.DB.prepare('INSERT INTO users (username, password) VALUES (?, ?)').bind('legacy', 'plaintext-pass').run();
+		const res = await SELF.fetch(`${BASE_URL}/api/login`, {
+			method: 'POST',
+			body: JSON.stringify({ username: 'legacy', password: 'plaintext-pass' }),
+		});
+
+		expect(res.status).toBe(200);
+		const row = await env.DB.prepare('SELECT password FROM users WHERE username = ?').bind('legacy').first<{ password: string }>();
+		expect(row?.password).toMatch(/^pbkdf2\$/);
+	});
+});
+
+const login = (username: string, password: string) =>
+	SELF.fetch(`${BASE_URL}/api/login`, { method: 'POST', body: JSON.stringify({ username, password }) });
+
+describe('password changes', () => {
+	const post = (token: string, path: string, body?: unknown) =>
+		SELF.fetch(`${BASE_URL}${path}`, authed(token, { method: 'POST', body: body === undefined ? undefined : JSON.stringify(body) }));
+
+	it('sets a new password when the current one is right and retires the old one', async () => {
+		const { username, password, token } = await generateIdentity();
+		const res = await post(token, '/api/password', { currentPassword: password, newPassword: 'a-much-better-password' });
+		expect(res.status).toBe(200);
+
+		expect((await login(username, password)).status).toBe(401);
+		expect((await login(username, 'a-much-better-password')).status).toBe(200);
+	});
+
+	it('refuses a wrong current password or a short new one', async () => {
+		const { username, password, token } = await generateIdentity();
+		const wrong = await post(token, '/api/password', { currentPassword: 'not-it', newPassword: 'a-much-better-password' });
+		expect(wrong.status).toBe(403);
+		expect(await wrong.json()).toMatchObject({ error: 'Current password is incorrect' });
+		expect((await post(token, '/api/password', { currentPassword: password, newPassword: 'short' })).status).toBe(400);
+
+		expect((await login(username, password)).status).toBe(200);
+		expect((await login(username, 'a-much-better-password')).status).toBe(401);
+	});
+
+	it('rotates to a generated password', async () => {
+		const { username, password, token } = await generateIdentity();
+		const res = await post(token, '/api/password/rotate');
+		expect(res.status).toBe(200);
+		const { password: rotated } = await res.json<{ password: string }>();
+		expect(rotated).not.toBe(password);
+
+		expect((await login(username, password)).status).toBe(401);
+		expect((await login(username, rotated)).status).toBe(200);
+	});
+});
+
+describe('authentication', () => {
+	it('hashes the password for unknown usernames as it does for known ones', async () => {
+		const { username } = await generateIdentity();
+		const derive = vi.spyOn(crypto.subtle, 'deriveBits');
+		try {
+			expect((await login(username, 'not-the-password')).status).toBe(401);
+			expect(derive).toHaveBeenCalledTimes(1);
+			const unknown = await login(`nobody${crypto.randomUUID().substring(0, 6)}`, 'not-the-password');
+			expect(unknown.status).toBe(401);
+			expect(await unknown.json()).toEqual({ error: 'Invalid credentials' });
+			expect(derive).toHaveBeenCalledTimes(2);
+		} finally {
+			derive.mockRestore();
+		}
+	});
+
+	it('rejects requests without a token', async () => {
+		const { username } = await generateIdentity();
+		const res = await SELF.fetch(`${BASE_URL}/api/emails/${username}`);
+		expect(res.status).toBe(401);
+	});
+
+	it("refuses to list another user's mailbox", async () => {
+		const alice = await generateIdentity();
+		const bob = await generateIdentity();
+		const res = await SELF.fetch(`${BASE_URL}/api/emails/${bob.username}`, authed(alice.token));
+		expect(res.status).toBe(403);
+	});
+});
+
+describe('session lifetime', () => {
+	const counts = (token: string) => SELF.fetch(`${BASE_URL}/api/counts`, authed(token));
+	const post = (token: string, path: string, body?: unknown) =>
+		SELF.fetch(`${BASE_URL}${path}`, authed(token, { method: 'POST', body: body === undefined ? undefined : JSON.stringify(body) }));
+
+	it('ends existing sessions when the password is set or rotated', async () => {
+		const { username, password, token } = await generateIdentity();
+		const other = await (await login(username, password)).json<{ token: string }>();
+
+		const changed = await post(token, '/api/password', { currentPassword: password, newPassword: 'a-much-better-password' });
+		const { token: current } = await changed.json<{ token: string }>();
+		expect((await counts(token)).status).toBe(401);
+		expect((await counts(other.token)).status).toBe(401);
+		expect((await counts(current)).status).toBe(200);
+
+		const rotated = await (await post(current, '/api/password/rotate')).json<{ token: string }>();
+		expect((await counts(current)).status).toBe(401);
+		expect((await counts(rotated.token)).status).toBe(200);
+	});
+
+	it('rejects tokens of expired identities and of a name claimed again after the purge', async () => {
+		const name = `reclaim${crypto.randomUUID().substring(0, 6)}`;
+		const generate = () => SELF.fetch(`${BASE_URL}/api/generate`, { method: 'POST', body: JSON.stringify({ username: name }) });
+		const first = await (await generate()).json<{ token: string }>();
+
+		await env.DB.prepare('UPDATE users SET expires_at = ? WHERE username = ?').bind(Math.floor(Date.now() / 1000) - 1, name).run();
+		expect((await counts(first.token)).status).toBe(401);
+
+		await runCron();
+		const second = await (await generate()).json<{ token: string }>();
+		expect((await counts(second.token)).status).toBe(200);
+		expect((await counts(first.token)).status).toBe(401);
+	});
+});
+
+describe('reading emails', () => {
+	it('lists delivered emails newest first', async () => {
+		const { username, address, token } = await generateIdentity();
+		await deliver(createEmailMessage({ to: address, subject: 'First' }));
+		await deliver(createEmailMessage({ to: address, subject: 'Second' }));
+
+		const res = await SELF.fetch(`${BASE_URL}/api/emails/${username}`, authed(token));
+		const emails = await res.json<{ subject: string; is_read: number }[]>();
+
+		expect(emails).toHaveLength(2);
+		expect(emails.map((e) => e.subject).sort()).toEqual(['First', 'Second']);
+		expect(emails.every((e) => e.is_read === 0)).toBe(true);
+	});
+
+	it('returns the parsed body and marks the email as read', async () => {
+		const { username, address, token } = await generateIdentity();
+		await deliver(createEmailMessage({ to: address, subject: 'Read me', text: 'Body text' }));
+		const [email] = await (await SELF.fetch(`${BASE_URL}/api/emails/${username}`, authed(token))).json<{ id: string }[]>();
+
+		const res = await SELF.fetch(`${BASE_URL}/api/email/${email.id}`, authed(token));
+		expect(res.status).toBe(200);
+		const detail = await res.json<{ subject: string; raw_content: string }>();
+		expect(detail.subject).toBe('Read me');
+		expect(JSON.parse(detail.raw_content).text).toContain('Body text');
+
+		const row = await env.DB.prepare('SELECT is_read FROM emails WHERE id = ?').bind(email.id).first<{ is_read: number }>();
+		expect(row?.is_read).toBe(1);
+	});
+
+	it("hides other users' emails", async () => {
+		const alice = await generateIdentity();
+		const bob = await generateIdentity();
+		await deliver(createEmailMessage({ to: alice.address }));
+		const [email] = await (await SELF.fetch(`${BASE_URL}/api/emails/${alice.username}`, authed(alice.token))).json<{ id: string }[]>();
+
+		const res = await SELF.fetch(`${BASE_URL}/api/email/${email.id}`, authed(bob.token));
+		expect(res.status).toBe(404);
+	});
+});
+
+describe('POST /api/reply', () => {
+	it('sends the reply from the authenticated address to the original sender', async () => {
+		const { address, token, username } = await generateIdentity();
+		await deliver(createEmailMessage({ to: address, from: 'friend@example.org' }));
+		const emailId = await latestEmailId(username);
+		const send = vi.fn(async () => {});
+
+		const res = await fetchWith('/api/reply', authed(token, { method: 'POST', body: JSON.stringify({ emailId, body: 'Thanks!' }) }), {
+			EMAIL_SENDER: { send } as unknown as SendEmail,
+		});
+
+		expect(res.status).toBe(200);
+		expect(send).toHaveBeenCalledOnce();
+		const [message] = send.mock.calls[0] as unknown as [EmailMessage];
+		expect(message.from).toBe(address);
+		expect(message.to).toBe('friend@example.org');
+	});
+
+	it('reports send failures', async () => {
+		const { address, token, username } = await generateIdentity();
+		await deliver(createEmailMessage({ to: address }));
+		const emailId = await latestEmailId(username);
+		const send = vi.fn(async () => {
+			throw new Error('destination not verified');
+		});
+
+		const res = await fetchWith('/api/reply', authed(token, { method: 'POST', body: JSON.stringify({ emailId, body: 'Thanks!' }) }), {
+			EMAIL_SENDER: { send } as unknown as SendEmail,
+		});
+		expect(res.status).toBe(502);
+		expect(await res.json()).toMatchObject({ code: 'SEND_FAILED' });
+	});
+
+	it("can't reply to another user's email", async () => {
+		const alice = await generateIdentity();
+		const bob = await generateIdentity();
+		await deliver(createEmailMessage({ to: alice.address }));
+		const emailId = await latestEmailId(alice.username);
+
+		const res = await fetchWith('/api/reply', authed(bob.token, { method: 'POST', body: JSON.stringify({ emailId, body: 'Hi' }) }));
+		expect(res.status).toBe(404);
+	});
+});
@@ -0,0 +1,5 @@
+import { applyD1Migrations, env } from 'cloudflare:test';
+
+// Setup files run outside isolated storage and may run multiple times.
+// applyD1Migrations() only applies migrations that haven't already been applied.
+await applyD1Migrations(env.DB, env.TEST_MIGRATIONS);
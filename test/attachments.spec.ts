@@ -0,0 +1,76 @@
+import { env, SELF } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { BASE_URL, authed, createEmailMessage, deliver, generateIdentity } from './helpers';
+
+async function deliverWithAttachment() {
+	const identity = await generateIdentity();
+	await deliver(
+		createEmailMessage({
+			to: identity.address,
+			attachment: { filename: 'réport.txt', contentType: 'text/plain', content: 'quarterly numbers' },
+		})
+	);
+	const email = await env.DB.prepare('SELECT id, raw_r2_key FROM emails WHERE username = ?')
+		.bind(identity.username)
+		.first<{ id: string; raw_r2_key: string }>();
+	return { ...identity, email: email! };
+}
+
+describe('attachment storage', () => {
+	it('stores each attachment as its own R2 object and records it in D1', async () => {
+		const { username, email } = await deliverWithAttachment();
+
+		const row = await env.DB.prepare('SELECT * FROM attachments WHERE email_id = ?').bind(email.id).first<Record<string, unknown>>();
+		expect(row).toMatchObject({ idx: 0, filename: 'réport.txt', content_type: 'text/plain', size: 17 });
+		expect(row!.r2_key).toBe(`${username}/${email.id}/attachments/0`);
+
+		const object = await env.MAIL_STORAGE.get(row!.r2_key as string);
+		expect(await object!.text()).toBe('quarterly numbers');
+		expect(object!.httpMetadata?.contentType).toBe('text/plain');
+	});
+
+	it('keeps attachment bytes out of the parsed JSON blob', async () => {
+		const { email } = await deliverWithAttachment();
+
+		const parsed = await (await env.MAIL_STORAGE.get(email.raw_r2_key))!.json<{ attachments: Record<string, unknown>[] }>();
+		expect(parsed.attachments[0].filename).toBe('réport.txt');
+		expect(parsed.attachments[0]).not.toHaveProperty('content');
+	});
+});
+
+describe('GET /api/email/:id/attachments/:n', () => {
+	it('streams the attachment with download headers', async () => {
+		const { token, email } = await deliverWithAttachment();
+
+		const res = await SELF.fetch(`${BASE_URL}/api/email/${email.id}/attachments/0`, authed(token));
+		expect(res.status).toBe(200);
+		expect(res.headers.get('Content-Type')).toBe('text/plain');
+		expect(res.headers.get('Content-Length')).toBe('17');
+		expect(res.headers.get('Content-Disposition')).toBe(`attachment; filename="r_port.txt"; filename*=UTF-8''r%C3%A9port.txt`);
+		expect(await res.text()).toBe('quarterly numbers');
+	});
+
+	it('lists attachment metadata on the email detail', async () => {
+		const { token, email } = await deliverWithAttachment();
+
+		const detail = await (await SELF.fetch(`${BASE_URL}/api/email/${email.id}`, authed(token))).json<{ attachments: unknown[] }>();
+		expect(detail.attachments).toEqual([
+			{ idx: 0, filename: 'réport.txt', content_type: 'text/plain', size: 17, content_id: null, disposition: 'attachment' },
+		]);
+	});
+
+	it("does not serve another user's attachments", async () => {
+		const { email } = await deliverWithAttachment();
+		const intruder = await generateIdentity();
+
+		const res = await SELF.fetch(`${BASE_URL}/api/email/${email.id}/attachments/0`, authed(intruder.token));
+		expect(res.status).toBe(404);
+	});
+
+	it('returns 404 for an unknown index', async () => {
+		const { token, email } = await deliverWithAttachment();
+
+		const res = await SELF.fetch(`${BASE_URL}/api/email/${email.id}/attachments/5`, authed(token));
+		expect(res.status).toBe(404);
+	});
+});
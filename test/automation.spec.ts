@@ -0,0 +1,100 @@
+import { SELF } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { extractVerification } from '../src/worker/extract';
+import { BASE_URL, authed, createEmailMessage, deliver, generateIdentity, latestEmailId } from './helpers';
+
+async function api<T = Record<string, any>>(token: string, method: string, path: string, body?: unknown) {
+	const res = await SELF.fetch(`${BASE_URL}${path}`, authed(token, { method, body: body === undefined ? undefined : JSON.stringify(body) }));
+	return { status: res.status, body: await res.json<T>() };
+}
+
+describe('API keys', () => {
+	it('authenticates with a key until it is revoked', async () => {
+		const { username, token } = await generateIdentity();
+
+		const created = await api(token, 'POST', '/api/keys', { name: 'CI' });
+		expect(created.status).toBe(201);
+		const { key, id, prefix } = created.body.key;
+		expect(key).toMatch(/^amk_/);
+		expect(key.startsWith(prefix)).toBe(true);
+
+		expect((await api(key, 'GET', `/api/emails/${username}`)).status).toBe(200);
+		const listed = await api(token, 'GET', '/api/keys');
+		expect(listed.body.keys).toEqual([{ id, name: 'CI', prefix, created_at: expect.any(Number), last_used_at: expect.any(Number) }]);
+
+		expect((await api(token, 'DELETE', `/api/keys/${id}`)).status).toBe(200);
+		expect((await api(key, 'GET', `/api/emails/${username}`)).status).toBe(401);
+	});
+
+	it('rejects unknown keys and keys of other mailboxes', async () => {
+		const alice = await generateIdentity();
+		const bob = await generateIdentity();
+		const key = (await api(alice.token, 'POST', '/api/keys', { name: 'CI' })).body.key;
+
+		expect((await api('amk_not-a-real-key', 'GET', '/api/keys')).status).toBe(401);
+		expect((await api(key.key, 'GET', `/api/emails/${bob.username}`)).status).toBe(403);
+		expect((await api(bob.token, 'DELETE', `/api/keys/${key.id}`)).status).toBe(404);
+	});
+});
+
+describe('GET /api/wait', () => {
+	it('returns a matching message that already arrived, with its code and link', async () => {
+		const { username, address, token } = await generateIdentity();
+		await deliver(createEmailMessage({ to: address, subject: 'Weekly digest' }));
+		await deliver(
+			createEmailMessage({
+				to: address,
+				from: 'noreply@app.example.com',
+				subject: 'Verify your account',
+				text: 'Your verification code is 482913.\n\nOr open https://app.example.com/verify?token=abc123.',
+			})
+		);
+		const id = await latestEmailId(username);
+
+		const { status, body } = await api(token, 'GET', '/api/wait?from=NOREPLY@app&subject=verify&timeout=0');
+
+		expect(status).toBe(200);
+		expect(body.email).toMatchObject({ id, subject: 'Verify your account', text: expect.stringContaining('482913') });
+		expect(body.extracted).toEqual({ codes: ['482913'], links: ['https://app.example.com/verify?token=abc123'] });
+	});
+
+	it('blocks until a matching message is delivered', async () => {
+		const { address, token } = await generateIdentity();
+		const key = (await api(token, 'POST', '/api/keys', { name: 'e2e' })).body.key.key;
+
+		const waiting = api(key, 'GET', `/api/wait?subject=login&since=${Math.floor(Date.now() / 1000)}&timeout=10`);
+		await new Promise((resolve) => setTimeout(resolve, 100));
+		await deliver(createEmailMessage({ to: address, subject: 'Something else' }));
+		await deliver(createEmailMessage({ to: address, subject: 'Your login code', text: 'Code: 7731' }));
+
+		const { status, body } = await waiting;
+		expect(status).toBe(200);
+		expect(body.email.subject).toBe('Your login code');
+		expect(body.extracted.codes).toEqual(['7731']);
+	});
+
+	it('answers 408 when nothing matches in time', async () => {
+		const { address, token } = await generateIdentity();
+		await deliver(createEmailMessage({ to: address, subject: 'Hello' }));
+
+		const { status, body } = await api(token, 'GET', '/api/wait?subject=verify&timeout=0.2');
+		expect(status).toBe(408);
+		expect(body.code).toBe('WAIT_TIMEOUT');
+		expect((await api(token, 'GET', '/api/wait?timeout=600')).status).toBe(400);
+	});
+});
+
+describe('extractVerification', () => {
+	it('finds codes and sign-in links in HTML mail and ignores unrelated numbers', () => {
+		const html = `
+			<p>Order 2024 shipped. Call 555 0100 for help.</p>
+			<p>Your one-time passcode:</p><p><b>A7K2Q9</b></p>
+			<a href="https://shop.example.com/track/99">Track</a>
+			<a href="https://auth.example.com/magic?t=x&amp;u=1">Sign in</a>`;
+
+		expect(extractVerification({ subject: 'Sign in to Shop', html })).toEqual({
+			codes: ['A7K2Q9'],
+			links: ['https://auth.example.com/magic?t=x&u=1'],
+		});
+	});
+});
@@ -0,0 +1,69 @@
+import { SELF } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { parseClassification } from '../src/worker/classify';
+import { BASE_URL, authed, createEmailMessage, deliver, generateIdentity, latestEmailId, mockAI } from './helpers';
+
+async function api<T = Record<string, any>>(token: string, method: string, path: string, body?: unknown) {
+	const res = await SELF.fetch(`${BASE_URL}${path}`, authed(token, { method, body: body === undefined ? undefined : JSON.stringify(body) }));
+	return { status: res.status, body: await res.json<T>() };
+}
+
+// The model tends to wrap its JSON in chatter
+const classifierAI = (verdict: Record<string, unknown>) => mockAI(`Here is the analysis:\n${JSON.stringify(verdict)}`);
+
+describe('AI classification at ingest', () => {
+	it('quarantines high-risk mail and stores the scores and reasons', async () => {
+		const { username, address, token } = await generateIdentity();
+		const verdict = { category: 'security', spam_score: 40, phishing_score: 93, reasons: ['Asks for a password', 'Lookalike domain'] };
+
+		await deliver(createEmailMessage({ to: address, from: 'it@paypa1.example', subject: 'Verify your account now' }), { AI: classifierAI(verdict) });
+		const id = await latestEmailId(username);
+
+		expect((await api(token, 'GET', `/api/emails/${username}`)).body).toEqual([]);
+		const quarantine = await api(token, 'GET', `/api/emails/${username}?folder=quarantine`);
+		expect(quarantine.body).toMatchObject([{ id, folder: 'quarantine', ai_category: 'security', spam_score: 40, phishing_score: 93 }]);
+		expect((await api(token, 'GET', '/api/counts')).body.folders.quarantine).toEqual({ total: 1, unread: 1 });
+
+		const detail = await api(token, 'GET', `/api/email/${id}`);
+		expect(detail.body.ai_reasons).toEqual(['Asks for a password', 'Lookalike domain']);
+	});
+
+	it('delivers low-risk mail to the inbox and lets the user release quarantined mail', async () => {
+		const { username, address, token } = await generateIdentity();
+		await deliver(createEmailMessage({ to: address, subject: 'Lunch?' }), {
+			AI: classifierAI({ category: 'personal', spam_score: 2, phishing_score: 1, reasons: [] }),
+		});
+		const lunch = await latestEmailId(username);
+		await deliver(createEmailMessage({ to: address, subject: 'WIN A PRIZE' }), {
+			AI: classifierAI({ category: 'spam', spam_score: 97, phishing_score: 20, reasons: ['Prize bait'] }),
+		});
+		const prize = await latestEmailId(username);
+
+		expect((await api(token, 'GET', `/api/emails/${username}`)).body).toMatchObject([{ id: lunch, spam_score: 2, phishing_score: 1 }]);
+
+		expect((await api(token, 'PATCH', `/api/email/${prize}`, { folder: 'inbox' })).status).toBe(200);
+		const inbox = await api(token, 'GET', `/api/emails/${username}`);
+		expect(inbox.body.map((e: { id: string }) => e.id).sort()).toEqual([prize, lunch].sort());
+	});
+
+	it('leaves mail unscored in the inbox when the model gives no usable answer', async () => {
+		const { username, address, token } = await generateIdentity();
+		await deliver(createEmailMessage({ to: address }));
+
+		expect((await api(token, 'GET', `/api/emails/${username}`)).body).toMatchObject([{ spam_score: null, phishing_score: null, ai_category: null }]);
+	});
+});
+
+describe('parseClassification', () => {
+	it('reads loose model output', () => {
+		expect(parseClassification('Sure! {"category": "Receipt", "spam_score": "12", "phishing_score": 0.85, "reasons": ["Odd link", 3]} Hope that helps.')).toEqual({
+			category: 'receipt',
+			spam_score: 12,
+			phishing_score: 85,
+			reasons: ['Odd link'],
+		});
+		expect(parseClassification('{"category": "urgent", "spam_score": 250}')).toMatchObject({ category: null, spam_score: 100, phishing_score: null });
+		expect(parseClassification('This looks like a newsletter.')).toEqual({ category: 'newsletter', spam_score: null, phishing_score: null, reasons: [] });
+		expect(parseClassification('{not json')).toMatchObject({ category: null });
+	});
+});
@@ -0,0 +1,87 @@
+import { SELF, env } from 'cloudflare:test';
+import { describe, it, expect, vi } from 'vitest';
+import { BASE_URL, authed, createEmailMessage, deliver, fetchWith, generateIdentity, latestEmailId } from './helpers';
+
+async function admin(method: string, path: string, body?: unknown, token = 'test-admin-token') {
+	const res = await SELF.fetch(`${BASE_URL}/api/admin${path}`, authed(token, { method, body: body === undefined ? undefined : JSON.stringify(body) }));
+	return { status: res.status, body: await res.json<Record<string, any>>() };
+}
+
+async function generate(body: Record<string, unknown>) {
+	const res = await SELF.fetch(`${BASE_URL}/api/generate`, { method: 'POST', body: JSON.stringify(body) });
+	return { status: res.status, body: await res.json<Record<string, any>>() };
+}
+
+// Each test gets its own domain, so they don't depend on each other's admin changes
+const uniqueDomain = () => `mail-${crypto.randomUUID().substring(0, 8)}.example.net`;
+
+describe('domain administration', () => {
+	it('adds, lists and disables domains with the admin token only', async () => {
+		const { token } = await generateIdentity();
+		const domain = uniqueDomain();
+
+		expect((await admin('GET', '/domains', undefined, token)).status).toBe(401);
+		expect((await admin('POST', '/domains', { name: domain }, 'wrong')).status).toBe(401);
+
+		expect((await admin('POST', '/domains', { name: domain.toUpperCase() })).status).toBe(201);
+		expect((await admin('POST', '/domains', { name: domain })).body.code).toBe('DOMAIN_EXISTS');
+		expect((await admin('POST', '/domains', { name: 'not a domain' })).status).toBe(400);
+
+		const listed = await admin('GET', '/domains');
+		expect(listed.body.domains[0]).toEqual({ name: env.DOMAIN, enabled: true, default: true, created_at: null });
+		expect(listed.body.domains).toContainEqual(expect.objectContaining({ name: domain, enabled: true }));
+		expect((await (await SELF.fetch(`${BASE_URL}/api/domains`)).json<{ domains: string[] }>()).domains).toContain(domain);
+
+		expect((await admin('PATCH', `/domains/${domain}`, { enabled: false })).status).toBe(200);
+		expect((await admin('PATCH', `/domains/${env.DOMAIN}`, { enabled: false })).status).toBe(400);
+		expect((await (await SELF.fetch(`${BASE_URL}/api/domains`)).json<{ domains: string[] }>()).domains).not.toContain(domain);
+		expect((await generate({ domain })).status).toBe(400);
+	});
+});
+
+describe('mail on several domains', () => {
+	it('matches inbound mail on the full address and replies from the domain it arrived on', async () => {
+		const domain = uniqueDomain();
+		await admin('POST', '/domains', { name: domain });
+
+		const identity = await generate({ domain });
+		expect(identity.body.address).toBe(`${identity.body.username}@${domain}`);
+		const { username, token } = identity.body;
+
+		// Same local part, wrong domain
+		const misaddressed = createEmailMessage({ to: `${username}@${env.DOMAIN}` });
+		await deliver(misaddressed);
+		expect(misaddressed.setReject).toHaveBeenCalledWith('User does not exist');
+		const unknownDomain = createEmailMessage({ to: `${username}@unknown.example` });
+		await deliver(unknownDomain);
+		expect(unknownDomain.setReject).toHaveBeenCalledWith('Domain not served');
+
+		await deliver(createEmailMessage({ to: `${username}+news@${domain}`, subject: 'Hello there' }));
+		const emailId = await latestEmailId(username);
+
+		const send = vi.fn();
+		const res = await fetchWith('/api/reply', authed(token, { method: 'POST', body: JSON.stringify({ emailId, body: 'Thanks!' }) }), {
+			EMAIL_SENDER: { send } as unknown as SendEmail,
+		});
+		expect(res.status).toBe(200);
+		expect(send.mock.calls[0][0].from).toBe(`${username}@${domain}`);
+
+		// Logging in again reports the address on the chosen domain
+		const login = await SELF.fetch(`${BASE_URL}/api/login`, {
+			method: 'POST',
+			body: JSON.stringify({ username, password: identity.body.password }),
+		});
+		expect((await login.json<{ address: string }>()).address).toBe(`${username}@${domain}`);
+	});
+
+	it('bounces mail for domains that have been disabled', async () => {
+		const domain = uniqueDomain();
+		await admin('POST', '/domains', { name: domain });
+		const { body } = await generate({ domain });
+		await admin('PATCH', `/domains/${domain}`, { enabled: false });
+
+		const message = createEmailMessage({ to: body.address });
+		await deliver(message);
+		expect(message.setReject).toHaveBeenCalledWith('Domain not served');
+	});
+});
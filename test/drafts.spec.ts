@@ -0,0 +1,94 @@
+import { describe, it, expect, vi } from 'vitest';
+import { AI_RATE_LIMIT } from '../src/worker/ratelimit';
+import { authed, createEmailMessage, deliver, fetchWith, generateIdentity, latestEmailId } from './helpers';
+
+// Streams `tokens` the way Workers AI does with `stream: true`, split mid-event to exercise buffering
+function streamingAI(tokens: string[]) {
+	const run = vi.fn(async () => {
+		const sse = tokens.map((response) => `data: ${JSON.stringify({ response })}\n\n`).join('') + 'data: [DONE]\n\n';
+		const bytes = new TextEncoder().encode(sse);
+		return new ReadableStream<Uint8Array>({
+			start(controller) {
+				for (let i = 0; i < bytes.length; i += 7) controller.enqueue(bytes.slice(i, i + 7));
+				controller.close();
+			},
+		});
+	});
+	return { run } as unknown as Ai & { run: ReturnType<typeof vi.fn> };
+}
+
+function draft(token: string, body: unknown, ai = streamingAI(['Sounds ', 'good, ', 'see you then!'])) {
+	return fetchWith('/api/ai/draft', authed(token, { method: 'POST', body: JSON.stringify(body) }), { AI: ai });
+}
+
+describe('AI reply drafts', () => {
+	it('streams a reply drafted from the original message and the instruction', async () => {
+		const { username, address, token } = await generateIdentity();
+		await deliver(createEmailMessage({ to: address, from: 'sam@example.org', subject: 'Dinner Friday?', text: 'Are you free at 7?' }));
+		const emailId = await latestEmailId(username);
+		const ai = streamingAI(['Sounds ', 'good, ', 'see you then!']);
+
+		const res = await draft(token, { emailId, instruction: 'accept, mention I will bring wine' }, ai);
+		expect(res.status).toBe(200);
+		expect(res.headers.get('Content-Type')).toContain('text/plain');
+		expect(await res.text()).toBe('Sounds good, see you then!');
+
+		const [, input] = ai.run.mock.calls[0] as [string, { messages: { content: string }[]; stream: boolean }];
+		expect(input.stream).toBe(true);
+		expect(input.messages[0].content).toContain('accept, mention I will bring wine');
+		expect(input.messages[0].content).toContain('Subject: Dinner Friday?');
+		expect(input.messages[0].content).toContain('Are you free at 7?');
+	});
+
+	it('rewrites the current draft without needing a message', async () => {
+		const { token } = await generateIdentity();
+		const ai = streamingAI(['Guten Tag']);
+
+		const res = await draft(token, { action: 'translate', draft: 'Good afternoon', language: 'German' }, ai);
+		expect(await res.text()).toBe('Guten Tag');
+		expect((ai.run.mock.calls[0] as [string, { messages: { content: string }[] }])[1].messages[0].content).toContain('into German');
+
+		expect((await draft(token, { action: 'tone', draft: 'Hi', tone: 'sarcastic' })).status).toBe(400);
+		expect((await draft(token, { action: 'shorten', draft: ' ' })).status).toBe(400);
+	});
+
+	it("doesn't draft replies to another user's messages", async () => {
+		const alice = await generateIdentity();
+		const bob = await generateIdentity();
+		await deliver(createEmailMessage({ to: alice.address }));
+		const emailId = await latestEmailId(alice.username);
+
+		const ai = streamingAI(['nope']);
+		const res = await draft(bob.token, { emailId }, ai);
+		expect(res.status).toBe(404);
+		expect(ai.run).not.toHaveBeenCalled();
+	});
+
+	it('reports the model as unavailable when it answers without a stream', async () => {
+		const { token } = await generateIdentity();
+		const ai = { run: vi.fn(async () => ({ response: 'not streamed' })) } as unknown as ReturnType<typeof streamingAI>;
+
+		const res = await draft(token, { action: 'shorten', draft: 'A long message' }, ai);
+		expect(res.status).toBe(502);
+		expect(await res.json()).toMatchObject({ code: 'AI_UNAVAILABLE' });
+	});
+
+	it('rate limits AI calls per user', async () => {
+		const { token } = await generateIdentity();
+		const other = await generateIdentity();
+		for (let i = 0; i < AI_RATE_LIMIT.limit; i++) {
+			const res = await draft(token, { action: 'shorten', draft: 'A long message' });
+			expect(res.status).toBe(200);
+			await res.text();
+		}
+
+		const ai = streamingAI(['too many']);
+		const limited = await draft(token, { action: 'shorten', draft: 'A long message' }, ai);
+		expect(limited.status).toBe(429);
+		expect(Number(limited.headers.get('Retry-After'))).toBeGreaterThan(0);
+		expect(await limited.json()).toMatchObject({ code: 'RATE_LIMITED' });
+		expect(ai.run).not.toHaveBeenCalled();
+
+		expect((await draft(other.token, { action: 'shorten', draft: 'A long message' })).status).toBe(200);
+	});
+});
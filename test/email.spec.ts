@@ -0,0 +1,61 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { createEmailMessage, deliver, generateIdentity, mockAI } from './helpers';
+
+describe('email() handler', () => {
+	it('stores the message in D1 and the parsed body in R2', async () => {
+		const { username, address } = await generateIdentity();
+		const message = createEmailMessage({ to: address, from: 'news@example.org', subject: 'Weekly digest', text: 'All the news' });
+
+		await deliver(message);
+
+		expect(message.setReject).not.toHaveBeenCalled();
+		const row = await env.DB.prepare('SELECT * FROM emails WHERE username = ?').bind(username).first<Record<string, unknown>>();
+		expect(row).toMatchObject({
+			sender: 'news@example.org',
+			subject: 'Weekly digest',
+			has_attachments: 0,
+			is_read: 0,
+			ai_summary: 'Mock summary of the message.',
+		});
+		expect(String(row!.snippet).trim()).toBe('All the news');
+
+		const object = await env.MAIL_STORAGE.get(row!.raw_r2_key as string);
+		expect(object).not.toBeNull();
+		const parsed = await object!.json<{ subject: string }>();
+		expect(parsed.subject).toBe('Weekly digest');
+	});
+
+	it('flags messages with attachments', async () => {
+		const { username, address } = await generateIdentity();
+		await deliver(
+			createEmailMessage({ to: address, attachment: { filename: 'report.txt', contentType: 'text/plain', content: 'numbers' } })
+		);
+
+		const row = await env.DB.prepare('SELECT has_attachments FROM emails WHERE username = ?').bind(username).first<{ has_attachments: number }>();
+		expect(row?.has_attachments).toBe(1);
+	});
+
+	it('falls back to a placeholder summary when the AI call fails', async () => {
+		const { username, address } = await generateIdentity();
+		const ai = mockAI();
+		ai.run.mockRejectedValueOnce(new Error('model unavailable'));
+
+		await deliver(createEmailMessage({ to: address }), { AI: ai });
+
+		const row = await env.DB.prepare('SELECT ai_summary FROM emails WHERE username = ?').bind(username).first<{ ai_summary: string }>();
+		expect(row?.ai_summary).toBe('AI Summary unavailable.');
+	});
+
+	it('rejects mail for unknown recipients', async () => {
+		const message = createEmailMessage({ to: `nobody@${env.DOMAIN}` });
+
+		await deliver(message);
+
+		expect(message.setReject).toHaveBeenCalledWith('User does not exist');
+		const { results } = await env.DB.prepare('SELECT id FROM emails WHERE username = ?').bind('nobody').all();
+		expect(results).toHaveLength(0);
+		const listing = await env.MAIL_STORAGE.list({ prefix: 'nobody/' });
+		expect(listing.objects).toHaveLength(0);
+	});
+});
@@ -0,0 +1,68 @@
+import { SELF } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { mergeModelEntities } from '../src/worker/extract';
+import { BASE_URL, authed, createEmailMessage, deliver, generateIdentity, latestEmailId, mockAI } from './helpers';
+
+async function detail(token: string, id: string) {
+	const res = await SELF.fetch(`${BASE_URL}/api/email/${id}`, authed(token));
+	return res.json<Record<string, any>>();
+}
+
+const SHIPPING_TEXT = [
+	'Your order has shipped!',
+	'UPS tracking: 1Z999AA10123456784',
+	'Delivery expected March 14, 2025.',
+	'Please sign for the parcel and rate your purchase by next Friday.',
+].join('\n');
+
+describe('entity extraction at ingest', () => {
+	it('stores pattern matches merged with what the model found', async () => {
+		const { username, address, token } = await generateIdentity();
+		const model = {
+			tracking_numbers: ['1Z999AA10123456784', 'FAKE000000000'],
+			dates: [{ text: 'next Friday', date: null }, { text: 'March 14, 2025', date: '2025-03-14' }],
+			action_items: ['Sign for the parcel', 'Rate your purchase'],
+		};
+		await deliver(createEmailMessage({ to: address, subject: 'Shipped', text: SHIPPING_TEXT }), {
+			AI: mockAI(JSON.stringify(model)),
+		});
+
+		const email = await detail(token, await latestEmailId(username));
+		expect(email.ai_entities).toEqual({
+			codes: [],
+			links: [],
+			// The model's made-up number isn't in the message, so it is dropped
+			tracking_numbers: ['1Z999AA10123456784'],
+			dates: [
+				{ text: 'March 14, 2025', date: '2025-03-14' },
+				{ text: 'next Friday', date: null },
+			],
+			action_items: ['Sign for the parcel', 'Rate your purchase'],
+		});
+	});
+
+	it('keeps the pattern results when the model answers with prose', async () => {
+		const { username, address, token } = await generateIdentity();
+		await deliver(
+			createEmailMessage({
+				to: address,
+				subject: 'Sign in to Example',
+				text: 'Your sign-in code is 551 204.\nOr use this magic link: https://example.com/auth/magic?t=abc',
+			})
+		);
+
+		const email = await detail(token, await latestEmailId(username));
+		expect(email.ai_entities).toMatchObject({ codes: ['551 204'], links: ['https://example.com/auth/magic?t=abc'], action_items: [] });
+	});
+});
+
+describe('mergeModelEntities', () => {
+	it('ignores malformed model output', () => {
+		const base = { codes: ['123456'], links: [], tracking_numbers: [], dates: [], action_items: [] };
+		expect(mergeModelEntities(base, '{"action_items": [', '')).toEqual(base);
+		expect(mergeModelEntities(base, '{"action_items": "call back", "dates": [null, 5, "2025-01-02"]}', '')).toEqual({
+			...base,
+			dates: [{ text: '2025-01-02', date: '2025-01-02' }],
+		});
+	});
+});
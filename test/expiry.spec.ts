@@ -0,0 +1,82 @@
+import { env, SELF } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { BASE_URL, authed, createEmailMessage, deliver, generateIdentity, runCron } from './helpers';
+
+describe('identity expiry', () => {
+	it('sets the requested lifetime on generate', async () => {
+		const before = Math.floor(Date.now() / 1000);
+		const res = await SELF.fetch(`${BASE_URL}/api/generate`, { method: 'POST', body: JSON.stringify({ ttlHours: 2, messageTtlHours: 1 }) });
+		const { username, expires_at } = await res.json<{ username: string; expires_at: number }>();
+
+		expect(expires_at - before).toBeGreaterThanOrEqual(2 * 3600);
+		expect(expires_at - before).toBeLessThan(2 * 3600 + 60);
+		const row = await env.DB.prepare('SELECT message_ttl FROM users WHERE username = ?').bind(username).first<{ message_ttl: number }>();
+		expect(row?.message_ttl).toBe(3600);
+	});
+
+	it('caps message expiry at the identity expiry', async () => {
+		const res = await SELF.fetch(`${BASE_URL}/api/generate`, { method: 'POST', body: JSON.stringify({ ttlHours: 1, messageTtlHours: 48 }) });
+		const { username, address, expires_at } = await res.json<{ username: string; address: string; expires_at: number }>();
+
+		await deliver(createEmailMessage({ to: address }));
+
+		const row = await env.DB.prepare('SELECT expires_at FROM emails WHERE username = ?').bind(username).first<{ expires_at: number }>();
+		expect(row?.expires_at).toBe(expires_at);
+	});
+
+	it('extends the expiry of the current identity', async () => {
+		const { token, expires_at } = await generateIdentity();
+
+		const res = await SELF.fetch(`${BASE_URL}/api/expiry`, authed(token, { method: 'POST', body: JSON.stringify({ hours: 24 }) }));
+		const body = await res.json<{ expires_at: number }>();
+		expect(body.expires_at).toBe(expires_at + 24 * 3600);
+	});
+
+	it('refuses mail and logins for expired identities', async () => {
+		const { username, address, password } = await generateIdentity();
+		await env.DB.prepare('UPDATE users SET expires_at = 1 WHERE username = ?').bind(username).run();
+
+		const message = createEmailMessage({ to: address });
+		await deliver(message);
+		expect(message.setReject).toHaveBeenCalled();
+
+		const res = await SELF.fetch(`${BASE_URL}/api/login`, { method: 'POST', body: JSON.stringify({ username, password }) });
+		expect(res.status).toBe(410);
+	});
+});
+
+describe('scheduled() cleanup', () => {
+	it('purges expired messages and their R2 objects', async () => {
+		const { username, address } = await generateIdentity();
+		await deliver(createEmailMessage({ to: address, subject: 'Old' }));
+		await deliver(createEmailMessage({ to: address, subject: 'Fresh' }));
+		const old = await env.DB.prepare("SELECT id, raw_r2_key FROM emails WHERE subject = 'Old'").first<{ id: string; raw_r2_key: string }>();
+		await env.DB.prepare('UPDATE emails SET expires_at = 1 WHERE id = ?').bind(old!.id).run();
+
+		await runCron();
+
+		const { results } = await env.DB.prepare('SELECT subject FROM emails WHERE username = ?').bind(username).all<{ subject: string }>();
+		expect(results.map((r) => r.subject)).toEqual(['Fresh']);
+		expect(await env.MAIL_STORAGE.get(old!.raw_r2_key)).toBeNull();
+	});
+
+	it('purges expired identities with all of their data', async () => {
+		const { username, address } = await generateIdentity();
+		await deliver(createEmailMessage({ to: address }));
+		await env.DB.prepare('UPDATE users SET expires_at = 1 WHERE username = ?').bind(username).run();
+
+		await runCron();
+
+		expect(await env.DB.prepare('SELECT 1 FROM users WHERE username = ?').bind(username).first()).toBeNull();
+		expect(await env.DB.prepare('SELECT 1 FROM emails WHERE username = ?').bind(username).first()).toBeNull();
+		expect((await env.MAIL_STORAGE.list({ prefix: `${username}/` })).objects).toHaveLength(0);
+	});
+
+	it('leaves identities without an expiry alone', async () => {
+		await env.DB.prepare('INSERT INTO users (username, password) VALUES (?, ?)').bind('forever', 'x').run();
+
+		await runCron();
+
+		expect(await env.DB.prepare('SELECT 1 FROM users WHERE username = ?').bind('forever').first()).not.toBeNull();
+	});
+});
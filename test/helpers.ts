@@ -0,0 +1,126 @@
+import { createExecutionContext, createScheduledController, env, SELF, waitOnExecutionContext } from 'cloudflare:test';
+import { vi } from 'vitest';
+import worker from '../src';
+
+export const BASE_URL = 'http://example.com';
+
+export interface Identity {
+	username: string;
+	address: string;
+	password: string;
+	token: string;
+	expires_at: number;
+}
+
+export async function generateIdentity(): Promise<Identity> {
+	const res = await SELF.fetch(`${BASE_URL}/api/generate`, { method: 'POST' });
+	return res.json();
+}
+
+export async function latestEmailId(username: string) {
+	const row = await env.DB.prepare('SELECT id FROM emails WHERE username = ? ORDER BY created_at DESC, rowid DESC LIMIT 1')
+		.bind(username)
+		.first<{ id: string }>();
+	return row!.id;
+}
+
+export function authed(token: string, init: RequestInit = {}): RequestInit {
+	const headers = new Headers(init.headers);
+	headers.set('Authorization', `Bearer ${token}`);
+	if (typeof init.body === 'string') headers.set('Content-Type', 'application/json');
+	return { ...init, headers };
+}
+
+// Runs a request through the worker with binding overrides (e.g. a stubbed EMAIL_SENDER)
+export async function fetchWith(path: string, init: RequestInit, overrides: Partial<Env> = {}) {
+	const ctx = createExecutionContext();
+	const res = await worker.fetch(new Request(`${BASE_URL}${path}`, init), { ...env, ...overrides }, ctx);
+	await waitOnExecutionContext(ctx);
+	return res;
+}
+
+// The real AI binding would call out to Cloudflare, so ingest tests always use this
+export function mockAI(response = 'Mock summary of the message.') {
+	return { run: vi.fn(async () => ({ response })) } as unknown as Ai & { run: ReturnType<typeof vi.fn> };
+}
+
+export interface RawEmailOptions {
+	from?: string;
+	to: string;
+	subject?: string;
+	text?: string;
+	messageId?: string;
+	inReplyTo?: string;
+	references?: string;
+	attachment?: { filename: string; contentType: string; content: string };
+	// Raw header lines placed above the others, like the trace headers a receiving server adds
+	headers?: string[];
+}
+
+export function buildRawEmail(options: RawEmailOptions) {
+	const { from = 'sender@example.org', to, subject = 'Hello', text = 'Hi there', attachment } = options;
+	const headers = [
+		...(options.headers ?? []),
+		`From: Sender <${from}>`,
+		`To: ${to}`,
+		`Subject: ${subject}`,
+		`Message-ID: ${options.messageId ?? `<${crypto.randomUUID()}@example.org>`}`,
+		'MIME-Version: 1.0',
+	];
+	if (options.inReplyTo) headers.push(`In-Reply-To: ${options.inReplyTo}`);
+	if (options.references) headers.push(`References: ${options.references}`);
+	if (!attachment) {
+		return [...headers, 'Content-Type: text/plain; charset=utf-8', '', text, ''].join('\r\n');
+	}
+
+	const boundary = 'fixture-boundary';
+	return [
+		...headers,
+		`Content-Type: multipart/mixed; boundary="${boundary}"`,
+		'',
+		`--${boundary}`,
+		'Content-Type: text/plain; charset=utf-8',
+		'',
+		text,
+		`--${boundary}`,
+		`Content-Type: ${attachment.contentType}; name="${attachment.filename}"`,
+		`Content-Disposition: attachment; filename="${attachment.filename}"`,
+		'Content-Transfer-Encoding: base64',
+		'',
+		btoa(attachment.content),
+		`--${boundary}--`,
+		'',
+	].join('\r\n');
+}
+
+export type TestEmailMessage = ForwardableEmailMessage & {
+	setReject: ReturnType<typeof vi.fn>;
+	forward: ReturnType<typeof vi.fn>;
+};
+
+export function createEmailMessage(options: RawEmailOptions): TestEmailMessage {
+	const raw = new TextEncoder().encode(buildRawEmail(options));
+	return {
+		from: options.from ?? 'sender@example.org',
+		to: options.to,
+		headers: new Headers({ Subject: options.subject ?? 'Hello' }),
+		raw: new Response(raw).body!,
+		rawSize: raw.byteLength,
+		setReject: vi.fn(),
+		forward: vi.fn(async () => {}),
+		reply: vi.fn(async () => {}),
+	} as unknown as TestEmailMessage;
+}
+
+export async function deliver(message: ForwardableEmailMessage, overrides: Partial<Env> = {}) {
+	const ctx = createExecutionContext();
+	await worker.email(message, { ...env, AI: mockAI(), ...overrides }, ctx);
+	await waitOnExecutionContext(ctx);
+}
+
+// Runs the cron handler (expiry purge and search backfill) once
+export async function runCron() {
+	const ctx = createExecutionContext();
+	await worker.scheduled(createScheduledController({ scheduledTime: Date.now(), cron: '*/15 * * * *' }), env, ctx);
+	await waitOnExecutionContext(ctx);
+}
@@ -0,0 +1,92 @@
+import { env, SELF } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { MAX_PAGE_SIZE } from '../src/worker/listing';
+import { BASE_URL, authed, generateIdentity } from './helpers';
+
+type Listing = { emails: { id: string; subject: string; sender: string }[]; next_cursor: string | null };
+
+// Rows are inserted directly so timestamps and flags are deterministic
+async function seed(username: string, rows: { id: string; created_at: number; sender?: string; is_read?: number; has_attachments?: number }[]) {
+	await env.DB.batch(
+		rows.map((r) =>
+			env.DB.prepare(
+				`INSERT INTO emails (id, username, sender, subject, snippet, has_attachments, is_read, created_at, thread_id)
+				 VALUES (?, ?, ?, ?, '', ?, ?, ?, ?)`
+			).bind(r.id, username, r.sender ?? 'someone@example.org', r.id, r.has_attachments ?? 0, r.is_read ?? 0, r.created_at, r.id)
+		)
+	);
+}
+
+async function list(username: string, token: string, query = '') {
+	const res = await SELF.fetch(`${BASE_URL}/api/emails/${username}?${query}`, authed(token));
+	return { status: res.status, body: await res.json<Listing>() };
+}
+
+describe('GET /api/emails/:username', () => {
+	it('pages through the folder with a stable cursor, including same-second rows', async () => {
+		const { username, token } = await generateIdentity();
+		await seed(username, [
+			{ id: 'a', created_at: 100 },
+			{ id: 'b', created_at: 200 },
+			{ id: 'c', created_at: 200 },
+			{ id: 'd', created_at: 200 },
+			{ id: 'e', created_at: 300 },
+		]);
+
+		const seen: string[] = [];
+		let cursor: string | null = null;
+		do {
+			const { body }: { body: Listing } = await list(username, token, `limit=2${cursor ? `&cursor=${cursor}` : ''}`);
+			expect(body.emails.length).toBeLessThanOrEqual(2);
+			seen.push(...body.emails.map((e) => e.id));
+			cursor = body.next_cursor;
+		} while (cursor);
+
+		expect(seen).toEqual(['e', 'd', 'c', 'b', 'a']);
+	});
+
+	it('answers requests without a cursor or limit with a bare array of the newest page', async () => {
+		const { username, token } = await generateIdentity();
+		await seed(
+			username,
+			Array.from({ length: MAX_PAGE_SIZE + 1 }, (_, i) => ({ id: `m${i}`, created_at: 100 + i, is_read: i === 0 ? 1 : 0 }))
+		);
+
+		const res = await SELF.fetch(`${BASE_URL}/api/emails/${username}`, authed(token));
+		const emails = await res.json<Listing['emails']>();
+		expect(Array.isArray(emails)).toBe(true);
+		expect(emails).toHaveLength(MAX_PAGE_SIZE);
+		expect(emails[0].id).toBe(`m${MAX_PAGE_SIZE}`);
+
+		// Filters still apply in that shape, and either paging parameter switches to the paged object
+		const unread = await (await SELF.fetch(`${BASE_URL}/api/emails/${username}?unread=1&sender=nobody`, authed(token))).json();
+		expect(unread).toEqual([]);
+		const paged = await list(username, token, 'limit=1');
+		expect(paged.body).toMatchObject({ emails: [{ id: `m${MAX_PAGE_SIZE}` }], next_cursor: expect.any(String) });
+	});
+
+	it('filters by unread, attachments, sender and date range', async () => {
+		const { username, token } = await generateIdentity();
+		await seed(username, [
+			{ id: 'read', created_at: 100, is_read: 1 },
+			{ id: 'files', created_at: 200, has_attachments: 1 },
+			{ id: 'boss', created_at: 300, sender: 'Boss@Corp.example' },
+			{ id: 'late', created_at: 400 },
+		]);
+
+		const ids = async (query: string) => (await list(username, token, `limit=10&${query}`)).body.emails.map((e) => e.id);
+		expect(await ids('unread=1')).toEqual(['late', 'boss', 'files']);
+		expect(await ids('has_attachments=1')).toEqual(['files']);
+		expect(await ids('sender=boss@corp')).toEqual(['boss']);
+		expect(await ids('since=200&until=400')).toEqual(['boss', 'files']);
+		expect(await ids('sender=%25')).toEqual([]);
+	});
+
+	it('rejects malformed cursors and limits', async () => {
+		const { username, token } = await generateIdentity();
+
+		expect((await list(username, token, 'cursor=not-a-cursor')).status).toBe(400);
+		expect((await list(username, token, 'limit=0')).status).toBe(400);
+		expect((await list(username, token, 'since=yesterday-ish')).status).toBe(400);
+	});
+});
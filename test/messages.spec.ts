@@ -0,0 +1,123 @@
+import { env, SELF } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { BASE_URL, authed, createEmailMessage, deliver, generateIdentity, latestEmailId } from './helpers';
+
+async function api<T = Record<string, any>>(token: string, method: string, path: string, body?: unknown) {
+	const res = await SELF.fetch(`${BASE_URL}${path}`, authed(token, { method, body: body === undefined ? undefined : JSON.stringify(body) }));
+	return { status: res.status, body: await res.json<T>() };
+}
+
+async function deliverTo(address: string, username: string, options: Partial<Parameters<typeof createEmailMessage>[0]> = {}) {
+	await deliver(createEmailMessage({ to: address, ...options }));
+	return latestEmailId(username);
+}
+
+describe('PATCH /api/email/:id', () => {
+	it('stars, archives and marks a message unread', async () => {
+		const { username, address, token } = await generateIdentity();
+		const id = await deliverTo(address, username);
+		await env.DB.prepare('UPDATE emails SET is_read = 1 WHERE id = ?').bind(id).run();
+
+		const { status, body } = await api(token, 'PATCH', `/api/email/${id}`, { is_starred: true, is_read: false, folder: 'archive' });
+
+		expect(status).toBe(200);
+		expect(body.email).toMatchObject({ id, is_starred: 1, is_read: 0, folder: 'archive', labels: [] });
+	});
+
+	it('rejects unknown folders and empty updates', async () => {
+		const { username, address, token } = await generateIdentity();
+		const id = await deliverTo(address, username);
+
+		expect((await api(token, 'PATCH', `/api/email/${id}`, { folder: 'sent' })).status).toBe(400);
+		expect((await api(token, 'PATCH', `/api/email/${id}`, {})).status).toBe(400);
+	});
+
+	it("can't touch another user's message", async () => {
+		const alice = await generateIdentity();
+		const bob = await generateIdentity();
+		const id = await deliverTo(alice.address, alice.username);
+
+		expect((await api(bob.token, 'PATCH', `/api/email/${id}`, { is_starred: true })).status).toBe(404);
+		expect((await api(bob.token, 'DELETE', `/api/email/${id}`)).status).toBe(404);
+	});
+});
+
+describe('DELETE /api/email/:id', () => {
+	it('removes the rows, the parsed blob and the attachment objects', async () => {
+		const { username, address, token } = await generateIdentity();
+		const id = await deliverTo(address, username, { attachment: { filename: 'a.txt', contentType: 'text/plain', content: 'hello' } });
+		const keys = [
+			(await env.DB.prepare('SELECT raw_r2_key FROM emails WHERE id = ?').bind(id).first<string>('raw_r2_key'))!,
+			(await env.DB.prepare('SELECT r2_key FROM attachments WHERE email_id = ?').bind(id).first<string>('r2_key'))!,
+		];
+
+		expect((await api(token, 'DELETE', `/api/email/${id}`)).status).toBe(200);
+
+		expect(await env.DB.prepare('SELECT 1 FROM emails WHERE id = ?').bind(id).first()).toBeNull();
+		expect(await env.DB.prepare('SELECT 1 FROM attachments WHERE email_id = ?').bind(id).first()).toBeNull();
+		for (const key of keys) expect(await env.MAIL_STORAGE.get(key)).toBeNull();
+	});
+});
+
+describe('bulk operations', () => {
+	it("updates and deletes only the caller's messages", async () => {
+		const alice = await generateIdentity();
+		const bob = await generateIdentity();
+		const mine = [await deliverTo(alice.address, alice.username), await deliverTo(alice.address, alice.username)];
+		const theirs = await deliverTo(bob.address, bob.username);
+
+		const update = await api(alice.token, 'PATCH', '/api/emails', { ids: [...mine, theirs], is_starred: true });
+		expect(update.body).toEqual({ updated: 2 });
+		expect(await env.DB.prepare('SELECT is_starred FROM emails WHERE id = ?').bind(theirs).first<number>('is_starred')).toBe(0);
+
+		const removal = await api(alice.token, 'DELETE', '/api/emails', { ids: [...mine, theirs] });
+		expect(removal.body).toEqual({ deleted: 2 });
+		expect(await env.DB.prepare('SELECT 1 FROM emails WHERE id = ?').bind(theirs).first()).not.toBeNull();
+	});
+
+	it('caps the number of ids per request', async () => {
+		const { token } = await generateIdentity();
+		const ids = Array.from({ length: 51 }, (_, i) => `id-${i}`);
+
+		expect((await api(token, 'PATCH', '/api/emails', { ids, is_read: true })).status).toBe(400);
+		expect((await api(token, 'DELETE', '/api/emails', { ids: [] })).status).toBe(400);
+	});
+});
+
+describe('labels', () => {
+	it('creates labels, applies them and lists labelled mail with counts', async () => {
+		const { username, address, token } = await generateIdentity();
+		const first = await deliverTo(address, username);
+		const second = await deliverTo(address, username);
+
+		const created = await api(token, 'POST', '/api/labels', { name: 'Receipts', color: 'green' });
+		expect(created.status).toBe(201);
+		const labelId = created.body.label.id;
+		expect((await api(token, 'POST', '/api/labels', { name: 'receipts' })).status).toBe(409);
+
+		await api(token, 'PATCH', '/api/emails', { ids: [first, second], add_labels: [labelId] });
+		await api(token, 'PATCH', `/api/email/${second}`, { remove_labels: [labelId], folder: 'archive' });
+
+		const listing = await api(token, 'GET', `/api/emails/${username}?folder=all&label=${labelId}`);
+		expect(listing.body.map((e: { id: string; labels: string[] }) => [e.id, e.labels])).toEqual([[first, [labelId]]]);
+
+		const counts = await api(token, 'GET', '/api/counts');
+		expect(counts.body.folders).toMatchObject({ inbox: { total: 1, unread: 1 }, archive: { total: 1, unread: 1 } });
+		expect(counts.body.labels).toEqual([{ id: labelId, name: 'Receipts', color: 'green', total: 1, unread: 1 }]);
+	});
+
+	it("ignores labels owned by another user and removes a deleted label from messages", async () => {
+		const alice = await generateIdentity();
+		const bob = await generateIdentity();
+		const id = await deliverTo(alice.address, alice.username);
+		const bobLabel = (await api(bob.token, 'POST', '/api/labels', { name: 'Spy' })).body.label.id;
+		const aliceLabel = (await api(alice.token, 'POST', '/api/labels', { name: 'Keep' })).body.label.id;
+
+		await api(alice.token, 'PATCH', `/api/email/${id}`, { add_labels: [bobLabel, aliceLabel] });
+		expect((await api(alice.token, 'PATCH', `/api/email/${id}`, { is_read: true })).body.email.labels).toEqual([aliceLabel]);
+		expect((await api(bob.token, 'DELETE', `/api/labels/${aliceLabel}`)).status).toBe(404);
+
+		expect((await api(alice.token, 'DELETE', `/api/labels/${aliceLabel}`)).status).toBe(200);
+		expect((await api(alice.token, 'PATCH', `/api/email/${id}`, { is_read: false })).body.email.labels).toEqual([]);
+	});
+});
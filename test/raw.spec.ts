@@ -0,0 +1,57 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect, vi } from 'vitest';
+import { authed, buildRawEmail, createEmailMessage, deliver, fetchWith, generateIdentity, latestEmailId } from './helpers';
+
+const raw = (token: string, id: string) => fetchWith(`/api/email/${id}/raw`, authed(token));
+
+describe('GET /api/email/:id/raw', () => {
+	it('serves the original bytes of received mail as message/rfc822', async () => {
+		const { username, address, token } = await generateIdentity();
+		const options = { to: address, subject: 'Source', messageId: '<source-1@example.org>', headers: ['X-Trace: relay-7'] };
+		await deliver(createEmailMessage(options));
+		const id = await latestEmailId(username);
+
+		const res = await raw(token, id);
+		expect(res.status).toBe(200);
+		expect(res.headers.get('Content-Type')).toBe('message/rfc822');
+		expect(res.headers.get('Content-Disposition')).toContain(`${id}.eml`);
+		expect(await res.text()).toBe(buildRawEmail(options));
+
+		// Someone else's message is indistinguishable from a missing one
+		const other = await generateIdentity();
+		expect((await raw(other.token, id)).status).toBe(404);
+	});
+
+	it('keeps the MIME that went out for sent mail', async () => {
+		const { token } = await generateIdentity();
+		const sender = { send: vi.fn(async () => {}) } as unknown as SendEmail;
+		const sent = await fetchWith(
+			'/api/send',
+			authed(token, { method: 'POST', body: JSON.stringify({ to: 'a@example.org', subject: 'Outgoing', text: 'Hi' }) }),
+			{ EMAIL_SENDER: sender }
+		);
+		const { id } = await sent.json<{ id: string }>();
+
+		const row = await env.DB.prepare('SELECT message_id FROM emails WHERE id = ?').bind(id).first<{ message_id: string }>();
+		const source = await (await raw(token, id)).text();
+		expect(source).toContain(`Message-ID: ${row!.message_id}`);
+		expect(source).toContain('To: <a@example.org>');
+	});
+
+	it('answers 404 for mail stored before raw archival and removes the copy with the message', async () => {
+		const { username, address, token } = await generateIdentity();
+		await deliver(createEmailMessage({ to: address }));
+		const id = await latestEmailId(username);
+		const row = await env.DB.prepare('SELECT eml_r2_key FROM emails WHERE id = ?').bind(id).first<{ eml_r2_key: string }>();
+
+		await fetchWith(`/api/email/${id}`, authed(token, { method: 'DELETE' }));
+		expect(await env.MAIL_STORAGE.get(row!.eml_r2_key)).toBeNull();
+
+		await deliver(createEmailMessage({ to: address }));
+		const legacy = await latestEmailId(username);
+		await env.DB.prepare('UPDATE emails SET eml_r2_key = NULL WHERE id = ?').bind(legacy).run();
+		const res = await raw(token, legacy);
+		expect(res.status).toBe(404);
+		expect(await res.json()).toMatchObject({ code: 'NOT_FOUND' });
+	});
+});
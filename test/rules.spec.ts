@@ -0,0 +1,169 @@
+import { env, SELF } from 'cloudflare:test';
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { matchesRule, parseRuleConditions } from '../src/worker/rules';
+import type { WebhookJob } from '../src/worker/webhooks';
+import { BASE_URL, authed, createEmailMessage, deliver, generateIdentity, latestEmailId, mockAI } from './helpers';
+
+async function api<T = Record<string, any>>(token: string, method: string, path: string, body?: unknown) {
+	const res = await SELF.fetch(`${BASE_URL}${path}`, authed(token, { method, body: body === undefined ? undefined : JSON.stringify(body) }));
+	return { status: res.status, body: await res.json<T>() };
+}
+
+afterEach(() => {
+	vi.restoreAllMocks();
+});
+
+// Captures the deliveries ingest queues instead of letting the local queue consume them
+function mockQueue() {
+	const jobs: WebhookJob[] = [];
+	const queue = { send: vi.fn(), sendBatch: vi.fn(async (messages: { body: WebhookJob }[]) => jobs.push(...messages.map((m) => m.body))) };
+	return { jobs, queue: queue as unknown as Queue };
+}
+
+describe('rules API', () => {
+	it('creates, lists, updates and deletes rules', async () => {
+		const { token } = await generateIdentity();
+		const created = await api(token, 'POST', '/api/rules', {
+			name: 'GitHub',
+			conditions: { sender: '*@github.com' },
+			actions: { mark_read: true },
+		});
+		expect(created.status).toBe(201);
+		expect(created.body.rule).toMatchObject({ name: 'GitHub', enabled: true, conditions: { sender: '*@github.com' }, actions: { mark_read: true } });
+		const id = created.body.rule.id;
+
+		const updated = await api(token, 'PATCH', `/api/rules/${id}`, { enabled: false, conditions: { subject: '^\\[ci\\]' } });
+		expect(updated.body.rule).toMatchObject({ enabled: false, conditions: { subject: '^\\[ci\\]' }, actions: { mark_read: true } });
+		expect((await api(token, 'GET', '/api/rules')).body.rules).toHaveLength(1);
+
+		expect((await api(token, 'DELETE', `/api/rules/${id}`)).status).toBe(200);
+		expect((await api(token, 'GET', '/api/rules')).body.rules).toEqual([]);
+	});
+
+	it('rejects invalid patterns, empty rules and labels or webhooks from another mailbox', async () => {
+		const alice = await generateIdentity();
+		const bob = await generateIdentity();
+		const bobLabel = (await api(bob.token, 'POST', '/api/labels', { name: 'Theirs' })).body.label.id;
+		const bobWebhook = (await api(bob.token, 'POST', '/api/webhooks', { url: 'https://hooks.example.net/bob' })).body.webhook.id;
+		const rule = (conditions: unknown, actions: unknown) => api(alice.token, 'POST', '/api/rules', { name: 'Test', conditions, actions });
+
+		expect((await rule({ subject: '(' }, { mark_read: true })).status).toBe(400);
+		expect((await rule({}, { mark_read: true })).status).toBe(400);
+		expect((await rule({ category: 'unknown' }, { mark_read: true })).status).toBe(400);
+		expect((await rule({ sender: '*' }, {})).status).toBe(400);
+		expect((await rule({ sender: '*' }, { webhook: 'https://example.com/hook' })).body.error).toBe('actions.webhook is not one of your webhooks');
+		expect((await rule({ sender: '*' }, { webhook: bobWebhook })).status).toBe(400);
+		expect((await rule({ sender: '*' }, { label: bobLabel })).status).toBe(400);
+	});
+});
+
+describe('subject patterns', () => {
+	const problem = (subject: string) => {
+		const parsed = parseRuleConditions({ subject });
+		return 'error' in parsed ? parsed.error : null;
+	};
+
+	it('accepts everyday patterns', () => {
+		for (const subject of ['^\\[ci\\]', 'invoice #\\d+', '(re|fwd): .*order \\d{4}', '[(+*]+ alert', '(?:urgent|asap)!?', 'build (\\w+ )?failed']) {
+			expect(problem(subject)).toBeNull();
+		}
+	});
+
+	it('rejects patterns that can backtrack for too long', () => {
+		expect(problem('(a+)+$')).toMatch(/repeats a group/);
+		expect(problem('(a|aa)*b')).toMatch(/repeats a group/);
+		expect(problem('((ab)*c){2,}')).toMatch(/repeats a group/);
+		expect(problem('(\\w+\\s?){10}x')).toMatch(/repeats a group/);
+		expect(problem('(a)\\1')).toMatch(/backreferences/);
+		expect(problem('a.*b.*c.*d')).toMatch(/at most 2 repeats/);
+		expect(problem('a?b?c?d?e?')).toMatch(/at most 4 optional/);
+	});
+
+	it('never runs a stored pattern that fails the check', () => {
+		const subject = { sender: 'a@example.org', subject: `${'a'.repeat(40)}!`, has_attachments: false, category: null, auth: null };
+		expect(matchesRule({ subject: '(a+)+$' }, subject)).toBe(false);
+		expect(matchesRule({ subject: '^a+!$' }, subject)).toBe(true);
+	});
+});
+
+describe('rules during ingest', () => {
+	it('labels and marks matching mail read', async () => {
+		const { username, address, token } = await generateIdentity();
+		const label = (await api(token, 'POST', '/api/labels', { name: 'News' })).body.label.id;
+		await api(token, 'POST', '/api/rules', {
+			name: 'Newsletters',
+			conditions: { sender: 'digest-?@*.example.org', category: 'newsletter' },
+			actions: { label, mark_read: true },
+		});
+
+		await deliver(createEmailMessage({ to: address, from: 'digest-1@news.example.org' }), { AI: mockAI('newsletter') });
+		const matched = await latestEmailId(username);
+		await deliver(createEmailMessage({ to: address, from: 'someone@example.org' }), { AI: mockAI('newsletter') });
+		const unmatched = await latestEmailId(username);
+
+		const listing = await api(token, 'GET', `/api/emails/${username}`);
+		const byId = Object.fromEntries(listing.body.map((e: any) => [e.id, e]));
+		expect(byId[matched]).toMatchObject({ is_read: 1, labels: [label], ai_category: 'newsletter' });
+		expect(byId[unmatched]).toMatchObject({ is_read: 0, labels: [] });
+	});
+
+	it('forwards and drops deleted mail before storing it, queueing a rule.matched event for its webhook', async () => {
+		const { username, address, token } = await generateIdentity();
+		const webhook = (await api(token, 'POST', '/api/webhooks', { url: 'https://hooks.example.net/mail', rules_only: true })).body.webhook;
+		await api(token, 'POST', '/api/rules', {
+			name: 'Alerts',
+			conditions: { subject: 'server down', has_attachments: false },
+			actions: { forward: 'oncall@example.net', webhook: webhook.id, delete: true },
+		});
+		const { jobs, queue } = mockQueue();
+
+		const message = createEmailMessage({ to: address, subject: 'ALERT: Server down' });
+		await deliver(message, { WEBHOOK_QUEUE: queue });
+		// Other mail doesn't reach a rules-only webhook
+		await deliver(createEmailMessage({ to: address, subject: 'Lunch?' }), { WEBHOOK_QUEUE: queue });
+
+		expect(message.forward).toHaveBeenCalledWith('oncall@example.net');
+		expect(jobs).toHaveLength(1);
+		const [delivery] = (await api(token, 'GET', `/api/webhooks/${webhook.id}/deliveries`)).body.deliveries;
+		expect(delivery).toMatchObject({
+			id: jobs[0].deliveryId,
+			event: 'rule.matched',
+			payload: { event: 'rule.matched', mailbox: address, rule: { name: 'Alerts' }, email: { id: null, link: null, subject: 'ALERT: Server down' } },
+		});
+		expect(await env.DB.prepare('SELECT subject FROM emails WHERE username = ?').bind(username).all()).toMatchObject({ results: [{ subject: 'Lunch?' }] });
+	});
+
+	it('queues the rule webhook only after the message is stored', async () => {
+		const { username, address, token } = await generateIdentity();
+		const webhook = (await api(token, 'POST', '/api/webhooks', { url: 'https://hooks.example.net/mail' })).body.webhook;
+		await api(token, 'POST', '/api/rules', { name: 'Invoices', conditions: { subject: 'invoice' }, actions: { webhook: webhook.id } });
+		const { jobs, queue } = mockQueue();
+
+		// Storing fails: nothing is announced for a message that isn't there
+		const failing = Object.assign(Object.create(env.MAIL_STORAGE), { put: vi.fn().mockRejectedValue(new Error('R2 unavailable')) });
+		await expect(deliver(createEmailMessage({ to: address, subject: 'Invoice 1' }), { WEBHOOK_QUEUE: queue, MAIL_STORAGE: failing })).rejects.toThrow();
+		expect(jobs).toHaveLength(0);
+
+		await deliver(createEmailMessage({ to: address, subject: 'Invoice 2' }), { WEBHOOK_QUEUE: queue });
+		const emailId = await latestEmailId(username);
+		const deliveries = (await api(token, 'GET', `/api/webhooks/${webhook.id}/deliveries`)).body.deliveries;
+		expect(deliveries.map((d: { event: string }) => d.event).sort()).toEqual(['email.received', 'rule.matched']);
+		expect(deliveries.find((d: { event: string }) => d.event === 'rule.matched').payload.email).toMatchObject({ id: emailId, link: `${env.APP_ORIGIN}/api/email/${emailId}` });
+		expect(jobs).toHaveLength(2);
+	});
+});
+
+describe('POST /api/rules/dry-run', () => {
+	it('reports which stored messages the conditions match', async () => {
+		const { username, address, token } = await generateIdentity();
+		await deliver(createEmailMessage({ to: address, subject: 'Invoice #1234' }));
+		const invoice = await latestEmailId(username);
+		await deliver(createEmailMessage({ to: address, subject: 'Lunch?' }));
+
+		const { status, body } = await api(token, 'POST', '/api/rules/dry-run', { conditions: { subject: 'invoice #\\d+' } });
+
+		expect(status).toBe(200);
+		expect(body).toMatchObject({ scanned: 2, matched: 1 });
+		expect(body.emails.map((e: { id: string }) => e.id)).toEqual([invoice]);
+	});
+});
@@ -0,0 +1,72 @@
+import { env, SELF } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { BASE_URL, authed, createEmailMessage, deliver, generateIdentity, latestEmailId, mockAI, runCron } from './helpers';
+
+type SearchResponse = { results: { id: string; subject: string; highlight: string }[] };
+
+async function search(token: string, q: string) {
+	const res = await SELF.fetch(`${BASE_URL}/api/search?q=${encodeURIComponent(q)}`, authed(token));
+	return { status: res.status, body: await res.json<SearchResponse>() };
+}
+
+describe('GET /api/search', () => {
+	it('finds messages by body text, subject, sender and AI summary with highlighted snippets', async () => {
+		const { address, token } = await generateIdentity();
+		await deliver(createEmailMessage({ to: address, subject: 'Quarterly numbers', text: 'The invoice for März is attached.' }), {
+			AI: mockAI('Finance team shares a spreadsheet.'),
+		});
+		await deliver(createEmailMessage({ to: address, from: 'newsletter@shop.example', subject: 'Weekly deals', text: 'Nothing relevant' }));
+
+		const byBody = await search(token, 'invoice');
+		expect(byBody.body.results.map((r) => r.subject)).toEqual(['Quarterly numbers']);
+		expect(byBody.body.results[0].highlight).toContain('\u0002invoice\u0003');
+
+		expect((await search(token, 'quarter')).body.results).toHaveLength(1);
+		expect((await search(token, 'marz')).body.results).toHaveLength(1);
+		expect((await search(token, 'spreadsheet')).body.results).toHaveLength(1);
+		expect((await search(token, 'shop.example')).body.results.map((r) => r.subject)).toEqual(['Weekly deals']);
+		expect((await search(token, 'invoice deals')).body.results).toHaveLength(0);
+	});
+
+	it("never returns another user's mail", async () => {
+		const alice = await generateIdentity();
+		const bob = await generateIdentity();
+		await deliver(createEmailMessage({ to: alice.address, text: 'confidential merger plans' }));
+
+		expect((await search(bob.token, 'merger')).body.results).toHaveLength(0);
+	});
+
+	it('treats FTS5 syntax in the query as plain words', async () => {
+		const { address, token } = await generateIdentity();
+		await deliver(createEmailMessage({ to: address, text: 'near the station' }));
+
+		const { status, body } = await search(token, 'NEAR(station "body:*');
+		expect(status).toBe(200);
+		expect(body.results).toHaveLength(0);
+		expect((await search(token, '"station"')).body.results).toHaveLength(1);
+		expect((await search(token, '  ** ')).status).toBe(400);
+	});
+
+	it('drops index entries when the email is deleted', async () => {
+		const { username, address, token } = await generateIdentity();
+		await deliver(createEmailMessage({ to: address, text: 'ephemeral words' }));
+		await env.DB.prepare('DELETE FROM emails WHERE id = ?').bind(await latestEmailId(username)).run();
+
+		expect((await search(token, 'ephemeral')).body.results).toHaveLength(0);
+		const orphans = await env.DB.prepare('SELECT COUNT(*) AS n FROM emails_fts WHERE emails_fts MATCH ?').bind('ephemeral').first<number>('n');
+		expect(orphans).toBe(0);
+	});
+
+	it('backfills emails stored before the index existed from their R2 blobs', async () => {
+		const { username, token } = await generateIdentity();
+		const key = `${username}/legacy.json`;
+		await env.MAIL_STORAGE.put(key, JSON.stringify({ html: '<style>p{}</style><p>Legacy <b>archive</b> body</p>', attachments: [] }));
+		await env.DB.prepare(`INSERT INTO emails (id, username, sender, subject, raw_r2_key, thread_id) VALUES ('legacy', ?, 'old@example.org', 'Old', ?, 'legacy')`)
+			.bind(username, key)
+			.run();
+
+		expect((await search(token, 'archive')).body.results).toHaveLength(0);
+		await runCron();
+		expect((await search(token, 'archive')).body.results.map((r) => r.id)).toEqual(['legacy']);
+	});
+});
@@ -0,0 +1,110 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect, vi } from 'vitest';
+import { authed, fetchWith, generateIdentity } from './helpers';
+
+function stubSender(fail: string[] = []) {
+	const send = vi.fn(async (message: EmailMessage) => {
+		if (fail.includes(message.to)) throw new Error('destination not verified');
+	});
+	return { send, sender: { send } as unknown as SendEmail };
+}
+
+async function send(token: string, body: BodyInit, sender: SendEmail) {
+	const res = await fetchWith('/api/send', authed(token, { method: 'POST', body }), { EMAIL_SENDER: sender });
+	return { status: res.status, data: await res.json<Record<string, any>>() };
+}
+
+describe('POST /api/send', () => {
+	it('delivers one envelope per To, Cc and Bcc recipient and saves a Sent copy', async () => {
+		const { address, token } = await generateIdentity();
+		const { send: spy, sender } = stubSender();
+
+		const { status, data } = await send(
+			token,
+			JSON.stringify({ to: 'a@example.org, b@example.org', cc: ['c@example.org'], bcc: 'd@example.org', subject: 'Hello', text: 'Hi all' }),
+			sender
+		);
+
+		expect(status).toBe(200);
+		const envelopes = spy.mock.calls.map(([m]) => m as EmailMessage);
+		expect(envelopes.map((m) => m.to)).toEqual(['a@example.org', 'b@example.org', 'c@example.org', 'd@example.org']);
+		expect(envelopes.every((m) => m.from === address)).toBe(true);
+
+		const row = await env.DB.prepare('SELECT * FROM emails WHERE id = ?').bind(data.id).first<Record<string, unknown>>();
+		expect(row).toMatchObject({ folder: 'sent', subject: 'Hello', recipient: 'a@example.org, b@example.org, c@example.org' });
+		const stored = await (await env.MAIL_STORAGE.get(row!.raw_r2_key as string))!.json<Record<string, any>>();
+		expect(stored.bcc).toEqual([{ name: '', address: 'd@example.org' }]);
+	});
+
+	it('stores multipart attachments and the HTML alternative with the Sent copy', async () => {
+		const { token } = await generateIdentity();
+		const form = new FormData();
+		form.append('to', 'friend@example.org');
+		form.append('subject', 'Report');
+		form.append('text', 'See attached');
+		form.append('html', '<p>See <b>attached</b></p>');
+		form.append('attachments', new File(['col1,col2\n1,2\n'], 'report.csv', { type: 'text/csv' }));
+		form.append('attachments', new File([new Uint8Array([1, 2, 3])], 'data.bin'));
+
+		const { status, data } = await send(token, form, stubSender().sender);
+
+		expect(status).toBe(200);
+		const row = await env.DB.prepare('SELECT raw_r2_key, has_attachments FROM emails WHERE id = ?')
+			.bind(data.id)
+			.first<{ raw_r2_key: string; has_attachments: number }>();
+		expect(row!.has_attachments).toBe(1);
+		const stored = await (await env.MAIL_STORAGE.get(row!.raw_r2_key))!.json<Record<string, any>>();
+		expect(stored.html).toBe('<p>See <b>attached</b></p>');
+
+		const { results } = await env.DB.prepare('SELECT filename, content_type, size, r2_key FROM attachments WHERE email_id = ? ORDER BY idx')
+			.bind(data.id)
+			.all<{ filename: string; content_type: string; size: number; r2_key: string }>();
+		expect(results.map((a) => [a.filename, a.content_type, a.size])).toEqual([
+			['report.csv', 'text/csv', 14],
+			['data.bin', 'application/octet-stream', 3],
+		]);
+		expect(await (await env.MAIL_STORAGE.get(results[0].r2_key))!.text()).toBe('col1,col2\n1,2\n');
+	});
+
+	it('rejects bad input with structured error codes', async () => {
+		const { token } = await generateIdentity();
+		const { send: spy, sender } = stubSender();
+
+		const cases: [Record<string, unknown>, number, string][] = [
+			[{ text: 'Hi' }, 400, 'NO_RECIPIENTS'],
+			[{ to: 'not-an-address, ok@example.org', text: 'Hi' }, 400, 'INVALID_RECIPIENT'],
+			[{ to: 'ok@example.org', text: '   ' }, 400, 'EMPTY_BODY'],
+			[{ to: Array.from({ length: 51 }, (_, i) => `r${i}@example.org`), text: 'Hi' }, 400, 'TOO_MANY_RECIPIENTS'],
+		];
+		for (const [body, status, code] of cases) {
+			const res = await send(token, JSON.stringify(body), sender);
+			expect(res.status).toBe(status);
+			expect(res.data.code).toBe(code);
+		}
+		expect(spy).not.toHaveBeenCalled();
+	});
+
+	it('reports SEND_FAILED when no recipient accepts the message', async () => {
+		const { username, token } = await generateIdentity();
+
+		const { status, data } = await send(token, JSON.stringify({ to: 'x@example.org', text: 'Hi' }), stubSender(['x@example.org']).sender);
+
+		expect(status).toBe(502);
+		expect(data).toMatchObject({ code: 'SEND_FAILED', details: { failed: ['x@example.org'] } });
+		const count = await env.DB.prepare('SELECT COUNT(*) AS n FROM emails WHERE username = ?').bind(username).first<number>('n');
+		expect(count).toBe(0);
+	});
+
+	it('keeps the Sent copy and lists refused addresses on partial failure', async () => {
+		const { token } = await generateIdentity();
+
+		const { status, data } = await send(
+			token,
+			JSON.stringify({ to: 'ok@example.org', cc: 'bad@example.org', text: 'Hi' }),
+			stubSender(['bad@example.org']).sender
+		);
+
+		expect(status).toBe(200);
+		expect(data.failed).toEqual(['bad@example.org']);
+	});
+});
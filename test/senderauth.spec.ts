@@ -0,0 +1,139 @@
+import { SELF } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_AUTHSERV_ID, authenticate as authenticateWith, parseAuthservIds } from '../src/worker/senderauth';
+import { BASE_URL, authed, createEmailMessage, deliver, generateIdentity, latestEmailId } from './helpers';
+
+async function api<T = Record<string, any>>(token: string, method: string, path: string, body?: unknown) {
+	const res = await SELF.fetch(`${BASE_URL}${path}`, authed(token, { method, body: body === undefined ? undefined : JSON.stringify(body) }));
+	return { status: res.status, body: await res.json<T>() };
+}
+
+const header = (key: string, value: string) => ({ key: key.toLowerCase(), originalKey: key, value });
+const results = (value: string) => header('Authentication-Results', value);
+const authenticate = (headers: ReturnType<typeof header>[], envelopeFrom: string, fromHeader: string) =>
+	authenticateWith(headers, envelopeFrom, fromHeader, [DEFAULT_AUTHSERV_ID]);
+
+describe('authenticate', () => {
+	it('trusts DMARC, and SPF or DKIM only when the From domain matches the envelope sender', () => {
+		const dmarcPass = authenticate(
+			[results('mx.cloudflare.net; spf=fail smtp.mailfrom=bounce@esp.example; dmarc=pass header.from=shop.example')],
+			'bounce@esp.example',
+			'news@shop.example'
+		);
+		expect(dmarcPass).toMatchObject({ status: 'verified', results: { spf: 'fail', dmarc: 'pass', from_mismatch: true } });
+
+		const sameDomain = authenticate(
+			[results('mx.cloudflare.net; spf=pass (sender permitted) smtp.mailfrom=bounces.shop.example')],
+			'x@bounces.shop.example',
+			'news@shop.example'
+		);
+		expect(sameDomain).toMatchObject({ status: 'verified', results: { from_mismatch: false } });
+
+		const mismatch = authenticate(
+			[results('mx.cloudflare.net; spf=pass smtp.mailfrom=esp.example; dkim=pass header.d=esp.example')],
+			'bounce@esp.example',
+			'ceo@bank.example'
+		);
+		expect(mismatch).toMatchObject({ status: 'unverified', results: { spf: 'pass', dkim: 'pass', dmarc: null, from_mismatch: true } });
+
+		const dmarcFail = authenticate([results('mx.cloudflare.net; dmarc=fail header.from=bank.example')], 'a@bank.example', 'a@bank.example');
+		expect(dmarcFail.status).toBe('failed');
+		const unchecked = authenticate([], 'a@shop.example', 'a@shop.example');
+		expect(unchecked).toMatchObject({ status: 'unverified', results: { spf: null, dkim: null, dmarc: null } });
+	});
+
+	it('keeps any passing DKIM signature, falls back to Received-SPF and ignores lower headers', () => {
+		const signatures = authenticate(
+			[results('mx.cloudflare.net; dkim=fail header.d=shop.example; dkim=pass header.d=shop.example')],
+			'a@shop.example',
+			'a@shop.example'
+		);
+		expect(signatures.results.dkim).toBe('pass');
+
+		const spfOnly = authenticate(
+			[header('Received-SPF', 'Fail (mailfrom) identity=mailfrom; client-ip=192.0.2.1'), results('mx.cloudflare.net; dkim=none')],
+			'a@shop.example',
+			'a@shop.example'
+		);
+		expect(spfOnly).toMatchObject({ status: 'failed', results: { spf: 'fail' } });
+
+		// The sender can write its own Authentication-Results below the one the receiving server adds
+		const forged = authenticate(
+			[
+				results('mx.cloudflare.net; spf=fail smtp.mailfrom=bank.example'),
+				results('mx.cloudflare.net; dmarc=pass header.from=bank.example'),
+			],
+			'a@bank.example',
+			'a@bank.example'
+		);
+		expect(forged.status).toBe('failed');
+	});
+
+	it('only reads results stamped with a trusted authserv-id', () => {
+		// A forged header on top, claiming to come from another host, is skipped for the real one below it
+		const forged = authenticate(
+			[
+				results('mx.attacker.example; spf=pass; dkim=pass header.d=bank.example; dmarc=pass header.from=bank.example'),
+				header('Received-SPF', 'Pass (mailfrom) identity=mailfrom'),
+				results('mx.cloudflare.net 1; spf=fail smtp.mailfrom=bank.example; dmarc=fail header.from=bank.example'),
+			],
+			'a@bank.example',
+			'a@bank.example'
+		);
+		expect(forged).toMatchObject({ status: 'failed', results: { spf: 'fail', dkim: null, dmarc: 'fail' } });
+
+		// With no trusted header at all nothing is read, Received-SPF included
+		const untrusted = authenticate(
+			[header('Received-SPF', 'Pass (mailfrom) identity=mailfrom'), results('mx.attacker.example; dmarc=pass header.from=bank.example')],
+			'a@bank.example',
+			'a@bank.example'
+		);
+		expect(untrusted).toMatchObject({ status: 'unverified', results: { spf: null, dkim: null, dmarc: null } });
+
+		const ids = parseAuthservIds(' MX.example.net, mx.cloudflare.net ,');
+		expect(ids).toEqual(['mx.example.net', 'mx.cloudflare.net']);
+		expect(authenticateWith([results('mx.example.net; dmarc=pass')], 'a@bank.example', 'a@bank.example', ids).status).toBe('verified');
+		expect(parseAuthservIds(undefined)).toEqual([DEFAULT_AUTHSERV_ID]);
+	});
+});
+
+describe('authentication results on stored mail', () => {
+	it('exposes the verdict, filters the listing on it and matches it in rules', async () => {
+		const { username, address, token } = await generateIdentity();
+		const rule = await api(token, 'POST', '/api/rules', { name: 'Spoofed', conditions: { auth: 'failed' }, actions: { mark_read: true } });
+		expect(rule.status).toBe(201);
+		const invalid = await api(token, 'POST', '/api/rules', { name: 'Bad', conditions: { auth: 'maybe' }, actions: { mark_read: true } });
+		expect(invalid.status).toBe(400);
+
+		await deliver(
+			createEmailMessage({
+				to: address,
+				from: 'billing@shop.example',
+				headers: ['Authentication-Results: mx.cloudflare.net; dkim=pass header.d=shop.example; spf=pass; dmarc=pass'],
+			})
+		);
+		const verified = await latestEmailId(username);
+		const spoofed = ['Authentication-Results: mx.cloudflare.net; spf=fail; dmarc=fail'];
+		await deliver(createEmailMessage({ to: address, from: 'ceo@bank.example', headers: spoofed }));
+		const failed = await latestEmailId(username);
+
+		const listed = await api(token, 'GET', `/api/emails/${username}?auth=failed`);
+		expect(listed.body.map((e: { id: string }) => e.id)).toEqual([failed]);
+		expect(listed.body[0]).toMatchObject({ auth_status: 'failed', is_read: 1 });
+		expect((await api(token, 'GET', `/api/emails/${username}?auth=verified`)).body[0]).toMatchObject({ id: verified, is_read: 0 });
+		expect((await api(token, 'GET', `/api/emails/${username}?auth=maybe`)).status).toBe(400);
+
+		const detail = await api(token, 'GET', `/api/email/${verified}`);
+		expect(detail.body).toMatchObject({
+			auth_status: 'verified',
+			auth_results: {
+				spf: 'pass',
+				dkim: 'pass',
+				dmarc: 'pass',
+				envelope_domain: 'shop.example',
+				from_domain: 'shop.example',
+				from_mismatch: false,
+			},
+		});
+	});
+});
@@ -0,0 +1,152 @@
+import { env, SELF } from 'cloudflare:test';
+import { describe, it, expect, vi } from 'vitest';
+import { BASE_URL, authed, createEmailMessage, deliver, fetchWith, generateIdentity, latestEmailId, runCron } from './helpers';
+
+async function api<T = Record<string, any>>(token: string, method: string, path: string, body?: unknown) {
+	const res = await SELF.fetch(`${BASE_URL}${path}`, authed(token, { method, body: body === undefined ? undefined : JSON.stringify(body) }));
+	return { status: res.status, body: await res.json<T>() };
+}
+
+// Opens /api/ws and queues incoming frames so tests can await them in order
+async function openSocket(token: string) {
+	const res = await SELF.fetch(`${BASE_URL}/api/ws?token=${encodeURIComponent(token)}`, { headers: { Upgrade: 'websocket' } });
+	const ws = res.webSocket!;
+	ws.accept();
+	const frames: any[] = [];
+	const waiting: ((frame: any) => void)[] = [];
+	ws.addEventListener('message', (event) => {
+		const frame = JSON.parse(event.data as string);
+		const next = waiting.shift();
+		if (next) next(frame);
+		else frames.push(frame);
+	});
+	return {
+		send: (frame: unknown) => ws.send(typeof frame === 'string' ? frame : JSON.stringify(frame)),
+		next: () => (frames.length ? Promise.resolve(frames.shift()) : new Promise<any>((resolve) => waiting.push(resolve))),
+		close: () => ws.close(),
+	};
+}
+
+describe('mailbox socket protocol', () => {
+	it('answers pings and subscribes at the latest cursor', async () => {
+		const { token } = await generateIdentity();
+		const socket = await openSocket(token);
+
+		socket.send({ v: 1, type: 'ping', id: 7 });
+		expect(await socket.next()).toEqual({ v: 1, type: 'pong', id: 7 });
+		socket.send({ v: 1, type: 'subscribe', cursor: null });
+		expect(await socket.next()).toEqual({ v: 1, type: 'subscribed', cursor: 0, replayed: 0 });
+
+		socket.send('hello');
+		expect(await socket.next()).toMatchObject({ v: 1, type: 'error' });
+		socket.send({ v: 2, type: 'subscribe', cursor: null });
+		expect(await socket.next()).toMatchObject({ type: 'error', message: expect.stringContaining('version') });
+		socket.close();
+	});
+
+	it('streams new mail, read, label and delete events to subscribed sockets', async () => {
+		const { username, address, token } = await generateIdentity();
+		const label = (await api(token, 'POST', '/api/labels', { name: 'Work' })).body.label.id;
+		const socket = await openSocket(token);
+		socket.send({ v: 1, type: 'subscribe', cursor: null });
+		await socket.next();
+
+		await deliver(createEmailMessage({ to: address, subject: 'Hello' }));
+		const id = await latestEmailId(username);
+		expect(await socket.next()).toMatchObject({ type: 'event', seq: 1, event: { type: 'email.created', email: { id, subject: 'Hello' } } });
+
+		await api(token, 'GET', `/api/email/${id}`);
+		expect((await socket.next()).event).toEqual({ type: 'email.updated', ids: [id], changes: { is_read: 1 }, add_labels: [], remove_labels: [] });
+
+		expect((await api(token, 'PATCH', '/api/emails', { ids: [id, 'someone-elses'], add_labels: [label] })).status).toBe(200);
+		expect((await socket.next()).event).toEqual({ type: 'email.updated', ids: [id], changes: {}, add_labels: [label], remove_labels: [] });
+
+		expect((await api(token, 'DELETE', `/api/email/${id}`)).status).toBe(200);
+		expect(await socket.next()).toMatchObject({ seq: 4, event: { type: 'email.deleted', ids: [id] } });
+		socket.close();
+	});
+
+	it('replays missed events after a reconnect and asks stale clients to resync', async () => {
+		const { username, address, token } = await generateIdentity();
+		let socket = await openSocket(token);
+		socket.send({ v: 1, type: 'subscribe', cursor: null });
+		const { cursor } = await socket.next();
+		socket.close();
+
+		await deliver(createEmailMessage({ to: address, subject: 'While offline' }));
+		const id = await latestEmailId(username);
+		await api(token, 'PATCH', `/api/email/${id}`, { is_starred: true });
+
+		socket = await openSocket(token);
+		socket.send({ v: 1, type: 'subscribe', cursor });
+		expect(await socket.next()).toMatchObject({ seq: cursor + 1, event: { type: 'email.created', email: { id } } });
+		expect(await socket.next()).toMatchObject({ seq: cursor + 2, event: { type: 'email.updated', changes: { is_starred: 1 } } });
+		expect(await socket.next()).toEqual({ v: 1, type: 'subscribed', cursor: cursor + 2, replayed: 2 });
+
+		socket.send({ v: 1, type: 'subscribe', cursor: cursor + 50 });
+		expect(await socket.next()).toEqual({ v: 1, type: 'resync', cursor: cursor + 2 });
+		socket.close();
+	});
+
+	it('starts whoever claims a purged name with an empty event log', async () => {
+		const name = `purged${crypto.randomUUID().substring(0, 6)}`;
+		const generate = async () => {
+			const res = await SELF.fetch(`${BASE_URL}/api/generate`, { method: 'POST', body: JSON.stringify({ username: name }) });
+			return res.json<{ address: string; token: string }>();
+		};
+		const first = await generate();
+		await deliver(createEmailMessage({ to: first.address, subject: 'Private' }));
+		await env.DB.prepare('UPDATE users SET expires_at = ? WHERE username = ?').bind(Math.floor(Date.now() / 1000) - 1, name).run();
+		await runCron();
+
+		const second = await generate();
+		const socket = await openSocket(second.token);
+		socket.send({ v: 1, type: 'subscribe', cursor: 0 });
+		expect(await socket.next()).toEqual({ v: 1, type: 'subscribed', cursor: 0, replayed: 0 });
+
+		// New events count up from the start again
+		await deliver(createEmailMessage({ to: second.address, subject: 'Mine' }));
+		expect(await socket.next()).toMatchObject({ seq: 1, event: { type: 'email.created', email: { subject: 'Mine' } } });
+		socket.close();
+	});
+
+	it('keeps sending NEW_EMAIL to clients that never subscribe', async () => {
+		const { username, address, token } = await generateIdentity();
+		const socket = await openSocket(token);
+
+		await deliver(createEmailMessage({ to: address }));
+		expect(await socket.next()).toMatchObject({ type: 'NEW_EMAIL', data: { id: await latestEmailId(username) } });
+		socket.close();
+	});
+});
+
+describe('multi-device sync', () => {
+	it('tells every open session about reads, deletes and new sent mail', async () => {
+		const { username, address, token } = await generateIdentity();
+		await deliver(createEmailMessage({ to: address, subject: 'Read me' }));
+		const id = await latestEmailId(username);
+		const phone = await openSocket(token);
+		const laptop = await openSocket(token);
+		for (const socket of [phone, laptop]) {
+			socket.send({ v: 1, type: 'subscribe', cursor: null });
+			await socket.next();
+		}
+
+		// Opened on the laptop
+		await api(token, 'GET', `/api/email/${id}`);
+		expect((await phone.next()).event).toMatchObject({ type: 'email.updated', ids: [id], changes: { is_read: 1 } });
+		expect((await laptop.next()).event).toMatchObject({ type: 'email.updated', ids: [id] });
+
+		const sender = { send: vi.fn(async () => {}) } as unknown as SendEmail;
+		const sent = await fetchWith('/api/send', authed(token, { method: 'POST', body: JSON.stringify({ to: 'friend@example.org', subject: 'Hi', text: 'Hello' }) }), {
+			EMAIL_SENDER: sender,
+		});
+		const sentId = (await sent.json<{ id: string }>()).id;
+		expect((await phone.next()).event).toMatchObject({ type: 'email.created', email: { id: sentId, folder: 'sent', subject: 'Hi' } });
+
+		await api(token, 'DELETE', '/api/emails', { ids: [id, sentId] });
+		expect((await phone.next()).event).toEqual({ type: 'email.deleted', ids: expect.arrayContaining([id, sentId]) });
+		phone.close();
+		laptop.close();
+	});
+});
@@ -0,0 +1,80 @@
+import { env, SELF } from 'cloudflare:test';
+import { describe, it, expect, vi } from 'vitest';
+import { BASE_URL, authed, createEmailMessage, deliver, fetchWith, generateIdentity, latestEmailId } from './helpers';
+
+const sender = { send: vi.fn(async () => {}) } as unknown as SendEmail;
+
+async function reply(token: string, emailId: string, body = 'Sounds good') {
+	const res = await fetchWith('/api/reply', authed(token, { method: 'POST', body: JSON.stringify({ emailId, body }) }), {
+		EMAIL_SENDER: sender,
+	});
+	return res.json<{ id: string }>();
+}
+
+describe('threaded replies', () => {
+	it('saves a Sent copy carrying In-Reply-To, References and a fresh Message-ID', async () => {
+		const { username, address, token } = await generateIdentity();
+		await deliver(
+			createEmailMessage({
+				to: address,
+				subject: 'Plans',
+				messageId: '<second@example.org>',
+				inReplyTo: '<first@example.org>',
+				references: '<first@example.org>',
+			})
+		);
+		const original = await latestEmailId(username);
+
+		const { id } = await reply(token, original);
+
+		const sent = await env.DB.prepare('SELECT * FROM emails WHERE id = ?').bind(id).first<Record<string, unknown>>();
+		expect(sent).toMatchObject({ folder: 'sent', subject: 'Re: Plans', recipient: 'sender@example.org', is_read: 1 });
+		expect(sent!.message_id).toMatch(new RegExp(`^<[0-9a-f-]+@${env.DOMAIN}>$`));
+
+		const stored = await (await env.MAIL_STORAGE.get(sent!.raw_r2_key as string))!.json<Record<string, string>>();
+		expect(stored.inReplyTo).toBe('<second@example.org>');
+		expect(stored.references).toBe('<first@example.org> <second@example.org>');
+		expect(stored.text).toBe('Sounds good');
+	});
+
+	it('keeps replies and follow-ups in the original thread', async () => {
+		const { username, address, token } = await generateIdentity();
+		await deliver(createEmailMessage({ to: address, subject: 'Plans', messageId: '<root@example.org>' }));
+		const rootId = await latestEmailId(username);
+
+		const { id: sentId } = await reply(token, rootId);
+		const sentMessageId = await env.DB.prepare('SELECT message_id FROM emails WHERE id = ?').bind(sentId).first<string>('message_id');
+
+		await deliver(
+			createEmailMessage({
+				to: address,
+				subject: 'Re: Re: Plans',
+				inReplyTo: sentMessageId!,
+				references: `<root@example.org> ${sentMessageId}`,
+			})
+		);
+
+		const res = await SELF.fetch(`${BASE_URL}/api/threads/${rootId}`, authed(token));
+		const thread = await res.json<{ id: string; folder: string }[]>();
+		expect(thread.map((m) => m.folder)).toEqual(['inbox', 'sent', 'inbox']);
+	});
+
+	it('starts a new thread for unrelated mail', async () => {
+		const { username, address } = await generateIdentity();
+		await deliver(createEmailMessage({ to: address, inReplyTo: '<unknown@example.org>' }));
+
+		const row = await env.DB.prepare('SELECT id, thread_id FROM emails WHERE username = ?').bind(username).first<{ id: string; thread_id: string }>();
+		expect(row!.thread_id).toBe(row!.id);
+	});
+
+	it('lists the Sent folder separately from the inbox', async () => {
+		const { username, address, token } = await generateIdentity();
+		await deliver(createEmailMessage({ to: address }));
+		await reply(token, await latestEmailId(username));
+
+		const inbox = await (await SELF.fetch(`${BASE_URL}/api/emails/${username}`, authed(token))).json<unknown[]>();
+		const sent = await (await SELF.fetch(`${BASE_URL}/api/emails/${username}?folder=sent`, authed(token))).json<unknown[]>();
+		expect(inbox).toHaveLength(1);
+		expect(sent).toHaveLength(1);
+	});
+});
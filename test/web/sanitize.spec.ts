@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import { htmlToText, sanitizeEmailHtml } from '../../src/lib/sanitize';
+
+const sanitize = (source: string, allowRemote = false, cidUrls = new Map<string, string>()) =>
+	sanitizeEmailHtml(source, { cidUrls, allowRemote });
+
+// The sanitized <body>, parsed back so assertions don't depend on serialisation details
+const body = (source: string, allowRemote = false, cidUrls?: Map<string, string>) =>
+	new DOMParser().parseFromString(sanitize(source, allowRemote, cidUrls).html, 'text/html').body;
+
+describe('sanitizeEmailHtml', () => {
+	it('drops scripts and active content together with what is inside them', () => {
+		const html = body(
+			'<p>Hi</p><script>alert(1)</script><noscript>x</noscript><iframe srcdoc="<script>alert(2)</script>"></iframe>' +
+				'<form action="https://evil.example"><input name="password"><button>Go</button></form><object data="x.swf"></object>'
+		).innerHTML;
+		expect(html).toBe('<p>Hi</p>');
+	});
+
+	it('removes SVG and MathML, which carry their own script and link semantics', () => {
+		const html = body(
+			'<svg onload="alert(1)"><a href="javascript:alert(2)"><text>svg</text></a></svg>' +
+				'<svg><foreignObject><img src="x" onerror="alert(3)"></foreignObject></svg>' +
+				'<math><maction actiontype="statusline" href="javascript:alert(4)">math</maction></math><p>kept</p>'
+		).innerHTML;
+		expect(html).toBe('<p>kept</p>');
+	});
+
+	it('strips event handlers, srcdoc and anything else off the attribute allowlist', () => {
+		const el = body(
+			'<div onclick="alert(1)" onmouseover="alert(2)" srcdoc="<b>x</b>" data-x="1" class="note" style="color: red">a</div>' +
+				'<img src="data:image/png;base64,AAAA" onerror="alert(3)" onload="alert(4)">'
+		);
+		const div = el.querySelector('div')!;
+		expect(div.getAttributeNames().sort()).toEqual(['class', 'style']);
+		expect(el.querySelector('img')!.getAttributeNames()).toEqual(['src']);
+	});
+
+	it('only keeps links to web, mail and phone targets', () => {
+		const el = body(
+			'<a href="javascript:alert(1)">js</a><a href=" JaVaScRiPt:alert(2)">mixed case</a>' +
+				'<a href="data:text/html,<script>alert(3)</script>">data</a><a href="vbscript:msgbox">vb</a>' +
+				'<a href="https://example.org/">web</a><a href="mailto:a@example.org">mail</a>'
+		);
+		const links = Array.from(el.querySelectorAll('a'));
+		expect(links.map((a) => a.getAttribute('href'))).toEqual([null, null, null, null, 'https://example.org/', 'mailto:a@example.org']);
+		// Every link opens outside the viewer without handing it a reference back
+		expect(links.every((a) => a.getAttribute('target') === '_blank' && a.getAttribute('rel') === 'noopener noreferrer')).toBe(true);
+	});
+
+	it('keeps inline data: images but no other data: or script URLs as image sources', () => {
+		const el = body(
+			'<img id="png" src="data:image/png;base64,AAAA"><img id="html" src="data:text/html;base64,PHNjcmlwdD4=">' +
+				'<img id="js" src="javascript:alert(1)"><img id="svg" src="data:image/svg+xml,<svg onload=alert(1)>">'
+		);
+		expect(el.querySelector('#png')!.getAttribute('src')).toBe('data:image/png;base64,AAAA');
+		expect(el.querySelector('#html')!.hasAttribute('src')).toBe(false);
+		expect(el.querySelector('#js')!.hasAttribute('src')).toBe(false);
+		// SVG images can't run script from an <img>, and the viewer CSP allows data: images either way
+		expect(el.querySelector('#svg')!.hasAttribute('src')).toBe(true);
+	});
+
+	it('neutralises remote, script and import URLs in style blocks and attributes', () => {
+		const result = sanitize(
+			'<style>@import "https://evil.example/a.css"; body { background: url(https://t.example/p.gif); width: expression(alert(1)) }</style>' +
+				'<p style="background-image: url(\'javascript:alert(1)\')">x</p>'
+		);
+		const doc = new DOMParser().parseFromString(result.html, 'text/html');
+		const css = doc.querySelector('style')!.textContent!;
+		expect(css).not.toContain('@import');
+		expect(css).not.toContain('t.example');
+		expect(css).not.toContain('expression(');
+		expect(doc.querySelector('p')!.getAttribute('style')).toBe('background-image: none');
+		expect(result.blockedRemote).toBe(2);
+	});
+
+	it('blocks remote images until allowed and resolves cid: references to local URLs', () => {
+		const source =
+			'<img id="remote" src="https://t.example/pixel.gif"><img id="inline" src="cid:logo@x"><img id="unknown" src="cid:other@x">';
+		const cids = new Map([['logo@x', 'blob:local/1']]);
+
+		const blocked = sanitize(source, false, cids);
+		const el = body(source, false, cids);
+		expect(blocked.blockedRemote).toBe(1);
+		expect(el.querySelector('#remote')!.hasAttribute('src')).toBe(false);
+		expect(el.querySelector('#inline')!.getAttribute('src')).toBe('blob:local/1');
+		expect(el.querySelector('#unknown')!.hasAttribute('src')).toBe(false);
+
+		expect(sanitize(source, true, cids).blockedRemote).toBe(0);
+		expect(body(source, true, cids).querySelector('#remote')!.getAttribute('src')).toBe('https://t.example/pixel.gif');
+	});
+
+	it('replaces any meta or base in the message with its own CSP and link target', () => {
+		const { html } = sanitize(
+			'<head><meta http-equiv="refresh" content="0;url=https://evil.example"><base href="https://evil.example/"></head><p>x</p>'
+		);
+		const head = new DOMParser().parseFromString(html, 'text/html').head;
+		expect(head.querySelectorAll('meta')).toHaveLength(1);
+		expect(head.querySelector('meta')!.getAttribute('http-equiv')).toBe('Content-Security-Policy');
+		expect(head.querySelector('meta')!.getAttribute('content')).toContain("default-src 'none'");
+		expect(head.querySelector('base')!.getAttributeNames()).toEqual(['target']);
+	});
+});
+
+describe('htmlToText', () => {
+	it('keeps the readable text and leaves out scripts and styles', () => {
+		expect(htmlToText('<style>p { color: red }</style><p>Hello</p><script>alert(1)</script><p>there</p>')).toBe('Hellothere');
+	});
+});
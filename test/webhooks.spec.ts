@@ -0,0 +1,168 @@
+import { createExecutionContext, createMessageBatch, env, getQueueResult, SELF } from 'cloudflare:test';
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import worker from '../src';
+import { type WebhookJob, signPayload } from '../src/worker/webhooks';
+import { appOrigin } from '../src/worker/domains';
+import { BASE_URL, authed, createEmailMessage, deliver, generateIdentity, latestEmailId } from './helpers';
+
+async function api<T = Record<string, any>>(token: string, method: string, path: string, body?: unknown) {
+	const res = await SELF.fetch(`${BASE_URL}${path}`, authed(token, { method, body: body === undefined ? undefined : JSON.stringify(body) }));
+	return { status: res.status, body: await res.json<T>() };
+}
+
+// Captures what ingest puts on the queue instead of letting the local queue consume it
+function mockQueue() {
+	const jobs: WebhookJob[] = [];
+	const queue = { send: vi.fn(), sendBatch: vi.fn(async (messages: { body: WebhookJob }[]) => jobs.push(...messages.map((m) => m.body))) };
+	return { jobs, queue: queue as unknown as Queue };
+}
+
+// Stand-in receiver: checks the signature header the way a real consumer would, then answers with `status`
+function standInReceiver(secret: string, status = 200) {
+	const received: { event: string | null; payload: any; verified: boolean }[] = [];
+	vi.spyOn(globalThis, 'fetch').mockImplementation(async (_url, init) => {
+		const headers = new Headers(init!.headers);
+		const body = init!.body as string;
+		const [, timestamp, signature] = headers.get('X-Webhook-Signature')!.match(/^t=(\d+),v1=([0-9a-f]+)$/)!;
+		received.push({
+			event: headers.get('X-Webhook-Event'),
+			payload: JSON.parse(body),
+			verified: signature === (await signPayload(secret, Number(timestamp), body)),
+		});
+		return new Response(status === 200 ? 'ok' : 'receiver error', { status });
+	});
+	return { received };
+}
+
+async function runQueue(jobs: WebhookJob[], attempts = 1) {
+	const batch = createMessageBatch<WebhookJob>(
+		'webhook-deliveries',
+		jobs.map((body, i) => ({ id: `msg-${i}`, timestamp: new Date(), attempts, body }))
+	);
+	await worker.queue(batch, env);
+	return getQueueResult(batch, createExecutionContext());
+}
+
+afterEach(() => {
+	vi.restoreAllMocks();
+});
+
+describe('webhooks API', () => {
+	it('registers webhooks, only revealing the secret once', async () => {
+		const { token } = await generateIdentity();
+
+		const created = await api(token, 'POST', '/api/webhooks', { url: 'https://ci.example.net/hooks/mail' });
+		expect(created.status).toBe(201);
+		expect(created.body.webhook.secret).toMatch(/^whsec_/);
+
+		const listed = await api(token, 'GET', '/api/webhooks');
+		expect(listed.body.webhooks).toEqual([
+			{ id: created.body.webhook.id, url: 'https://ci.example.net/hooks/mail', enabled: 1, rules_only: 0, created_at: expect.any(Number) },
+		]);
+
+		expect((await api(token, 'PATCH', `/api/webhooks/${created.body.webhook.id}`, { enabled: false, rules_only: true })).status).toBe(200);
+		expect((await api(token, 'GET', '/api/webhooks')).body.webhooks[0]).toMatchObject({ enabled: 0, rules_only: 1 });
+		expect((await api(token, 'PATCH', `/api/webhooks/${created.body.webhook.id}`, { rules_only: 'yes' })).status).toBe(400);
+		expect((await api(token, 'DELETE', `/api/webhooks/${created.body.webhook.id}`)).status).toBe(200);
+		expect((await api(token, 'GET', '/api/webhooks')).body.webhooks).toEqual([]);
+	});
+
+	it('only accepts https URLs, or http to localhost', async () => {
+		const { token } = await generateIdentity();
+
+		expect((await api(token, 'POST', '/api/webhooks', { url: 'http://ci.example.net/hook' })).status).toBe(400);
+		expect((await api(token, 'POST', '/api/webhooks', { url: 'not a url' })).status).toBe(400);
+		expect((await api(token, 'POST', '/api/webhooks', { url: 'http://localhost:8788/hook' })).status).toBe(201);
+	});
+});
+
+describe('webhook deliveries', () => {
+	it('POSTs a signed payload for each new message and logs the delivery', async () => {
+		const { username, address, token } = await generateIdentity();
+		const webhook = (await api(token, 'POST', '/api/webhooks', { url: 'https://ci.example.net/hook' })).body.webhook;
+		const { jobs, queue } = mockQueue();
+
+		await deliver(createEmailMessage({ to: address, subject: 'Your login code', text: 'Code: 123456' }), { WEBHOOK_QUEUE: queue });
+		const emailId = await latestEmailId(username);
+		expect(jobs).toHaveLength(1);
+
+		const receiver = standInReceiver(webhook.secret);
+		const result = await runQueue(jobs);
+
+		expect(result.explicitAcks).toEqual(['msg-0']);
+		expect(receiver.received).toEqual([
+			{
+				event: 'email.received',
+				verified: true,
+				payload: expect.objectContaining({
+					event: 'email.received',
+					mailbox: address,
+					email: expect.objectContaining({
+						id: emailId,
+						from: 'sender@example.org',
+						subject: 'Your login code',
+						snippet: expect.stringMatching(/^Code: 123456/),
+						ai_summary: 'Mock summary of the message.',
+						link: `${env.APP_ORIGIN}/api/email/${emailId}`,
+					}),
+				}),
+			},
+		]);
+
+		const log = await api(token, 'GET', `/api/webhooks/${webhook.id}/deliveries`);
+		expect(log.body.deliveries).toMatchObject([{ event: 'email.received', status: 'delivered', attempts: 1, response_status: 200, error: null }]);
+	});
+
+	it('links to the app origin whichever domain the message arrived on', async () => {
+		const domain = `mail-${crypto.randomUUID().substring(0, 8)}.example.net`;
+		await SELF.fetch(`${BASE_URL}/api/admin/domains`, authed('test-admin-token', { method: 'POST', body: JSON.stringify({ name: domain }) }));
+		const identity = await (await SELF.fetch(`${BASE_URL}/api/generate`, { method: 'POST', body: JSON.stringify({ domain }) })).json<Record<string, any>>();
+		const webhook = (await api(identity.token, 'POST', '/api/webhooks', { url: 'https://ci.example.net/hook' })).body.webhook;
+		const { jobs, queue } = mockQueue();
+
+		await deliver(createEmailMessage({ to: identity.address }), { WEBHOOK_QUEUE: queue, APP_ORIGIN: 'https://app.example.com/' });
+		const emailId = await latestEmailId(identity.username);
+		expect(jobs).toHaveLength(1);
+		const [delivery] = (await api(identity.token, 'GET', `/api/webhooks/${webhook.id}/deliveries`)).body.deliveries;
+		expect(delivery.payload).toMatchObject({ mailbox: identity.address, email: { link: `https://app.example.com/api/email/${emailId}` } });
+
+		expect(appOrigin({ ...env, APP_ORIGIN: '' })).toBe(`https://${env.DOMAIN}`);
+	});
+
+	it('retries failures with exponential backoff and gives up after the last attempt', async () => {
+		const { address, token } = await generateIdentity();
+		const webhook = (await api(token, 'POST', '/api/webhooks', { url: 'https://ci.example.net/hook' })).body.webhook;
+		const { jobs, queue } = mockQueue();
+		await deliver(createEmailMessage({ to: address }), { WEBHOOK_QUEUE: queue });
+		standInReceiver(webhook.secret, 503);
+
+		// The backoff shows in the log as the gap between the attempt and the scheduled retry
+		const backoff = async () => {
+			const [delivery] = (await api(token, 'GET', `/api/webhooks/${webhook.id}/deliveries`)).body.deliveries;
+			return delivery.next_attempt_at - delivery.last_attempt_at;
+		};
+
+		expect((await runQueue(jobs)).retryMessages).toEqual([{ msgId: 'msg-0' }]);
+		expect(await backoff()).toBe(30);
+		expect((await runQueue(jobs, 2)).retryMessages).toEqual([{ msgId: 'msg-0' }]);
+		expect(await backoff()).toBe(60);
+
+		let log = await api(token, 'GET', `/api/webhooks/${webhook.id}/deliveries`);
+		expect(log.body.deliveries[0]).toMatchObject({ status: 'retrying', attempts: 2, response_status: 503, error: 'HTTP 503: receiver error' });
+
+		await env.DB.prepare('UPDATE webhook_deliveries SET attempts = 7 WHERE id = ?').bind(jobs[0].deliveryId).run();
+		const last = await runQueue(jobs, 8);
+		expect(last.explicitAcks).toEqual(['msg-0']);
+		log = await api(token, 'GET', `/api/webhooks/${webhook.id}/deliveries`);
+		expect(log.body.deliveries[0]).toMatchObject({ status: 'failed', attempts: 8, next_attempt_at: null });
+	});
+
+	it("doesn't show another user's delivery log", async () => {
+		const alice = await generateIdentity();
+		const bob = await generateIdentity();
+		const webhook = (await api(alice.token, 'POST', '/api/webhooks', { url: 'https://ci.example.net/hook' })).body.webhook;
+
+		expect((await api(bob.token, 'GET', `/api/webhooks/${webhook.id}/deliveries`)).status).toBe(404);
+		expect((await api(bob.token, 'DELETE', `/api/webhooks/${webhook.id}`)).status).toBe(404);
+	});
+});
@@ -1,11 +1,44 @@
-import { defineWorkersConfig } from '@cloudflare/vitest-pool-workers/config';
+import fs from 'node:fs';
+import path from 'node:path';
+import { defineConfig } from 'vitest/config';
+import { defineWorkersProject, readD1Migrations } from '@cloudflare/vitest-pool-workers/config';
 
-export default defineWorkersConfig({
+export default defineConfig({
 	test: {
-		poolOptions: {
-			workers: {
-				wrangler: { configPath: './wrangler.jsonc' },
+		projects: [
+			defineWorkersProject(async () => {
+				// Read the D1 migrations once so every test run starts from the real schema
+				const migrations = await readD1Migrations(path.join(__dirname, 'migrations'));
+				// wrangler.jsonc points the ASSETS binding at the Vite output, which doesn't exist before a build
+				fs.mkdirSync(path.join(__dirname, 'dist'), { recursive: true });
+
+				return {
+					test: {
+						name: 'worker',
+						include: ['test/*.spec.ts'],
+						setupFiles: ['./test/apply-migrations.ts'],
+						// mimetext pulls in CommonJS deps (mime-types -> mime-db JSON) that workerd can't load unbundled
+						deps: { optimizer: { ssr: { enabled: true, include: ['mimetext'] } } },
+						poolOptions: {
+							workers: {
+								wrangler: { configPath: './wrangler.jsonc' },
+								// One runtime for all spec files: parallel runtimes each snapshot the D1/R2 storage per test,
+								// which starves small CI runners and makes the storage isolation drop connections
+								singleWorker: true,
+								miniflare: {
+									// Deployed builds get node:os from wrangler's unenv polyfills; the test runtime needs the native module
+									compatibilityFlags: ['nodejs_compat', 'enable_nodejs_os_module'],
+									bindings: { TEST_MIGRATIONS: migrations, ADMIN_TOKEN: 'test-admin-token' },
+								},
+							},
+						},
+					},
+				};
+			}),
+			{
+				// Browser-side code (src/lib) runs against a DOM instead of the Workers runtime
+				test: { name: 'web', include: ['test/web/*.spec.ts'], environment: 'happy-dom' },
 			},
-		},
+		],
 	},
 });
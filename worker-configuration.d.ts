@@ -11,8 +11,11 @@ declare namespace Cloudflare {
 	MAIL_STORAGE: R2Bucket;
 	AI: Ai;
 	EMAIL_SENDER: SendEmail;
-	MAILBOX_DO: DurableObjectNamespace;
+	MAILBOX_DO: DurableObjectNamespace<import("./src/index").Mailbox>;
+	WEBHOOK_QUEUE: Queue;
 	DOMAIN: string;
+	AUTHSERV_IDS: string;
+	APP_ORIGIN: string;
 	JWT_SECRET: string;
 }
 }